@@ -2,7 +2,10 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { connectDB } from './config/db.js';
-import { startScheduler } from './jobs/scheduler.js';
+import { startScheduler, startSourceChecks } from './jobs/scheduler.js';
+import { recoverStaleJobs } from './jobs/queue.js';
+import { startWorker } from './jobs/worker.js';
+import { recoverStaleEvaluations } from './services/prompt_eval.js';
 import countriesRouter from './routes/countries.js';
 import adminRouter from './routes/admin.js';
 import authRouter from './routes/auth.js';
@@ -50,11 +53,26 @@ async function start() {
         console.log('✅ MongoDB connected');
 
         // AIRAC Scheduler - Ready but disabled
-        // Uncomment to enable automatic 28-day AIRAC cycle updates (starts Jan 23, 2026 at 2:00 AM)
+        // Uncomment to enable automatic updates on the AIRAC calendar (see services/airac.ts,
+        // AIRAC_LEAD_DAYS / AIRAC_RUN_HOUR_UTC)
         // Manual "Run All" button still works via admin API: POST /api/admin/run-all
         // startScheduler();
         // console.log('✅ AIRAC Scheduler initialized');
 
+        // Source checks (refetch only, no LLM) on SOURCE_CHECK_CRON - SOURCE_CHECKS=false turns
+        // them off in this process, e.g. when several API processes share one database
+        if (process.env.SOURCE_CHECKS !== 'false') {
+            startSourceChecks();
+        }
+
+        // Update jobs run from the Mongo job queue - reclaim work left behind by a restart,
+        // then process it here unless JOB_WORKER=false (run `npm run worker` processes instead)
+        await recoverStaleJobs();
+        await recoverStaleEvaluations();
+        if (process.env.JOB_WORKER !== 'false') {
+            startWorker();
+        }
+
         app.listen(PORT, () => {
             console.log(`🚀 Server running on http://localhost:${PORT}`);
         });
@@ -0,0 +1,42 @@
+import { airacLeadDays, airacRunHourUtc } from '../services/airac.js';
+import type { UpdateJobMode } from '../types/index.js';
+
+// ============================================================
+// CONFIGURATION - AIRAC ALIGNED
+// ============================================================
+// Shared by the scheduler (which queues jobs) and the workers (which run them)
+export const CONFIG = {
+    // Scheduled runs start AIRAC_LEAD_DAYS before each cycle's effective date, at this hour (UTC)
+    AIRAC_LEAD_DAYS: airacLeadDays(),
+    AIRAC_RUN_HOUR_UTC: airacRunHourUtc(),
+
+    // A scheduled run missed while the server was down still starts if it is this late at most
+    SCHEDULED_CATCH_UP_MS: 24 * 60 * 60 * 1000,
+
+    // Batch processing
+    BATCH_SIZE: 20,
+
+    // Delays (in milliseconds) - enforced per job across all workers
+    DELAY_BETWEEN_LLM_CALLS_MS: 60 * 1000,      // 1 minute between LLM calls
+    DELAY_BETWEEN_BATCHES_MS: 2 * 60 * 1000,    // 2 minutes between batches
+
+    // Skip recently updated ('all' mode only)
+    SKIP_IF_UPDATED_WITHIN_MS: 24 * 60 * 60 * 1000,  // 24 hours
+
+    // Scheduled runs regenerate every country; SCHEDULED_JOB_MODE=changed limits them to countries whose sources changed
+    SCHEDULED_JOB_MODE: (process.env.SCHEDULED_JOB_MODE === 'changed' ? 'changed' : 'all') as UpdateJobMode,
+
+    // Source checks (refetch only, no LLM) run on their own cron, UTC - daily at 03:00 by default, 'off' to disable
+    SOURCE_CHECK_CRON: process.env.SOURCE_CHECK_CRON || '0 3 * * *',
+
+    // Retry configuration
+    ERROR_THRESHOLD: 5,         // Number of failures to trigger retry
+    MAX_RETRIES: 3,             // Maximum retry attempts per country
+    RETRY_DELAY_MS: 30 * 60 * 1000,  // 30 minutes before retrying
+
+    // Work queue
+    LEASE_MS: 10 * 60 * 1000,           // A task is reclaimed if its worker stops heartbeating for this long
+    HEARTBEAT_MS: 60 * 1000,            // Workers extend their lease this often
+    WORKER_POLL_MS: 5 * 1000,           // Idle workers look for tasks this often
+    STALE_JOB_MS: 15 * 60 * 1000        // A running job with no tasks and no heartbeat for this long is failed
+};
@@ -0,0 +1,83 @@
+/**
+ * Job Events - Progress events of update jobs
+ *
+ * Events are written to MongoDB rather than an in-process emitter because the worker
+ * running a country may be a different process from the API server streaming to the UI.
+ * Each job numbers its events (UpdateJob.eventSeq) so a stream can resume where it left off.
+ */
+
+import { UpdateJobModel } from '../models/UpdateJob.js';
+import { JobEventModel } from '../models/JobEvent.js';
+import { JobTaskModel } from '../models/JobTask.js';
+import { CountryRunLogModel } from '../models/CountryRunLog.js';
+import type { IJobEvent, JobEventType } from '../models/JobEvent.js';
+
+/**
+ * Record an event. Failures are logged, never thrown - progress reporting must not break a job.
+ */
+export async function emitJobEvent(
+    jobId: unknown,
+    type: JobEventType,
+    data: Record<string, unknown> = {},
+    iso3?: string
+): Promise<void> {
+    try {
+        const job = await UpdateJobModel.findByIdAndUpdate(
+            jobId,
+            { $inc: { eventSeq: 1 } },
+            { new: true, projection: { eventSeq: 1 } }
+        ).lean();
+        if (!job) return;
+
+        await JobEventModel.create({ jobId, seq: job.eventSeq, type, iso3, data });
+    } catch (err) {
+        console.error(`   ⚠️ Failed to record job event ${type}:`, err);
+    }
+}
+
+/**
+ * Emit the final 'summary' event with the job's closing status and counts
+ */
+export async function emitJobSummary(jobId: unknown): Promise<void> {
+    try {
+        const job = await UpdateJobModel.findById(jobId).lean();
+        if (!job) return;
+
+        const counts = await JobTaskModel.aggregate([
+            { $match: { jobId: job._id } },
+            { $group: { _id: '$status', count: { $sum: 1 } } }
+        ]);
+        const byStatus = Object.fromEntries(counts.map(c => [c._id, c.count]));
+        const skipped = await CountryRunLogModel.countDocuments({ jobId: job._id, status: 'skipped' });
+
+        await emitJobEvent(job._id, 'summary', {
+            status: job.status,
+            error: job.error,
+            queued: job.tasksTotal || 0,
+            succeeded: byStatus.succeeded || 0,
+            failed: byStatus.failed || 0,
+            cancelled: byStatus.cancelled || 0,
+            inProgress: byStatus.leased || 0,
+            skipped,
+            draftsCreated: job.draftsCreated,
+            sourcesChecked: job.sourcesChecked,
+            sourcesChanged: job.sourcesChanged,
+            sourceErrors: job.sourceErrors,
+            changedCountries: job.changedCountries,
+            startedAt: job.startedAt,
+            completedAt: job.completedAt
+        });
+    } catch (err) {
+        console.error('   ⚠️ Failed to record job summary:', err);
+    }
+}
+
+/**
+ * Events of a job after `afterSeq`, oldest first
+ */
+export async function getJobEvents(jobId: unknown, afterSeq = 0, limit = 500): Promise<IJobEvent[]> {
+    return JobEventModel.find({ jobId, seq: { $gt: afterSeq } })
+        .sort({ seq: 1 })
+        .limit(limit)
+        .lean<IJobEvent[]>();
+}
@@ -0,0 +1,420 @@
+/**
+ * Job Queue - Mongo-backed work queue for update jobs
+ *
+ * Each country of an UpdateJob is a JobTask. Workers lease one task at a time and keep the
+ * lease alive with heartbeats; a task whose lease expires (worker crashed or was restarted)
+ * goes back to pending and is picked up again. The rate limit lives on the UpdateJob
+ * (nextLeaseAt), so CONFIG delays hold however many workers are running.
+ *
+ * Only 'running' jobs are leased from, so pausing or cancelling takes effect between
+ * countries: a country already being generated finishes and is recorded normally.
+ */
+
+import { UpdateJobModel } from '../models/UpdateJob.js';
+import { JobTaskModel } from '../models/JobTask.js';
+import { CountryRunLogModel } from '../models/CountryRunLog.js';
+import { emitJobEvent, emitJobSummary } from './events.js';
+import { CONFIG } from './config.js';
+import type { IJobTask } from '../models/JobTask.js';
+import type { GenerationMode } from '../types/index.js';
+
+function isoIn(ms: number): string {
+    return new Date(Date.now() + ms).toISOString();
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Queue one task per country, in the given order
+ */
+export async function enqueueCountries(
+    jobId: unknown,
+    countries: Array<{ iso3: string; country: string }>,
+    options: { maxAttempts: number; generation?: { mode?: GenerationMode; force?: boolean } }
+): Promise<number> {
+    if (countries.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    await JobTaskModel.insertMany(countries.map((c, position) => ({
+        jobId,
+        iso3: c.iso3,
+        country: c.country,
+        position,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: options.maxAttempts,
+        availableAt: now,
+        generation: options.generation
+    })));
+
+    await UpdateJobModel.findByIdAndUpdate(jobId, {
+        $set: { tasksTotal: countries.length, heartbeatAt: now }
+    });
+
+    return countries.length;
+}
+
+/**
+ * Return expired leases to the queue. Tasks that already used their last attempt fail.
+ */
+export async function reclaimExpiredLeases(): Promise<number> {
+    const now = new Date().toISOString();
+    const expired = { status: 'leased', leaseExpiresAt: { $lt: now } };
+
+    const exhaustedFilter = { ...expired, $expr: { $gte: ['$attempts', '$maxAttempts'] } };
+    const exhaustedJobs = await JobTaskModel.distinct('jobId', exhaustedFilter);
+
+    const exhausted = await JobTaskModel.updateMany(
+        exhaustedFilter,
+        {
+            $set: { status: 'failed', lastError: 'Lease expired - worker stopped responding', completedAt: now },
+            $unset: { leaseOwner: 1, leaseExpiresAt: 1 }
+        }
+    );
+
+    const requeued = await JobTaskModel.updateMany(
+        expired,
+        {
+            $set: { status: 'pending', availableAt: now, lastError: 'Lease expired - worker stopped responding' },
+            $unset: { leaseOwner: 1, leaseExpiresAt: 1 }
+        }
+    );
+
+    const total = exhausted.modifiedCount + requeued.modifiedCount;
+    if (total > 0) {
+        console.log(`♻️ Reclaimed ${total} expired task leases (${requeued.modifiedCount} requeued, ${exhausted.modifiedCount} failed)`);
+    }
+
+    // Jobs whose last task just failed here would otherwise never complete
+    for (const jobId of exhaustedJobs) {
+        await finalizeJobIfDone(jobId);
+    }
+
+    return total;
+}
+
+/**
+ * Lease the next available task of any running job, honouring the job's rate limit.
+ * Returns null when nothing can be leased right now.
+ */
+export async function leaseNextTask(workerId: string): Promise<IJobTask | null> {
+    const now = new Date().toISOString();
+    const available = { status: 'pending', availableAt: { $lte: now } };
+
+    const jobs = await UpdateJobModel.find({ status: 'running' }).select('_id').sort({ startedAt: 1 }).lean();
+
+    for (const job of jobs) {
+        if (!await JobTaskModel.exists({ jobId: job._id, ...available })) continue;
+
+        // Claim the job's next rate-limit slot; every BATCH_SIZE leases the pause is a batch delay
+        const slot = await UpdateJobModel.findOneAndUpdate(
+            {
+                _id: job._id,
+                status: 'running',
+                $or: [{ nextLeaseAt: { $exists: false } }, { nextLeaseAt: { $lte: now } }]
+            },
+            [{
+                $set: {
+                    tasksLeased: { $add: [{ $ifNull: ['$tasksLeased', 0] }, 1] },
+                    nextLeaseAt: {
+                        $cond: [
+                            { $eq: [{ $mod: [{ $add: [{ $ifNull: ['$tasksLeased', 0] }, 1] }, CONFIG.BATCH_SIZE] }, 0] },
+                            isoIn(CONFIG.DELAY_BETWEEN_BATCHES_MS),
+                            isoIn(CONFIG.DELAY_BETWEEN_LLM_CALLS_MS)
+                        ]
+                    },
+                    heartbeatAt: now
+                }
+            }],
+            { new: true }
+        ).lean();
+        if (!slot) continue;
+
+        const task = await JobTaskModel.findOneAndUpdate(
+            { jobId: job._id, ...available },
+            {
+                $set: {
+                    status: 'leased',
+                    leaseOwner: workerId,
+                    leaseExpiresAt: isoIn(CONFIG.LEASE_MS),
+                    heartbeatAt: now,
+                    startedAt: now
+                },
+                $inc: { attempts: 1 }
+            },
+            { sort: { position: 1 }, new: true }
+        ).lean<IJobTask>();
+
+        if (task) {
+            const leased = slot.tasksLeased || 0;
+            if (leased % CONFIG.BATCH_SIZE === 0) {
+                console.log(`   ⏳ Batch of ${CONFIG.BATCH_SIZE} leased - next lease in ${CONFIG.DELAY_BETWEEN_BATCHES_MS / 1000}s`);
+                await emitJobEvent(job._id, 'batch', {
+                    batch: leased / CONFIG.BATCH_SIZE,
+                    leased,
+                    total: slot.tasksTotal || 0,
+                    nextLeaseAt: slot.nextLeaseAt
+                });
+            }
+            return task;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Wait for the job's next rate-limit slot and claim it. Leasing a task claims a slot for its
+ * first LLM call; a task that makes more (sectioned generation) claims one per extra call,
+ * so they count against the same DELAY_BETWEEN_LLM_CALLS_MS limit as task leases.
+ * A job paused or cancelled meanwhile still gets its slot - the country being generated finishes.
+ */
+export async function waitForLlmSlot(jobId: unknown): Promise<void> {
+    for (;;) {
+        const now = new Date().toISOString();
+        const slot = await UpdateJobModel.findOneAndUpdate(
+            { _id: jobId, $or: [{ nextLeaseAt: { $exists: false } }, { nextLeaseAt: { $lte: now } }] },
+            { $set: { nextLeaseAt: isoIn(CONFIG.DELAY_BETWEEN_LLM_CALLS_MS) } }
+        ).select('_id').lean();
+        if (slot) return;
+
+        const job = await UpdateJobModel.findById(jobId).select('nextLeaseAt').lean();
+        if (!job) return;
+        const waitMs = new Date(job.nextLeaseAt || now).getTime() - Date.now();
+        await sleep(Math.max(waitMs, 1000));
+    }
+}
+
+/**
+ * Extend a lease. Returns false if the lease was lost (expired and reclaimed).
+ */
+export async function heartbeatTask(task: IJobTask, workerId: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const result = await JobTaskModel.updateOne(
+        { _id: task._id, status: 'leased', leaseOwner: workerId },
+        { $set: { leaseExpiresAt: isoIn(CONFIG.LEASE_MS), heartbeatAt: now } }
+    );
+    await UpdateJobModel.updateOne({ _id: task.jobId, status: 'running' }, { $set: { heartbeatAt: now } });
+
+    return result.matchedCount > 0;
+}
+
+/**
+ * Record a task's outcome and complete the job if it was the last one
+ */
+export async function completeTask(
+    task: IJobTask,
+    workerId: string,
+    result: { success: boolean; error?: string }
+): Promise<void> {
+    const now = new Date().toISOString();
+    const updated = await JobTaskModel.updateOne(
+        { _id: task._id, status: 'leased', leaseOwner: workerId },
+        {
+            $set: {
+                status: result.success ? 'succeeded' : 'failed',
+                lastError: result.error,
+                completedAt: now
+            },
+            $unset: { leaseOwner: 1, leaseExpiresAt: 1 }
+        }
+    );
+
+    // Lease lost while running - another worker owns the task now
+    if (updated.matchedCount === 0) {
+        console.warn(`   ⚠️ ${task.iso3}: Lease lost before completion - result discarded`);
+        return;
+    }
+
+    if (result.success) {
+        await UpdateJobModel.updateOne({ _id: task.jobId }, { $inc: { draftsCreated: 1 } });
+    }
+
+    await finalizeJobIfDone(task.jobId);
+}
+
+/**
+ * Once no task is pending or leased: start a retry round if enough countries failed
+ * (ERROR_THRESHOLD for the first round, any failure after that), else complete the job
+ */
+export async function finalizeJobIfDone(jobId: unknown): Promise<void> {
+    if (await JobTaskModel.exists({ jobId, status: { $in: ['pending', 'leased'] } })) return;
+
+    const job = await UpdateJobModel.findOne({ _id: jobId, status: 'running' }).lean();
+    if (!job) return;
+
+    const retryable = { jobId, status: 'failed', $expr: { $lt: ['$attempts', '$maxAttempts'] } };
+    const retryableCount = await JobTaskModel.countDocuments(retryable);
+    const threshold = job.retryRound ? 1 : CONFIG.ERROR_THRESHOLD;
+
+    if (retryableCount > 0 && retryableCount >= threshold) {
+        const round = (job.retryRound || 0) + 1;
+
+        await JobTaskModel.updateMany(retryable, {
+            $set: { status: 'pending', availableAt: isoIn(CONFIG.RETRY_DELAY_MS) },
+            $unset: { completedAt: 1 }
+        });
+        await UpdateJobModel.updateOne({ _id: jobId }, { $set: { retryRound: round } });
+        await emitJobEvent(jobId, 'retry_wait', {
+            round,
+            countries: retryableCount,
+            resumesAt: isoIn(CONFIG.RETRY_DELAY_MS)
+        });
+
+        console.log(`\n🔄 RETRY ROUND ${round} for job ${jobId}: ${retryableCount} countries in ${CONFIG.RETRY_DELAY_MS / (60 * 1000)}min`);
+        return;
+    }
+
+    const completed = await UpdateJobModel.findOneAndUpdate(
+        { _id: jobId, status: 'running' },
+        { $set: { status: 'completed', completedAt: new Date().toISOString() }, $unset: { nextLeaseAt: 1 } },
+        { new: true }
+    ).lean();
+    if (!completed) return;
+
+    const succeeded = await JobTaskModel.countDocuments({ jobId, status: 'succeeded' });
+    const failed = await JobTaskModel.countDocuments({ jobId, status: 'failed' });
+
+    console.log(`\n${'='.repeat(60)}`);
+    console.log(`✅ UPDATE JOB COMPLETED`);
+    console.log(`   Job ID: ${jobId}`);
+    console.log(`   Countries processed: ${succeeded}`);
+    console.log(`   Errors: ${failed}`);
+    console.log(`${'='.repeat(60)}\n`);
+
+    await emitJobSummary(jobId);
+}
+
+/**
+ * Run at startup: reclaim dead leases, finish jobs whose tasks are all done, and fail
+ * running jobs that never queued tasks and have shown no sign of life for STALE_JOB_MS
+ * (e.g. the process died while checking sources)
+ */
+export async function recoverStaleJobs(): Promise<void> {
+    await reclaimExpiredLeases();
+
+    const staleBefore = new Date(Date.now() - CONFIG.STALE_JOB_MS).toISOString();
+    const running = await UpdateJobModel.find({ status: 'running' }).lean();
+
+    for (const job of running) {
+        if (await JobTaskModel.exists({ jobId: job._id })) {
+            await finalizeJobIfDone(job._id);
+            continue;
+        }
+
+        const lastSeen = job.heartbeatAt || job.startedAt;
+        if (lastSeen < staleBefore) {
+            await UpdateJobModel.updateOne(
+                { _id: job._id, status: 'running' },
+                {
+                    $set: {
+                        status: 'failed',
+                        error: `Interrupted - no heartbeat since ${lastSeen} (server restarted?)`,
+                        completedAt: new Date().toISOString()
+                    }
+                }
+            );
+            console.warn(`⚠️ Marked stale update job ${job._id} as failed (last seen ${lastSeen})`);
+            await emitJobSummary(job._id);
+        }
+    }
+}
+
+/**
+ * Stop leasing new countries for a running job. Returns null if the job is not running.
+ */
+export async function pauseJob(jobId: string, userId?: string) {
+    const job = await UpdateJobModel.findOneAndUpdate(
+        { _id: jobId, status: 'running' },
+        { $set: { status: 'paused', pausedAt: new Date().toISOString(), pausedBy: userId } },
+        { new: true }
+    ).lean();
+
+    if (job) {
+        console.log(`⏸️ Update job ${jobId} paused by user ${userId}`);
+        await emitJobEvent(job._id, 'paused', { pausedBy: userId });
+    }
+    return job;
+}
+
+/**
+ * Continue a paused job. Returns null if the job is not paused.
+ */
+export async function resumeJob(jobId: string) {
+    const job = await UpdateJobModel.findOneAndUpdate(
+        { _id: jobId, status: 'paused' },
+        { $set: { status: 'running', heartbeatAt: new Date().toISOString() }, $unset: { pausedAt: 1, pausedBy: 1 } },
+        { new: true }
+    ).lean();
+    if (!job) return null;
+
+    console.log(`▶️ Update job ${jobId} resumed`);
+    await emitJobEvent(job._id, 'resumed');
+
+    // Every task may have finished while the job was paused
+    await finalizeJobIfDone(jobId);
+    return UpdateJobModel.findById(jobId).lean();
+}
+
+/**
+ * Cancel a running or paused job: queued countries are dropped, and those never attempted
+ * get a 'cancelled' CountryRunLog entry. Returns null if the job is not running or paused.
+ */
+export async function cancelJob(jobId: string, userId?: string) {
+    const now = new Date().toISOString();
+    const job = await UpdateJobModel.findOneAndUpdate(
+        { _id: jobId, status: { $in: ['running', 'paused'] } },
+        {
+            $set: { status: 'cancelled', cancelledAt: now, cancelledBy: userId, completedAt: now },
+            $unset: { nextLeaseAt: 1 }
+        },
+        { new: true }
+    ).lean();
+    if (!job) return null;
+
+    const pending = await JobTaskModel.find({ jobId: job._id, status: 'pending' }).select('iso3 country attempts').lean();
+    await JobTaskModel.updateMany(
+        { jobId: job._id, status: 'pending' },
+        { $set: { status: 'cancelled', completedAt: now } }
+    );
+
+    // Retries already have a 'failed' entry from their earlier attempt
+    const neverAttempted = pending.filter(t => t.attempts === 0);
+    if (neverAttempted.length > 0) {
+        await CountryRunLogModel.insertMany(neverAttempted.map(t => ({
+            jobId: job._id,
+            iso3: t.iso3,
+            country: t.country,
+            status: 'cancelled',
+            error: 'Job cancelled before this country was processed',
+            retryCount: 0,
+            timestamp: now
+        })));
+    }
+
+    const leased = await JobTaskModel.countDocuments({ jobId: job._id, status: 'leased' });
+    console.log(`⏹️ Update job ${jobId} cancelled by user ${userId}: ${pending.length} queued countries dropped${leased > 0 ? `, ${leased} in progress will finish` : ''}`);
+
+    const cancelled = await UpdateJobModel.findByIdAndUpdate(
+        job._id,
+        { $set: { tasksCancelled: pending.length } },
+        { new: true }
+    ).lean();
+    await emitJobSummary(job._id);
+    return cancelled;
+}
+
+/**
+ * Refresh a job's heartbeat until the returned stop function is called -
+ * for work done before its tasks are queued
+ */
+export function keepJobAlive(jobId: unknown): () => void {
+    const timer = setInterval(() => {
+        UpdateJobModel.updateOne({ _id: jobId, status: 'running' }, { $set: { heartbeatAt: new Date().toISOString() } })
+            .catch(err => console.error('   ⚠️ Job heartbeat failed:', err));
+    }, CONFIG.HEARTBEAT_MS);
+
+    return () => clearInterval(timer);
+}
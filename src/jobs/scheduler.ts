@@ -3,41 +3,16 @@ import { UpdateJobModel } from '../models/UpdateJob.js';
 import { CountryModel } from '../models/Country.js';
 import { CountryRunLogModel } from '../models/CountryRunLog.js';
 import { generateCountrySummary } from '../services/llm.js';
-import type { UpdateJob } from '../types/index.js';
-
-// ============================================================
-// CONFIGURATION - AIRAC ALIGNED
-// ============================================================
-const CONFIG = {
-    // First run date (AIRAC aligned)
-    FIRST_RUN: '2026-01-23T02:00:00',
-
-    // Cycle interval in days
-    CYCLE_DAYS: 28,
-
-    // Batch processing
-    BATCH_SIZE: 20,
-
-    // Delays (in milliseconds)
-    DELAY_BETWEEN_LLM_CALLS_MS: 60 * 1000,      // 1 minute between LLM calls
-    DELAY_BETWEEN_BATCHES_MS: 2 * 60 * 1000,    // 2 minutes between batches
-
-    // Skip recently updated
-    SKIP_IF_UPDATED_WITHIN_MS: 24 * 60 * 60 * 1000,  // 24 hours
-
-    // Retry configuration
-    ERROR_THRESHOLD: 5,         // Number of failures to trigger retry
-    MAX_RETRIES: 3,             // Maximum retry attempts per country
-    RETRY_DELAY_MS: 30 * 60 * 1000,  // 30 minutes before retrying
-
-    // Progress save interval
-    SAVE_EVERY: 5
-};
-
-// Sleep helper
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-}
+import { hasPendingDraft } from '../services/review.js';
+import { fetchAllSources } from '../services/fetcher.js';
+import { countriesWithSourceChanges } from '../services/source_changes.js';
+import { CONFIG } from './config.js';
+import { enqueueCountries, finalizeJobIfDone, keepJobAlive, waitForLlmSlot } from './queue.js';
+import { emitJobEvent, emitJobSummary } from './events.js';
+import { runSourceCheckJob, logSourceRun } from './source_check.js';
+import { getAiracCycle, getAiracCycleForRun, getNextAiracRun } from '../services/airac.js';
+import type { AiracCycle } from '../services/airac.js';
+import type { Country, UpdateJob, UpdateJobMode, GenerationMode } from '../types/index.js';
 
 // Format duration
 function formatDuration(ms: number): string {
@@ -46,66 +21,73 @@ function formatDuration(ms: number): string {
     return `${(ms / 60000).toFixed(1)}min`;
 }
 
-// Scheduler instance
+// Scheduler instances
 let scheduledTask: cron.ScheduledTask | null = null;
+let sourceCheckTask: cron.ScheduledTask | null = null;
 
 /**
- * Calculate next AIRAC run time
+ * Start the scheduled update job for the current AIRAC cycle if its run time has come
+ * and it has not run yet
  */
-function getNextAiracRun(): Date {
-    const firstRun = new Date(CONFIG.FIRST_RUN);
+async function checkAiracRun(): Promise<void> {
     const now = new Date();
+    const cycle = getAiracCycleForRun(now);
+    const lateBy = now.getTime() - new Date(cycle.runAt).getTime();
 
-    if (now < firstRun) {
-        return firstRun;
+    if (lateBy > CONFIG.SCHEDULED_CATCH_UP_MS) return;
+    if (await UpdateJobModel.exists({ type: 'scheduled', airacCycle: cycle.id })) return;
+
+    if (await UpdateJobModel.exists({ type: { $ne: 'source_check' }, status: { $in: ['running', 'paused'] } })) {
+        console.warn(`⏰ AIRAC ${cycle.id} run due but another update job is in progress - will retry next hour`);
+        return;
     }
 
-    // Calculate cycles since first run
-    const msSinceFirst = now.getTime() - firstRun.getTime();
-    const cycleMs = CONFIG.CYCLE_DAYS * 24 * 60 * 60 * 1000;
-    const cyclesSinceFirst = Math.floor(msSinceFirst / cycleMs);
+    console.log(`⏰ AIRAC ${cycle.id} scheduled run triggered (effective ${cycle.effectiveDate})`);
+    await runUpdateJob('scheduled', undefined, { mode: CONFIG.SCHEDULED_JOB_MODE, airacCycle: cycle.id });
+}
 
-    // Next run is one cycle after the last run
-    const nextRun = new Date(firstRun.getTime() + (cyclesSinceFirst + 1) * cycleMs);
-    return nextRun;
+/**
+ * Start a scheduled source check unless one is still running
+ */
+async function checkSourcesScheduled(): Promise<void> {
+    if (await UpdateJobModel.exists({ type: 'source_check', status: 'running' })) {
+        console.warn('⏰ Source check due but the previous one is still running - skipped');
+        return;
+    }
+
+    console.log('⏰ Scheduled source check triggered');
+    await runSourceCheckJob();
 }
 
 /**
  * Initialize and start the AIRAC-aligned scheduler
  */
 export function startScheduler(): void {
-    const nextRun = getNextAiracRun();
+    const next = getNextAiracRun();
 
     console.log(`\n📅 AIRAC SCHEDULER CONFIGURATION`);
     console.log(`${'─'.repeat(40)}`);
-    console.log(`   First run: ${CONFIG.FIRST_RUN}`);
-    console.log(`   Cycle: Every ${CONFIG.CYCLE_DAYS} days`);
-    console.log(`   Next scheduled run: ${nextRun.toISOString()}`);
+    console.log(`   Current cycle: ${getAiracCycle().id}`);
+    console.log(`   Lead: ${CONFIG.AIRAC_LEAD_DAYS} days before effective date, ${String(CONFIG.AIRAC_RUN_HOUR_UTC).padStart(2, '0')}:00 UTC`);
+    console.log(`   Next scheduled run: ${next.runAt} (AIRAC ${next.id}, effective ${next.effectiveDate})`);
     console.log(`   Batch size: ${CONFIG.BATCH_SIZE} countries`);
     console.log(`   LLM delay: ${CONFIG.DELAY_BETWEEN_LLM_CALLS_MS / 1000}s`);
     console.log(`   Batch delay: ${CONFIG.DELAY_BETWEEN_BATCHES_MS / 1000}s`);
+    console.log(`   Scheduled job mode: ${CONFIG.SCHEDULED_JOB_MODE}`);
     console.log(`   Skip if updated within: ${CONFIG.SKIP_IF_UPDATED_WITHIN_MS / (60 * 60 * 1000)}h`);
     console.log(`   Error threshold: ${CONFIG.ERROR_THRESHOLD} failures → retry`);
     console.log(`   Max retries: ${CONFIG.MAX_RETRIES}`);
     console.log(`   Retry delay: ${CONFIG.RETRY_DELAY_MS / (60 * 1000)}min`);
     console.log(`${'─'.repeat(40)}\n`);
 
-    // Run daily check at 2:00 AM to see if it's an AIRAC day
-    scheduledTask = cron.schedule('0 2 * * *', async () => {
-        const today = new Date();
-        const nextAirac = getNextAiracRun();
-
-        // Check if today is an AIRAC day (within 1 hour of scheduled time)
-        const timeDiff = Math.abs(today.getTime() - nextAirac.getTime());
-        if (timeDiff < 60 * 60 * 1000) {
-            console.log('⏰ AIRAC scheduled run triggered');
-            try {
-                await runUpdateJob('scheduled');
-            } catch (error) {
-                console.error('Scheduled job failed:', error);
-            }
+    // Check hourly (UTC) whether an AIRAC run is due - a run missed by a restart is caught up
+    scheduledTask = cron.schedule('0 * * * *', async () => {
+        try {
+            await checkAiracRun();
+        } catch (error) {
+            console.error('Scheduled job failed:', error);
         }
-    });
+    }, { timezone: 'Etc/UTC' });
 
     scheduledTask.start();
     console.log('✅ AIRAC Scheduler started');
@@ -122,11 +104,48 @@ export function stopScheduler(): void {
     }
 }
 
+/**
+ * Start the source check schedule (SOURCE_CHECK_CRON). Independent of the AIRAC scheduler,
+ * so change detection can run while scheduled regeneration stays off.
+ */
+export function startSourceChecks(): void {
+    if (CONFIG.SOURCE_CHECK_CRON === 'off') {
+        console.log('⏸️ Source checks disabled (SOURCE_CHECK_CRON=off)');
+        return;
+    }
+    if (!cron.validate(CONFIG.SOURCE_CHECK_CRON)) {
+        console.error(`❌ Invalid SOURCE_CHECK_CRON '${CONFIG.SOURCE_CHECK_CRON}' - source checks not scheduled`);
+        return;
+    }
+
+    sourceCheckTask = cron.schedule(CONFIG.SOURCE_CHECK_CRON, async () => {
+        try {
+            await checkSourcesScheduled();
+        } catch (error) {
+            console.error('Scheduled source check failed:', error);
+        }
+    }, { timezone: 'Etc/UTC' });
+
+    sourceCheckTask.start();
+    console.log(`✅ Source check schedule started (${CONFIG.SOURCE_CHECK_CRON} UTC)`);
+}
+
+/**
+ * Stop the source check schedule
+ */
+export function stopSourceChecks(): void {
+    if (sourceCheckTask) {
+        sourceCheckTask.stop();
+        sourceCheckTask = null;
+        console.log('⏹️ Source check schedule stopped');
+    }
+}
+
 /**
  * Log a country run result to MongoDB
  */
 async function logCountryRun(
-    jobId: any,
+    jobId: unknown,
     iso3: string,
     country: string,
     status: 'success' | 'failed' | 'skipped',
@@ -148,49 +167,35 @@ async function logCountryRun(
     } catch (err) {
         console.error(`   ⚠️ Failed to log run for ${iso3}:`, err);
     }
+
+    await emitJobEvent(jobId, `country_${status}`, { country, retryCount, error, duration }, iso3);
 }
 
 /**
- * Process a single country with LLM
+ * Process a single country with LLM (creates a draft awaiting review) - run by the job worker
  */
-async function processCountry(
+export async function processCountry(
     countryData: { iso3: string; country: string },
-    jobId: any,
-    retryCount: number = 1
+    jobId: unknown,
+    retryCount: number = 1,
+    generation?: { mode?: GenerationMode; force?: boolean }
 ): Promise<{ success: boolean; error?: string; duration: number }> {
     const startTime = Date.now();
 
     try {
         console.log(`   🔄 ${countryData.country} (${countryData.iso3})${retryCount > 1 ? ` [Retry ${retryCount}]` : ''}...`);
+        await emitJobEvent(jobId, 'country_start', { country: countryData.country, retryCount }, countryData.iso3);
 
-        // Generate summary using LLM
-        const result = await generateCountrySummary(countryData.country, countryData.iso3, []);
-
-        // Get existing country to preserve additional_notes
-        const existingCountry = await CountryModel.findOne({ iso3: countryData.iso3 });
-        const existingNotes = existingCountry?.summary?.additional_notes || [];
-
-        // Merge LLM summary with preserved additional_notes
-        const mergedSummary = {
-            ...result.output.summary,
-            additional_notes: existingNotes
-        };
-
-        // Save to MongoDB
-        await CountryModel.findOneAndUpdate(
-            { iso3: countryData.iso3 },
-            {
-                $set: {
-                    summary: mergedSummary,
-                    lastUpdated: new Date().toISOString(),
-                    version: (Number(existingCountry?.version) || 0) + 1
-                }
-            },
-            { upsert: true }
-        );
+        // Generate summary using LLM - stored as a draft for review, never published directly.
+        // Sectioned mode makes several calls; each after the first waits for the job's next slot.
+        await generateCountrySummary(countryData.country, countryData.iso3, [], {
+            jobId,
+            ...generation,
+            waitForLlmSlot: () => waitForLlmSlot(jobId)
+        });
 
         const duration = Date.now() - startTime;
-        console.log(`   ✅ ${countryData.country}: Saved! (${formatDuration(duration)})`);
+        console.log(`   ✅ ${countryData.country}: Draft created (${formatDuration(duration)})`);
 
         // Log success
         await logCountryRun(jobId, countryData.iso3, countryData.country, 'success', retryCount, undefined, duration);
@@ -209,21 +214,40 @@ async function processCountry(
 }
 
 /**
- * Run an update job for ALL countries or a SPECIFIC country
+ * Queue an update job for ALL countries or a SPECIFIC country. Countries are queued as
+ * JobTasks and processed by the job worker(s), so the returned job is still running.
  * @param type - 'scheduled' or 'manual'
  * @param triggeredBy - User ID who triggered the job
  * @param options - { specificCountry?: string } - ISO3 code of specific country to process
+ *                  { mode?: 'all' | 'changed' } - 'changed' refetches all sources and only
+ *                    regenerates countries with a source change not yet covered by a draft
+ *                    (ignored with specificCountry)
+ *                  { generationMode?: 'whole' | 'sectioned' } - force a mode for every country
+ *                  { force?: boolean } - bypass the LLM response cache
+ *                  { airacCycle?: string } - cycle the job belongs to (default: the cycle whose run covers now)
  */
 export async function runUpdateJob(
     type: 'scheduled' | 'manual',
     triggeredBy?: string,
-    options?: { specificCountry?: string }
+    options?: {
+        specificCountry?: string;
+        mode?: UpdateJobMode;
+        generationMode?: GenerationMode;
+        force?: boolean;
+        airacCycle?: string;
+    }
 ): Promise<UpdateJob> {
     const specificCountry = options?.specificCountry?.toUpperCase();
-    const isAllCountries = !specificCountry;
+    const mode: UpdateJobMode = specificCountry ? 'all' : options?.mode || 'all';
+    const generationMode = options?.generationMode;
+    const generation = { mode: generationMode, force: options?.force };
+
+    const scopeLabel = specificCountry
+        ? ` - ${specificCountry} only`
+        : mode === 'changed' ? ' - COUNTRIES WITH CHANGED SOURCES' : ' - ALL COUNTRIES';
 
     console.log(`\n${'='.repeat(60)}`);
-    console.log(`🚀 STARTING UPDATE JOB (${type}${specificCountry ? ` - ${specificCountry} only` : ' - ALL COUNTRIES'})`);
+    console.log(`🚀 STARTING UPDATE JOB (${type}${scopeLabel})`);
     console.log(`${'='.repeat(60)}\n`);
 
     // Create job record
@@ -232,38 +256,75 @@ export async function runUpdateJob(
         triggeredBy,
         startedAt: new Date().toISOString(),
         status: 'running',
+        mode,
+        airacCycle: options?.airacCycle || getAiracCycleForRun().id,
         sourcesChecked: 0,
         sourcesChanged: 0,
-        draftsCreated: 0
+        draftsCreated: 0,
+        generationMode,
+        heartbeatAt: new Date().toISOString()
     });
 
+    const stopHeartbeat = keepJobAlive(job._id);
+
+    // The job may be cancelled while sources are checked or countries looked up - re-read
+    // its status right before queueing so a cancelled job never gets tasks
+    const cancelledBeforeQueueing = async (): Promise<boolean> => {
+        if (await UpdateJobModel.exists({ _id: job._id, status: { $in: ['running', 'paused'] } })) return false;
+        console.log(`⏹️ Update job ${job._id} cancelled before countries were queued`);
+        return true;
+    };
+
     try {
         // Get countries to process
         let countriesToProcess: Array<{ iso3: string; country: string; lastUpdated?: string }>;
 
         if (specificCountry) {
-            // Single country mode - use old behavior (no batching/retry)
-            const country = await CountryModel.findOne({ iso3: specificCountry }).lean() as any;
+            // Single country mode - no skip checks, no retries
+            const country = await CountryModel.findOne({ iso3: specificCountry }).lean<Country>();
             if (!country) {
                 throw new Error(`Country not found: ${specificCountry}`);
             }
-            countriesToProcess = [{ iso3: country.iso3, country: country.country, lastUpdated: country.lastUpdated }];
-            console.log(`📍 Processing single country: ${country.country} (${specificCountry})`);
+            console.log(`📍 Queueing single country: ${country.country} (${specificCountry})`);
 
-            // Process single country directly
-            const result = await processCountry(countriesToProcess[0], job._id, 1);
-            if (result.success) {
-                job.draftsCreated = 1;
+            if (await cancelledBeforeQueueing()) {
+                return (await UpdateJobModel.findById(job._id).lean()) as UpdateJob;
             }
+            await enqueueCountries(job._id, [{ iso3: country.iso3, country: country.country }], {
+                maxAttempts: 1,
+                generation
+            });
+            await emitJobEvent(job._id, 'queued', { mode, queued: 1, skipped: 0, batchSize: 1 });
+            return job.toObject();
+        }
 
-            job.status = 'completed';
-            job.completedAt = new Date().toISOString();
+        // Change-driven mode - refetch every source first and keep only affected countries,
+        // plus those whose changes earlier runs picked up but no draft has covered yet
+        // (e.g. skipped while a draft was awaiting review)
+        let changedCountries: Set<string> | null = null;
+        if (mode === 'changed') {
+            console.log(`🔎 Checking sources for changes...`);
+            const fetched = await fetchAllSources({
+                forceRefetch: true,
+                onResult: outcome => logSourceRun(job._id, outcome)
+            });
+            const pending = await countriesWithSourceChanges();
+            changedCountries = new Set([...fetched.changedCountries, ...pending]);
+
+            job.sourcesChecked = fetched.checked;
+            job.sourcesChanged = fetched.changed;
+            job.sourceErrors = fetched.errors;
+            job.changedCountries = [...changedCountries].sort();
             await job.save();
-            return job;
+
+            console.log(`   Sources: ${fetched.checked} checked, ${fetched.changed} changed, ${fetched.notModified} not modified, ${fetched.errors} errors`);
+            console.log(`   Countries affected: ${changedCountries.size}${changedCountries.size > 0 ? ` (${job.changedCountries.join(', ')})` : ''}${changedCountries.size > fetched.changedCountries.length ? ` - ${changedCountries.size - fetched.changedCountries.length} from earlier runs` : ''}`);
         }
 
-        // All countries mode - full batch processing with retry
-        const allCountries = await CountryModel.find().select('iso3 country lastUpdated').lean() as any[];
+        // All countries mode - queued in batches with retry
+        const allCountries = await CountryModel.find(
+            changedCountries ? { iso3: { $in: [...changedCountries] } } : {}
+        ).select('iso3 country lastUpdated').lean<Pick<Country, 'iso3' | 'country' | 'lastUpdated'>[]>();
         countriesToProcess = allCountries.map(c => ({
             iso3: c.iso3,
             country: c.country,
@@ -276,14 +337,18 @@ export async function runUpdateJob(
         const toProcess: typeof countriesToProcess = [];
         const skipped: typeof countriesToProcess = [];
 
+        const skipReasons = new Map<string, string>();
+
         for (const c of countriesToProcess) {
-            if (c.lastUpdated) {
-                const lastUpdate = new Date(c.lastUpdated).getTime();
-                if (now - lastUpdate < CONFIG.SKIP_IF_UPDATED_WITHIN_MS) {
-                    skipped.push(c);
-                } else {
-                    toProcess.push(c);
-                }
+            // A source change is reason enough to regenerate, however recent the last update
+            if (mode === 'all' && c.lastUpdated && now - new Date(c.lastUpdated).getTime() < CONFIG.SKIP_IF_UPDATED_WITHIN_MS) {
+                skipped.push(c);
+                skipReasons.set(c.iso3, 'Recently updated');
+            } else if (await hasPendingDraft(c.iso3)) {
+                // Don't stack a second draft on one that hasn't been reviewed yet - a source
+                // change stays flagged, so a 'changed' job regenerates it after the review
+                skipped.push(c);
+                skipReasons.set(c.iso3, 'Draft awaiting review');
             } else {
                 toProcess.push(c);
             }
@@ -291,137 +356,64 @@ export async function runUpdateJob(
 
         // Log skipped countries
         for (const s of skipped) {
-            await logCountryRun(job._id, s.iso3, s.country, 'skipped', 0, 'Recently updated');
+            await logCountryRun(job._id, s.iso3, s.country, 'skipped', 0, skipReasons.get(s.iso3));
         }
 
         if (skipped.length > 0) {
-            console.log(`⏭️ Skipping ${skipped.length} countries (updated within 24 hours)`);
+            console.log(`⏭️ Skipping ${skipped.length} countries (updated within 24 hours or draft awaiting review)`);
         }
 
         if (toProcess.length === 0) {
-            console.log('\n✅ No countries need processing - all recently updated!');
-            job.status = 'completed';
-            job.completedAt = new Date().toISOString();
-            await job.save();
-            return job;
+            console.log(mode === 'changed' && countriesToProcess.length === 0
+                ? '\n✅ No countries need processing - no source changes!'
+                : '\n✅ No countries need processing - all recently updated or awaiting review!');
+            await UpdateJobModel.updateOne(
+                { _id: job._id, status: { $in: ['running', 'paused'] } },
+                { $set: { status: 'completed', completedAt: new Date().toISOString() } }
+            );
+            await emitJobSummary(job._id);
+            return (await UpdateJobModel.findById(job._id).lean()) as UpdateJob;
         }
 
+        if (await cancelledBeforeQueueing()) {
+            return (await UpdateJobModel.findById(job._id).lean()) as UpdateJob;
+        }
+        await enqueueCountries(job._id, toProcess, { maxAttempts: CONFIG.MAX_RETRIES, generation });
+        await emitJobEvent(job._id, 'queued', {
+            mode,
+            queued: toProcess.length,
+            skipped: skipped.length,
+            batchSize: CONFIG.BATCH_SIZE,
+            sourcesChecked: job.sourcesChecked,
+            sourcesChanged: job.sourcesChanged
+        });
+
         console.log(`\n${'─'.repeat(40)}`);
-        console.log(`🤖 GENERATING LLM SUMMARIES`);
-        console.log(`   Countries to process: ${toProcess.length}`);
+        console.log(`🤖 QUEUED LLM DRAFTS`);
+        console.log(`   Job ID: ${job._id}`);
+        console.log(`   Countries queued: ${toProcess.length}`);
         console.log(`   Batch size: ${CONFIG.BATCH_SIZE}`);
         console.log(`   LLM delay: ${CONFIG.DELAY_BETWEEN_LLM_CALLS_MS / 1000}s`);
         console.log(`${'─'.repeat(40)}\n`);
 
-        // Track results
-        let processed = 0;
-        let errors = 0;
-        const failedCountries: Array<{ iso3: string; country: string; retryCount: number }> = [];
-
-        // Process in batches
-        for (let batchStart = 0; batchStart < toProcess.length; batchStart += CONFIG.BATCH_SIZE) {
-            const batch = toProcess.slice(batchStart, batchStart + CONFIG.BATCH_SIZE);
-            const batchNum = Math.floor(batchStart / CONFIG.BATCH_SIZE) + 1;
-            const totalBatches = Math.ceil(toProcess.length / CONFIG.BATCH_SIZE);
-
-            console.log(`\n📦 Batch ${batchNum}/${totalBatches} (${batch.length} countries)`);
-
-            for (let i = 0; i < batch.length; i++) {
-                const countryData = batch[i];
-                const result = await processCountry(countryData, job._id, 1);
-
-                if (result.success) {
-                    job.draftsCreated++;
-                    processed++;
-                } else {
-                    errors++;
-                    failedCountries.push({ ...countryData, retryCount: 1 });
-                }
-
-                // Save job progress periodically
-                if ((processed + errors) % CONFIG.SAVE_EVERY === 0) {
-                    await job.save();
-                    console.log(`   💾 Progress saved (${processed + errors}/${toProcess.length})`);
-                }
-
-                // Rate limit between LLM calls
-                if (i < batch.length - 1) {
-                    await sleep(CONFIG.DELAY_BETWEEN_LLM_CALLS_MS);
-                }
-            }
-
-            // Delay between batches
-            if (batchStart + CONFIG.BATCH_SIZE < toProcess.length) {
-                console.log(`   ⏳ Waiting ${CONFIG.DELAY_BETWEEN_BATCHES_MS / 1000}s before next batch...`);
-                await sleep(CONFIG.DELAY_BETWEEN_BATCHES_MS);
-            }
-        }
-
-        // ============================================================
-        // RETRY LOGIC
-        // ============================================================
-        if (failedCountries.length >= CONFIG.ERROR_THRESHOLD && failedCountries.length > 0) {
-            console.log(`\n${'─'.repeat(40)}`);
-            console.log(`🔄 RETRY MECHANISM TRIGGERED`);
-            console.log(`   Failed: ${failedCountries.length} countries`);
-            console.log(`   Waiting ${CONFIG.RETRY_DELAY_MS / (60 * 1000)} minutes before retry...`);
-            console.log(`${'─'.repeat(40)}\n`);
-
-            let retryQueue = [...failedCountries];
-
-            for (let retryRound = 2; retryRound <= CONFIG.MAX_RETRIES && retryQueue.length > 0; retryRound++) {
-                await sleep(CONFIG.RETRY_DELAY_MS);
-
-                console.log(`\n🔁 Retry Round ${retryRound}/${CONFIG.MAX_RETRIES} (${retryQueue.length} countries)`);
-
-                const stillFailing: typeof retryQueue = [];
+        // Covers a job whose tasks were all finished before we got here
+        await finalizeJobIfDone(job._id);
 
-                for (const countryData of retryQueue) {
-                    const result = await processCountry(countryData, job._id, retryRound);
-
-                    if (result.success) {
-                        job.draftsCreated++;
-                        processed++;
-                        errors--;
-                    } else {
-                        stillFailing.push({ ...countryData, retryCount: retryRound });
-                    }
-
-                    // Rate limit
-                    await sleep(CONFIG.DELAY_BETWEEN_LLM_CALLS_MS);
-                }
-
-                retryQueue = stillFailing;
-                console.log(`   Retry round ${retryRound} complete: ${retryQueue.length} still failing`);
-            }
-        }
-
-        // ============================================================
-        // COMPLETION
-        // ============================================================
-        console.log(`\n📈 Processing complete: ${processed} succeeded, ${errors} failed, ${skipped.length} skipped`);
-
-        job.status = 'completed';
-        job.completedAt = new Date().toISOString();
-        await job.save();
-
-        console.log(`\n${'='.repeat(60)}`);
-        console.log(`✅ UPDATE JOB COMPLETED`);
-        console.log(`   Job ID: ${job._id}`);
-        console.log(`   Countries processed: ${processed}`);
-        console.log(`   Errors: ${errors}`);
-        console.log(`   Skipped (recently updated): ${skipped.length}`);
-        console.log(`${'='.repeat(60)}\n`);
-
-        return job;
+        return job.toObject();
     } catch (error) {
-        job.status = 'failed';
-        job.error = error instanceof Error ? error.message : 'Unknown error';
-        job.completedAt = new Date().toISOString();
-        await job.save();
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        // A job cancelled meanwhile stays cancelled (the cancel already sent the summary)
+        const failed = await UpdateJobModel.updateOne(
+            { _id: job._id, status: { $in: ['running', 'paused'] } },
+            { $set: { status: 'failed', error: message, completedAt: new Date().toISOString() } }
+        );
 
-        console.error(`\n❌ UPDATE JOB FAILED: ${job.error}\n`);
+        console.error(`\n❌ UPDATE JOB FAILED: ${message}\n`);
+        if (failed.modifiedCount > 0) await emitJobSummary(job._id);
         throw error;
+    } finally {
+        stopHeartbeat();
     }
 }
 
@@ -431,11 +423,18 @@ export async function runUpdateJob(
 export function getSchedulerStatus(): {
     isRunning: boolean;
     nextRun: string;
+    nextCycle: AiracCycle;
+    currentCycle: AiracCycle;
+    sourceCheck: { isRunning: boolean; schedule: string };
     config: typeof CONFIG;
 } {
+    const next = getNextAiracRun();
     return {
         isRunning: scheduledTask !== null,
-        nextRun: getNextAiracRun().toISOString(),
+        nextRun: next.runAt,
+        nextCycle: next,
+        currentCycle: getAiracCycle(),
+        sourceCheck: { isRunning: sourceCheckTask !== null, schedule: CONFIG.SOURCE_CHECK_CRON },
         config: CONFIG
     };
 }
@@ -0,0 +1,130 @@
+/**
+ * Source Check Jobs - Refetch every source on its own schedule, without calling the LLM
+ *
+ * Change detection runs far more often than the 28-day AIRAC regeneration. Each run is an
+ * UpdateJob of type 'source_check' with one SourceRunLog per source. Countries it finds
+ * changed are flagged as the change is stored and regenerated by the next 'changed' mode job
+ * (see services/source_changes.ts), even if that job overlaps this check.
+ */
+
+import { UpdateJobModel } from '../models/UpdateJob.js';
+import { SourceRunLogModel } from '../models/SourceRunLog.js';
+import { fetchAllSources } from '../services/fetcher.js';
+import type { SourceFetchOutcome } from '../services/fetcher.js';
+import { getAiracCycleForRun } from '../services/airac.js';
+import { keepJobAlive } from './queue.js';
+import { emitJobEvent, emitJobSummary } from './events.js';
+import type { UpdateJob } from '../types/index.js';
+
+/**
+ * Log a source's outcome to MongoDB and the job's event stream
+ */
+export async function logSourceRun(jobId: unknown, outcome: SourceFetchOutcome): Promise<void> {
+    const { source, status, error, duration } = outcome;
+
+    try {
+        await SourceRunLogModel.create({
+            jobId,
+            sourceId: source._id,
+            title: source.title,
+            url: source.url,
+            countries: source.countries,
+            status,
+            error,
+            duration,
+            timestamp: new Date().toISOString()
+        });
+    } catch (err) {
+        console.error(`   ⚠️ Failed to log run for source ${source.title}:`, err);
+    }
+
+    await emitJobEvent(jobId, 'source_checked', {
+        sourceId: String(source._id),
+        title: source.title,
+        status,
+        error,
+        duration,
+        countries: source.countries
+    });
+}
+
+/**
+ * Refetch every source that is due, recording each outcome. Runs to completion (no queue);
+ * a cancel stops it after the sources already being fetched.
+ * @param triggeredBy - User ID who triggered the job (none for scheduled checks)
+ */
+export async function runSourceCheckJob(triggeredBy?: string): Promise<UpdateJob> {
+    console.log(`\n${'='.repeat(60)}`);
+    console.log(`🔎 STARTING SOURCE CHECK (${triggeredBy ? 'manual' : 'scheduled'})`);
+    console.log(`${'='.repeat(60)}\n`);
+
+    const job = await UpdateJobModel.create({
+        type: 'source_check',
+        triggeredBy,
+        startedAt: new Date().toISOString(),
+        status: 'running',
+        airacCycle: getAiracCycleForRun().id,
+        sourcesChecked: 0,
+        sourcesChanged: 0,
+        draftsCreated: 0,
+        heartbeatAt: new Date().toISOString()
+    });
+
+    const stopHeartbeat = keepJobAlive(job._id);
+    let cancelled = false;
+
+    try {
+        const fetched = await fetchAllSources({
+            forceRefetch: true,
+            onResult: async outcome => {
+                await logSourceRun(job._id, outcome);
+                cancelled = !await UpdateJobModel.exists({ _id: job._id, status: 'running' });
+            },
+            shouldStop: () => cancelled
+        });
+
+        const results = {
+            sourcesChecked: fetched.checked,
+            sourcesChanged: fetched.changed,
+            sourceErrors: fetched.errors,
+            changedCountries: fetched.changedCountries
+        };
+
+        const completed = await UpdateJobModel.findOneAndUpdate(
+            { _id: job._id, status: 'running' },
+            { $set: { ...results, status: 'completed', completedAt: new Date().toISOString() } },
+            { new: true }
+        ).lean();
+
+        if (!completed) {
+            // Cancelled - keep what was found before it stopped (the cancel already sent the summary)
+            await UpdateJobModel.updateOne({ _id: job._id }, { $set: results });
+            console.log(`⏹️ Source check ${job._id} cancelled after ${fetched.checked + fetched.errors} sources`);
+            return (await UpdateJobModel.findById(job._id).lean()) as UpdateJob;
+        }
+
+        console.log(`\n${'='.repeat(60)}`);
+        console.log(`✅ SOURCE CHECK COMPLETED`);
+        console.log(`   Job ID: ${job._id}`);
+        console.log(`   Sources: ${fetched.checked} checked, ${fetched.changed} changed, ${fetched.notModified} not modified, ${fetched.errors} errors, ${fetched.deferred} deferred`);
+        console.log(`   Countries affected: ${fetched.changedCountries.length}${fetched.changedCountries.length > 0 ? ` (${fetched.changedCountries.join(', ')})` : ''}`);
+        console.log(`${'='.repeat(60)}\n`);
+
+        await emitJobSummary(job._id);
+        return completed as UpdateJob;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        // A job cancelled while it ran stays cancelled (the cancel already sent the summary)
+        const failed = await UpdateJobModel.updateOne(
+            { _id: job._id, status: 'running' },
+            { $set: { status: 'failed', error: message, completedAt: new Date().toISOString() } }
+        );
+
+        console.error(`\n❌ SOURCE CHECK FAILED: ${message}\n`);
+        if (failed.modifiedCount > 0) await emitJobSummary(job._id);
+        throw error;
+    } finally {
+        stopHeartbeat();
+    }
+}
@@ -0,0 +1,99 @@
+import os from 'os';
+import crypto from 'crypto';
+import { CONFIG } from './config.js';
+import { processCountry } from './scheduler.js';
+import { leaseNextTask, heartbeatTask, completeTask, reclaimExpiredLeases } from './queue.js';
+import type { IJobTask } from '../models/JobTask.js';
+
+// Sleep helper
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Worker state - one worker loop per process
+const workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+let running = false;
+let loop: Promise<void> | null = null;
+let currentTask: IJobTask | null = null;
+
+/**
+ * Run one leased task, heartbeating until the LLM call finishes
+ */
+async function runTask(task: IJobTask): Promise<void> {
+    currentTask = task;
+
+    const heartbeat = setInterval(() => {
+        heartbeatTask(task, workerId)
+            .then(held => {
+                if (!held) console.warn(`   ⚠️ ${task.iso3}: Lease lost (expired and reclaimed)`);
+            })
+            .catch(err => console.error(`   ⚠️ ${task.iso3}: Heartbeat failed:`, err));
+    }, CONFIG.HEARTBEAT_MS);
+
+    try {
+        const result = await processCountry(
+            { iso3: task.iso3, country: task.country },
+            task.jobId,
+            task.attempts,
+            task.generation
+        );
+        await completeTask(task, workerId, result);
+    } finally {
+        clearInterval(heartbeat);
+        currentTask = null;
+    }
+}
+
+async function workLoop(): Promise<void> {
+    while (running) {
+        try {
+            await reclaimExpiredLeases();
+
+            const task = await leaseNextTask(workerId);
+            if (!task) {
+                await sleep(CONFIG.WORKER_POLL_MS);
+                continue;
+            }
+
+            await runTask(task);
+        } catch (error) {
+            console.error('❌ Worker error:', error);
+            await sleep(CONFIG.WORKER_POLL_MS);
+        }
+    }
+}
+
+/**
+ * Start polling the job queue. Any number of processes can run a worker;
+ * leases keep them from processing the same country twice.
+ */
+export function startWorker(): void {
+    if (running) return;
+
+    running = true;
+    loop = workLoop();
+    console.log(`✅ Job worker started (${workerId})`);
+}
+
+/**
+ * Stop after the current task (if any) finishes
+ */
+export async function stopWorker(): Promise<void> {
+    if (!running) return;
+
+    running = false;
+    if (currentTask) {
+        console.log(`⏹️ Job worker stopping after ${currentTask.iso3}...`);
+    }
+    await loop;
+    loop = null;
+    console.log('⏹️ Job worker stopped');
+}
+
+export function getWorkerStatus(): { workerId: string; isRunning: boolean; currentTask: string | null } {
+    return {
+        workerId,
+        isRunning: running,
+        currentTask: currentTask ? `${currentTask.iso3} (job ${currentTask.jobId})` : null
+    };
+}
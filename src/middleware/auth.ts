@@ -11,9 +11,28 @@ declare global {
     }
 }
 
+// Short-lived token that only opens the event stream of one update job
+interface StreamTokenPayload extends JwtPayload {
+    scope: 'job_events';
+    jobId: string;
+}
+
+// EventSource cannot set headers - this is the only route that takes a token in the query string
+const JOB_EVENTS_PATH = /^\/api\/update_jobs\/([0-9a-f]{24})\/events$/i;
+
 export function authenticateToken(req: Request, res: Response, next: NextFunction): void {
     const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    let token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+    // Stream tokens (see generateStreamToken) come as ?stream_token= on GET /api/update_jobs/:id/events
+    let streamJobId: string | undefined;
+    if (!token && req.method === 'GET' && typeof req.query.stream_token === 'string') {
+        const match = JOB_EVENTS_PATH.exec(`${req.baseUrl}${req.path}`);
+        if (match) {
+            token = req.query.stream_token;
+            streamJobId = match[1].toLowerCase();
+        }
+    }
 
     if (!token) {
         res.status(401).json({ error: 'Access token required' });
@@ -26,13 +45,23 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
         return;
     }
 
+    let decoded: JwtPayload & Partial<StreamTokenPayload>;
     try {
-        const decoded = jwt.verify(token, secret) as JwtPayload;
-        req.user = decoded;
-        next();
+        decoded = jwt.verify(token, secret) as JwtPayload & Partial<StreamTokenPayload>;
     } catch {
         res.status(403).json({ error: 'Invalid or expired token' });
+        return;
+    }
+
+    // A stream token opens its own job's stream and nothing else; a session token never comes in a URL
+    const isStreamToken = decoded.scope !== undefined;
+    if (isStreamToken !== (streamJobId !== undefined) || (isStreamToken && (decoded.scope !== 'job_events' || decoded.jobId !== streamJobId))) {
+        res.status(403).json({ error: 'Token not valid for this request' });
+        return;
     }
+
+    req.user = { userId: decoded.userId, email: decoded.email, role: decoded.role };
+    next();
 }
 
 export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
@@ -56,3 +85,24 @@ export function generateToken(payload: JwtPayload): string {
     }
     return jwt.sign(payload, secret, { expiresIn: '24h' });
 }
+
+/**
+ * Token for one update job's event stream (GET /api/update_jobs/:id/events?stream_token=),
+ * valid for a few minutes - long enough to open the EventSource, which is authenticated once
+ */
+export function generateStreamToken(user: JwtPayload, jobId: string): { token: string; expiresIn: number } {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET not configured');
+    }
+
+    const expiresIn = 5 * 60;
+    const payload: StreamTokenPayload = {
+        userId: user.userId,
+        email: user.email,
+        role: user.role,
+        scope: 'job_events',
+        jobId: jobId.toLowerCase()
+    };
+    return { token: jwt.sign(payload, secret, { expiresIn }), expiresIn };
+}
@@ -1,15 +1,102 @@
 import mongoose, { Schema, HydratedDocument } from 'mongoose';
+import { CountrySummarySchema, CitationSchema, BulletMetaSchema } from './Country.js';
+import type {
+    AiRequest, AiRequestStatus, CountrySummary, LockConflict, GroundingMetadata, Citation, BulletMeta, PromptTemplateRef, GenerationMode, SectionAttempt,
+    LlmUsage, LlmCallRecord
+} from '../types/index.js';
 
 // Schema definition without type parameter to avoid conflicts
 const AiRequestSchema = new Schema({
     countryIso3: { type: String, required: true, uppercase: true },
-    prompt: { type: String, required: true },
+    prompt: { type: String, required: true }, // Full rendered prompt
+    promptTemplate: {
+        name: { type: String },
+        version: { type: Number },
+        region: { type: String }
+    },
     model: { type: String, default: 'gemini-2.0-flash' }, // Not required - set default
     response: { type: String, default: '' }, // Not required - filled after LLM call
     sourceIds: [{ type: Schema.Types.ObjectId, ref: 'Source' }],
-    status: { type: String, enum: ['draft', 'verified', 'rejected', 'pending'], default: 'pending' },
+    retrievedPassages: [{
+        _id: false,
+        label: { type: String, required: true },
+        sourceId: { type: Schema.Types.ObjectId, ref: 'Source', required: true },
+        title: { type: String },
+        offset: { type: Number, required: true },
+        length: { type: Number, required: true },
+        sections: [{ type: String }],
+        score: { type: Number }
+    }],
+    status: { type: String, enum: ['draft', 'verified', 'rejected', 'pending', 'failed', 'evaluation'], default: 'pending' },
+    draft: { type: CountrySummarySchema }, // Filled when generation succeeds, promoted on approval
+    grounding: {
+        webSearchQueries: [{ type: String }],
+        chunks: [{ _id: false, uri: String, title: String }],
+        supports: [{
+            _id: false,
+            text: String,
+            startIndex: Number,
+            endIndex: Number,
+            chunkIndices: [Number],
+            confidenceScores: [Number]
+        }]
+    },
+    citations: { type: [CitationSchema], default: undefined },
+    bulletMeta: { type: [BulletMetaSchema], default: undefined },
+    lockConflicts: [{
+        _id: false,
+        field: { type: String, required: true },
+        key: { type: String },
+        lockedValue: { type: Schema.Types.Mixed },
+        proposedValue: { type: Schema.Types.Mixed }
+    }],
+    validationErrors: [{ _id: false, path: String, message: String }],
+    repairAttempts: [{
+        _id: false,
+        schemaErrors: [{ _id: false, path: String, message: String }],
+        response: { type: String }
+    }],
+    cache: {
+        key: { type: String },
+        hit: { type: Boolean },
+        cachedAt: { type: String },
+        sourceAiRequestId: { type: Schema.Types.ObjectId, ref: 'AiRequest' }
+    },
+    usage: {
+        promptTokens: { type: Number },
+        candidatesTokens: { type: Number },
+        totalTokens: { type: Number }
+    },
+    llmCalls: [{
+        _id: false,
+        purpose: { type: String, required: true },
+        provider: { type: String },
+        model: { type: String },
+        usage: {
+            promptTokens: Number,
+            candidatesTokens: Number,
+            totalTokens: Number
+        },
+        durationMs: { type: Number },
+        attempts: [{ _id: false, model: String, durationMs: Number, error: String }],
+        error: { type: String },
+        startedAt: { type: String }
+    }],
+    durationMs: { type: Number },
+    generationMode: { type: String, enum: ['whole', 'sectioned'] },
+    sectionAttempts: [{
+        _id: false,
+        group: { type: String, required: true },
+        attempts: { type: Number, required: true },
+        schemaErrors: [{ _id: false, path: String, message: String }],
+        error: { type: String }
+    }],
+    evaluationId: { type: Schema.Types.ObjectId, ref: 'PromptEvaluation' },
+    jobId: { type: Schema.Types.ObjectId, ref: 'UpdateJob' },
     reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
     reviewedAt: { type: String },
+    reviewNote: { type: String },
+    appliedVersion: { type: Number },
     createdAt: { type: String, default: () => new Date().toISOString() }
 }, {
     timestamps: true,
@@ -19,18 +106,40 @@ const AiRequestSchema = new Schema({
 // Indexes
 AiRequestSchema.index({ countryIso3: 1 });
 AiRequestSchema.index({ status: 1 });
+AiRequestSchema.index({ countryIso3: 1, status: 1 });
+AiRequestSchema.index({ evaluationId: 1 });
+AiRequestSchema.index({ jobId: 1 });
 AiRequestSchema.index({ createdAt: -1 });
 
 // Infer the document type from the schema
 type AiRequestDoc = {
     countryIso3: string;
     prompt: string;
+    promptTemplate?: PromptTemplateRef;
     model: string;
     response: string;
     sourceIds: mongoose.Types.ObjectId[];
-    status: 'draft' | 'verified' | 'rejected';
+    retrievedPassages?: AiRequest['retrievedPassages'];
+    status: AiRequestStatus;
+    draft?: CountrySummary;
+    grounding?: GroundingMetadata;
+    citations?: Citation[];
+    bulletMeta?: BulletMeta[];
+    lockConflicts?: LockConflict[];
+    validationErrors?: AiRequest['validationErrors'];
+    repairAttempts?: AiRequest['repairAttempts'];
+    cache?: AiRequest['cache'];
+    usage?: LlmUsage;
+    llmCalls?: LlmCallRecord[];
+    durationMs?: number;
+    generationMode?: GenerationMode;
+    sectionAttempts?: SectionAttempt[];
+    evaluationId?: mongoose.Types.ObjectId;
+    jobId?: mongoose.Types.ObjectId;
     reviewedBy?: mongoose.Types.ObjectId;
     reviewedAt?: string;
+    reviewNote?: string;
+    appliedVersion?: number;
     createdAt: string;
 };
 
@@ -1,5 +1,5 @@
 import mongoose, { Schema, HydratedDocument } from 'mongoose';
-import type { Country, CountrySummary, AuthorityContact, Reference } from '../types/index.js';
+import type { Country, CountrySummary, AuthorityContact, Reference, FieldLock, Citation, BulletMeta } from '../types/index.js';
 
 const AuthorityContactSchema = new Schema<AuthorityContact>({
     name: { type: String, required: true },
@@ -22,7 +22,7 @@ const PrimaryContactSchema = new Schema({
     website: { type: String, default: '' }
 }, { _id: false });
 
-const CountrySummarySchema = new Schema<CountrySummary>({
+export const CountrySummarySchema = new Schema<CountrySummary>({
     minimum_lead_time: { type: String, default: '' },
     icao_doc_url: { type: String, default: '' },
     state_rules_url: { type: String, default: '' },
@@ -40,6 +40,33 @@ const CountrySummarySchema = new Schema<CountrySummary>({
     references: [ReferenceSchema]
 }, { _id: false });
 
+export const CitationSchema = new Schema<Citation>({
+    section: { type: String, required: true },
+    text: { type: String, required: true },
+    sources: [{
+        _id: false,
+        uri: { type: String, required: true },
+        title: { type: String, default: '' }
+    }],
+    confidence: { type: Number }
+}, { _id: false });
+
+export const BulletMetaSchema = new Schema<BulletMeta>({
+    section: { type: String, required: true },
+    text: { type: String, required: true },
+    confidence: { type: String, enum: ['high', 'medium', 'low'], required: true },
+    verify: { type: Boolean, default: false },
+    sourceIds: [{ type: String }]
+}, { _id: false });
+
+const FieldLockSchema = new Schema<FieldLock>({
+    field: { type: String, required: true },
+    key: { type: String },
+    verifiedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    verifiedAt: { type: String, required: true },
+    note: { type: String }
+});
+
 const CountrySchema = new Schema({
     country: { type: String, required: true },
     iso3: { type: String, required: true, unique: true, uppercase: true },
@@ -49,7 +76,12 @@ const CountrySchema = new Schema({
     embargo: { type: Boolean, default: false },
     lastUpdated: { type: String, required: true },
     version: { type: Number, default: 1 },
-    summary: { type: CountrySummarySchema, required: true }
+    summary: { type: CountrySummarySchema, required: true },
+    citations: { type: [CitationSchema], default: [] },
+    bulletMeta: { type: [BulletMetaSchema], default: [] },
+    locks: { type: [FieldLockSchema], default: [] },
+    generationMode: { type: String, enum: ['whole', 'sectioned'] },
+    sourcesChangedAt: { type: String }
 }, {
     timestamps: true,
     collection: 'countries'
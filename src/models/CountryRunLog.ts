@@ -4,7 +4,7 @@ export interface ICountryRunLog {
     jobId: mongoose.Types.ObjectId;
     iso3: string;
     country: string;
-    status: 'success' | 'failed' | 'skipped';
+    status: 'success' | 'failed' | 'skipped' | 'cancelled';
     error?: string;
     duration?: number; // in milliseconds
     retryCount: number;
@@ -15,7 +15,7 @@ const CountryRunLogSchema = new Schema<ICountryRunLog & Document>({
     jobId: { type: Schema.Types.ObjectId, ref: 'UpdateJob', required: true },
     iso3: { type: String, required: true },
     country: { type: String, required: true },
-    status: { type: String, enum: ['success', 'failed', 'skipped'], required: true },
+    status: { type: String, enum: ['success', 'failed', 'skipped', 'cancelled'], required: true },
     error: { type: String },
     duration: { type: Number },
     retryCount: { type: Number, default: 1 },
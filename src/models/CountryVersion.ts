@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CountrySummarySchema, CitationSchema, BulletMetaSchema } from './Country.js';
+import type { CountryVersion } from '../types/index.js';
+
+const CountryVersionSchema = new Schema<CountryVersion & Document>({
+    iso3: { type: String, required: true, uppercase: true },
+    version: { type: Number, required: true },
+    summary: { type: CountrySummarySchema, required: true },
+    citations: { type: [CitationSchema], default: [] },
+    bulletMeta: { type: [BulletMetaSchema], default: [] },
+    changeType: { type: String, enum: ['baseline', 'manual', 'llm', 'restore'], required: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    aiRequestId: { type: Schema.Types.ObjectId, ref: 'AiRequest' },
+    jobId: { type: Schema.Types.ObjectId, ref: 'UpdateJob' },
+    restoredFrom: { type: Number },
+    createdAt: { type: String, default: () => new Date().toISOString() }
+}, {
+    timestamps: true,
+    collection: 'country_versions'
+});
+
+// Indexes
+CountryVersionSchema.index({ iso3: 1, version: -1 }, { unique: true });
+CountryVersionSchema.index({ aiRequestId: 1 });
+
+export const CountryVersionModel = mongoose.model<CountryVersion & Document>('CountryVersion', CountryVersionSchema);
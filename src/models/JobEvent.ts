@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type JobEventType =
+    | 'queued'              // Countries queued (and skipped) for the job
+    | 'country_start'
+    | 'country_success'
+    | 'country_failed'
+    | 'country_skipped'
+    | 'source_checked'      // Source check jobs: one source fetched (or deferred)
+    | 'batch'               // A batch of BATCH_SIZE leases is done - next lease after the batch delay
+    | 'retry_wait'          // Failed countries requeued - next attempt after the retry delay
+    | 'paused'
+    | 'resumed'
+    | 'summary';            // Final event: the job completed, failed or was cancelled
+
+// Progress event of an UpdateJob, streamed to the admin UI over SSE
+export interface IJobEvent {
+    jobId: mongoose.Types.ObjectId;
+    seq: number;            // Per-job sequence - SSE event id, used to resume with Last-Event-ID
+    type: JobEventType;
+    iso3?: string;
+    data: Record<string, unknown>;
+    createdAt: Date;
+}
+
+const JobEventSchema = new Schema<IJobEvent & Document>({
+    jobId: { type: Schema.Types.ObjectId, ref: 'UpdateJob', required: true },
+    seq: { type: Number, required: true },
+    type: { type: String, required: true },
+    iso3: { type: String },
+    data: { type: Schema.Types.Mixed, default: {} },
+    createdAt: { type: Date, default: () => new Date() }
+}, {
+    collection: 'job_events',
+    minimize: false
+});
+
+// Indexes
+JobEventSchema.index({ jobId: 1, seq: 1 }, { unique: true });
+JobEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }); // TTL - 30 days
+
+export const JobEventModel = mongoose.model<IJobEvent & Document>('JobEvent', JobEventSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { GenerationMode } from '../types/index.js';
+
+export type JobTaskStatus = 'pending' | 'leased' | 'succeeded' | 'failed' | 'cancelled';
+
+export const JOB_TASK_STATUSES: JobTaskStatus[] = ['pending', 'leased', 'succeeded', 'failed', 'cancelled'];
+
+// One country of an UpdateJob, leased by one worker at a time
+export interface IJobTask {
+    _id?: mongoose.Types.ObjectId;
+    jobId: mongoose.Types.ObjectId;
+    iso3: string;
+    country: string;
+    position: number;           // Processing order within the job
+    status: JobTaskStatus;
+    attempts: number;
+    maxAttempts: number;
+    availableAt: string;        // Not leased before this time (retry delay)
+    generation?: { mode?: GenerationMode; force?: boolean };
+    leaseOwner?: string;        // Worker ID holding the lease
+    leaseExpiresAt?: string;    // Lease is reclaimed if no heartbeat extends it by then
+    heartbeatAt?: string;
+    lastError?: string;
+    startedAt?: string;
+    completedAt?: string;
+}
+
+const JobTaskSchema = new Schema<IJobTask & Document>({
+    jobId: { type: Schema.Types.ObjectId, ref: 'UpdateJob', required: true },
+    iso3: { type: String, required: true, uppercase: true },
+    country: { type: String, required: true },
+    position: { type: Number, required: true },
+    status: { type: String, enum: JOB_TASK_STATUSES, default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 1 },
+    availableAt: { type: String, required: true },
+    generation: {
+        mode: { type: String, enum: ['whole', 'sectioned'] },
+        force: { type: Boolean }
+    },
+    leaseOwner: { type: String },
+    leaseExpiresAt: { type: String },
+    heartbeatAt: { type: String },
+    lastError: { type: String },
+    startedAt: { type: String },
+    completedAt: { type: String }
+}, {
+    timestamps: true,
+    collection: 'job_tasks'
+});
+
+// Indexes
+JobTaskSchema.index({ jobId: 1, iso3: 1 }, { unique: true });
+JobTaskSchema.index({ jobId: 1, status: 1, availableAt: 1, position: 1 }); // Leasing the next task
+JobTaskSchema.index({ status: 1, leaseExpiresAt: 1 }); // Reclaiming expired leases
+
+export const JobTaskModel = mongoose.model<IJobTask & Document>('JobTask', JobTaskSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Schema definition without type parameter - `model` would clash with Document#model
+const LlmCacheSchema = new Schema({
+    key: { type: String, required: true, unique: true },
+    iso3: { type: String, required: true, uppercase: true },
+    template: {
+        name: { type: String },
+        version: { type: Number },
+        region: { type: String }
+    },
+    model: { type: String, required: true },
+    generationMode: { type: String, enum: ['whole', 'sectioned'] },
+    sourceHashes: [{ type: String }],
+    response: { type: String, required: true },
+    grounding: { type: Schema.Types.Mixed },
+    aiRequestId: { type: Schema.Types.ObjectId, ref: 'AiRequest' },
+    hits: { type: Number, default: 0 },
+    createdAt: { type: String, default: () => new Date().toISOString() },
+    expiresAt: { type: Date, required: true }
+}, {
+    collection: 'llm_cache'
+});
+
+// Indexes
+LlmCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL - MongoDB removes expired entries
+LlmCacheSchema.index({ iso3: 1 });
+
+export const LlmCacheModel = mongoose.model('LlmCache', LlmCacheSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { PromptEvaluation } from '../types/index.js';
+
+const DraftMetricsSchema = new Schema({
+    completeness: { type: Number, required: true },
+    bullets: { type: Number, default: 0 },
+    contacts: { type: Number, default: 0 },
+    references: { type: Number, default: 0 },
+    citations: { type: Number, default: 0 },
+    verifyCount: { type: Number, default: 0 },
+    verificationScore: { type: Number, default: 0 },
+    leadTimeHasNumber: { type: Boolean, default: false },
+    repairAttempts: { type: Number, default: 0 },
+    durationMs: { type: Number, default: 0 }
+}, { _id: false });
+
+const PromptEvaluationSchema = new Schema<PromptEvaluation & Document>({
+    templateName: { type: String, required: true },
+    versions: { type: [Number], required: true },
+    countries: [{ type: String, uppercase: true }],
+    status: { type: String, enum: ['running', 'completed', 'failed'], default: 'running' },
+    results: [{
+        _id: false,
+        iso3: { type: String, required: true },
+        version: { type: Number, required: true },
+        aiRequestId: { type: Schema.Types.ObjectId, ref: 'AiRequest' },
+        metrics: { type: DraftMetricsSchema },
+        error: { type: String }
+    }],
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    startedAt: { type: String, required: true },
+    completedAt: { type: String },
+    heartbeatAt: { type: String },
+    error: { type: String }
+}, {
+    timestamps: true,
+    collection: 'prompt_evaluations'
+});
+
+// Indexes
+PromptEvaluationSchema.index({ status: 1 });
+PromptEvaluationSchema.index({ startedAt: -1 });
+
+export const PromptEvaluationModel = mongoose.model<PromptEvaluation & Document>('PromptEvaluation', PromptEvaluationSchema);
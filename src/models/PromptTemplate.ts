@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { PromptTemplate } from '../types/index.js';
+
+const PromptTemplateSchema = new Schema<PromptTemplate & Document>({
+    name: { type: String, required: true, trim: true },
+    version: { type: Number, required: true },
+    region: { type: String },
+    body: { type: String, required: true },
+    description: { type: String, default: '' },
+    isActive: { type: Boolean, default: false },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    createdAt: { type: String, default: () => new Date().toISOString() }
+}, {
+    timestamps: true,
+    collection: 'prompt_templates'
+});
+
+// Indexes
+PromptTemplateSchema.index({ name: 1, version: -1 }, { unique: true });
+PromptTemplateSchema.index({ name: 1, isActive: 1, region: 1 });
+
+export const PromptTemplateModel = mongoose.model<PromptTemplate & Document>('PromptTemplate', PromptTemplateSchema);
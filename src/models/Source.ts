@@ -1,7 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import type { Source, SourceType } from '../types/index.js';
 
-const SOURCE_TYPES: SourceType[] = [
+export const SOURCE_TYPES: SourceType[] = [
     'ICAO_ANNEX_18',
     'ICAO_DOC_9284',
     'ICAO_STATE_VARIATIONS',
@@ -24,6 +24,26 @@ const SourceSchema = new Schema<Source & Document>({
     lastFetched: { type: String },
     hash: { type: String, default: '' },
     extractedText: { type: String },
+    etag: { type: String },
+    lastModified: { type: String },
+    health: {
+        consecutiveFailures: { type: Number, default: 0 },
+        lastSuccessAt: { type: String },
+        lastError: {
+            errorClass: { type: String },
+            httpStatus: { type: Number },
+            message: { type: String },
+            at: { type: String }
+        },
+        nextCheckAt: { type: String },
+        redirect: {
+            url: { type: String },
+            statusCode: { type: Number },
+            permanent: { type: Boolean },
+            hops: { type: Number },
+            detectedAt: { type: String }
+        }
+    },
     status: { type: String, enum: ['active', 'error', 'pending'], default: 'pending' }
 }, {
     timestamps: true,
@@ -34,5 +54,6 @@ const SourceSchema = new Schema<Source & Document>({
 SourceSchema.index({ countries: 1 });
 SourceSchema.index({ type: 1 });
 SourceSchema.index({ status: 1 });
+SourceSchema.index({ 'health.nextCheckAt': 1 });
 
 export const SourceModel = mongoose.model<Source & Document>('Source', SourceSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Indexed passage of Source.extractedText for search and retrieval
+export interface ISourceChunk {
+    sourceId: mongoose.Types.ObjectId;
+    sourceHash: string;     // Source.hash the chunk was built from
+    title: string;
+    type: string;
+    countries: string[];    // ISO3 codes, copied from the source for filtering
+    offset: number;         // Character offset into Source.extractedText
+    text: string;
+    tokens: string[];       // Normalized terms used for BM25 scoring
+    length: number;         // Token count
+    embedding?: number[];
+}
+
+const SourceChunkSchema = new Schema<ISourceChunk & Document>({
+    sourceId: { type: Schema.Types.ObjectId, ref: 'Source', required: true },
+    sourceHash: { type: String, default: '' },
+    title: { type: String, required: true },
+    type: { type: String, required: true },
+    countries: [{ type: String, uppercase: true }],
+    offset: { type: Number, required: true },
+    text: { type: String, required: true },
+    tokens: [{ type: String }],
+    length: { type: Number, required: true },
+    embedding: { type: [Number], default: undefined }
+}, {
+    timestamps: true,
+    collection: 'source_chunks'
+});
+
+// Indexes
+SourceChunkSchema.index({ sourceId: 1, offset: 1 });
+SourceChunkSchema.index({ tokens: 1 });
+SourceChunkSchema.index({ countries: 1, type: 1 });
+
+export const SourceChunkModel = mongoose.model<ISourceChunk & Document>('SourceChunk', SourceChunkSchema);
@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { SourceErrorClass } from '../types/index.js';
+
+// One failed fetch of a Source - the failure history behind Source.health
+export interface ISourceFailure {
+    sourceId: mongoose.Types.ObjectId;
+    url: string;
+    errorClass: SourceErrorClass;
+    httpStatus?: number;
+    message: string;
+    consecutive: number;    // Failures in a row, including this one
+    at: Date;
+}
+
+const SourceFailureSchema = new Schema<ISourceFailure & Document>({
+    sourceId: { type: Schema.Types.ObjectId, ref: 'Source', required: true },
+    url: { type: String, required: true },
+    errorClass: { type: String, required: true },
+    httpStatus: { type: Number },
+    message: { type: String, default: '' },
+    consecutive: { type: Number, default: 1 },
+    at: { type: Date, default: () => new Date() }
+}, {
+    collection: 'source_failures'
+});
+
+// Indexes
+SourceFailureSchema.index({ sourceId: 1, at: -1 });
+SourceFailureSchema.index({ at: 1 }, { expireAfterSeconds: 365 * 24 * 60 * 60 }); // TTL - 1 year
+
+export const SourceFailureModel = mongoose.model<ISourceFailure & Document>('SourceFailure', SourceFailureSchema);
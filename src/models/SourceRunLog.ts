@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// 'deferred' - the source is failing and its backoff had not passed, so it was not fetched
+export type SourceRunStatus = 'changed' | 'unchanged' | 'not_modified' | 'failed' | 'deferred';
+
+export const SOURCE_RUN_STATUSES: SourceRunStatus[] = ['changed', 'unchanged', 'not_modified', 'failed', 'deferred'];
+
+// Outcome of one source in a job that fetched sources (source checks and 'changed' mode jobs)
+export interface ISourceRunLog {
+    jobId: mongoose.Types.ObjectId;
+    sourceId: mongoose.Types.ObjectId;
+    title: string;
+    url: string;
+    countries: string[];
+    status: SourceRunStatus;
+    error?: string;
+    duration?: number; // in milliseconds
+    timestamp: string;
+}
+
+const SourceRunLogSchema = new Schema<ISourceRunLog & Document>({
+    jobId: { type: Schema.Types.ObjectId, ref: 'UpdateJob', required: true },
+    sourceId: { type: Schema.Types.ObjectId, ref: 'Source', required: true },
+    title: { type: String, required: true },
+    url: { type: String, required: true },
+    countries: [{ type: String, uppercase: true }],
+    status: { type: String, enum: SOURCE_RUN_STATUSES, required: true },
+    error: { type: String },
+    duration: { type: Number },
+    timestamp: { type: String, required: true }
+}, {
+    timestamps: true,
+    collection: 'source_run_logs'
+});
+
+// Indexes
+SourceRunLogSchema.index({ jobId: 1 });
+SourceRunLogSchema.index({ sourceId: 1, timestamp: -1 });
+SourceRunLogSchema.index({ status: 1 });
+
+export const SourceRunLogModel = mongoose.model<ISourceRunLog & Document>('SourceRunLog', SourceRunLogSchema);
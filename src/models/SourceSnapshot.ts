@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One distinct fetch of a Source - refetches with an unchanged hash only bump lastSeenAt
+export interface ISourceSnapshot {
+    sourceId: mongoose.Types.ObjectId;
+    url: string;
+    hash: string;                           // SHA-256 of extractedText (same as Source.hash)
+    contentType: string;
+    httpHeaders: Record<string, string>;
+    extractedText: string;
+    textLength: number;
+    rawFileId?: mongoose.Types.ObjectId;    // GridFS file in the 'source_raw' bucket
+    rawSize: number;                        // Bytes as downloaded
+    fetchedAt: Date;                        // First fetch that produced this content
+    lastSeenAt: Date;                       // Latest fetch that produced this content
+}
+
+const SourceSnapshotSchema = new Schema<ISourceSnapshot & Document>({
+    sourceId: { type: Schema.Types.ObjectId, ref: 'Source', required: true },
+    url: { type: String, required: true },
+    hash: { type: String, required: true },
+    contentType: { type: String, default: '' },
+    httpHeaders: { type: Schema.Types.Mixed, default: {} },
+    extractedText: { type: String, default: '' },
+    textLength: { type: Number, default: 0 },
+    rawFileId: { type: Schema.Types.ObjectId },
+    rawSize: { type: Number, default: 0 },
+    fetchedAt: { type: Date, required: true },
+    lastSeenAt: { type: Date, required: true }
+}, {
+    timestamps: true,
+    collection: 'source_snapshots',
+    minimize: false
+});
+
+// Indexes
+SourceSnapshotSchema.index({ sourceId: 1, fetchedAt: -1 });
+SourceSnapshotSchema.index({ sourceId: 1, hash: 1 });
+
+export const SourceSnapshotModel = mongoose.model<ISourceSnapshot & Document>('SourceSnapshot', SourceSnapshotSchema);
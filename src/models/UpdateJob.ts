@@ -2,14 +2,30 @@ import mongoose, { Schema, Document } from 'mongoose';
 import type { UpdateJob } from '../types/index.js';
 
 const UpdateJobSchema = new Schema<UpdateJob & Document>({
-    type: { type: String, enum: ['scheduled', 'manual'], required: true },
+    type: { type: String, enum: ['scheduled', 'manual', 'source_check'], required: true },
     triggeredBy: { type: Schema.Types.ObjectId, ref: 'User' },
     startedAt: { type: String, required: true },
     completedAt: { type: String },
-    status: { type: String, enum: ['running', 'completed', 'failed'], default: 'running' },
+    status: { type: String, enum: ['running', 'paused', 'completed', 'failed', 'cancelled'], default: 'running' },
+    mode: { type: String, enum: ['all', 'changed'] },
+    airacCycle: { type: String },
     sourcesChecked: { type: Number, default: 0 },
     sourcesChanged: { type: Number, default: 0 },
+    sourceErrors: { type: Number, default: 0 },
+    changedCountries: [{ type: String }],
     draftsCreated: { type: Number, default: 0 },
+    generationMode: { type: String, enum: ['whole', 'sectioned'] },
+    tasksTotal: { type: Number, default: 0 },
+    tasksLeased: { type: Number, default: 0 },
+    nextLeaseAt: { type: String },
+    retryRound: { type: Number, default: 0 },
+    heartbeatAt: { type: String },
+    pausedAt: { type: String },
+    pausedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    cancelledAt: { type: String },
+    cancelledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    tasksCancelled: { type: Number, default: 0 },
+    eventSeq: { type: Number, default: 0 },
     error: { type: String }
 }, {
     timestamps: true,
@@ -19,5 +35,6 @@ const UpdateJobSchema = new Schema<UpdateJob & Document>({
 // Indexes
 UpdateJobSchema.index({ status: 1 });
 UpdateJobSchema.index({ startedAt: -1 });
+UpdateJobSchema.index({ type: 1, airacCycle: 1 });
 
 export const UpdateJobModel = mongoose.model<UpdateJob & Document>('UpdateJob', UpdateJobSchema);
@@ -1,24 +1,80 @@
-import { Router, Request, Response } from 'express';
-import { authenticateToken, requireAdmin } from '../middleware/auth.js';
-import { SourceModel } from '../models/Source.js';
+import express, { Router, Request, Response } from 'express';
+import { authenticateToken, requireAdmin, generateStreamToken } from '../middleware/auth.js';
+import { SourceModel, SOURCE_TYPES } from '../models/Source.js';
 import { AiRequestModel } from '../models/AiRequest.js';
 import { UpdateJobModel } from '../models/UpdateJob.js';
 import { CountryModel } from '../models/Country.js';
 import { fetchAndExtractSource } from '../services/fetcher.js';
 import { generateCountrySummary } from '../services/llm.js';
 import { runUpdateJob, getSchedulerStatus } from '../jobs/scheduler.js';
+import { getWorkerStatus } from '../jobs/worker.js';
+import { runSourceCheckJob } from '../jobs/source_check.js';
+import { pauseJob, resumeJob, cancelJob } from '../jobs/queue.js';
+import { getJobEvents } from '../jobs/events.js';
+import { JobTaskModel, JOB_TASK_STATUSES } from '../models/JobTask.js';
+import type { JobTaskStatus } from '../models/JobTask.js';
 import { CountryRunLogModel } from '../models/CountryRunLog.js';
+import { SourceRunLogModel, SOURCE_RUN_STATUSES } from '../models/SourceRunLog.js';
+import type { SourceRunStatus } from '../models/SourceRunLog.js';
+import { saveCountrySummary, listCountryVersions, getCountryVersion, getSummaryAtVersion } from '../services/versions.js';
+import { diffSummaries, TEXT_DIFF_GRANULARITIES } from '../services/diff.js';
+import type { TextDiffGranularity } from '../services/diff.js';
+import { approveAiRequest, rejectAiRequest } from '../services/review.js';
+import { applyMergePlan } from '../services/merge.js';
+import { validateLock } from '../services/locks.js';
+import { searchPassages, reindexAllSources } from '../services/search_index.js';
+import {
+    listPromptTemplates, createPromptTemplate, activatePromptTemplate, resolvePromptTemplate, COUNTRY_BRIEF_TEMPLATE
+} from '../services/prompts.js';
+import { startPromptEvaluation, summarizeEvaluation, MAX_EVALUATION_COUNTRIES } from '../services/prompt_eval.js';
+import { PromptEvaluationModel } from '../models/PromptEvaluation.js';
+import { getLlmUsage, USAGE_GROUP_BY } from '../services/usage.js';
+import type { UsageGroupBy } from '../services/usage.js';
+import { clearLlmCache } from '../services/llm_cache.js';
+import {
+    validateSourceInput, loadKnownIso3, createSource, updateSource, deleteSource,
+    parseSourceCsv, importSources, SOURCE_STATUSES, MAX_IMPORT_ROWS
+} from '../services/sources.js';
+import type { SourceInput } from '../services/sources.js';
+import { listSnapshots, getSnapshot, openSnapshotRaw, diffSnapshots } from '../services/snapshots.js';
+import { getSourceHealthReport, getSourceFailures } from '../services/source_health.js';
+import type { CountrySummary, FieldLock, GenerationMode, SourceType, UpdateJobMode } from '../types/index.js';
 
 const router = Router();
 
+const GENERATION_MODES: GenerationMode[] = ['whole', 'sectioned'];
+
+function isGenerationMode(value: unknown): value is GenerationMode {
+    return GENERATION_MODES.includes(value as GenerationMode);
+}
+
+const UPDATE_JOB_MODES: UpdateJobMode[] = ['all', 'changed'];
+
+function isUpdateJobMode(value: unknown): value is UpdateJobMode {
+    return UPDATE_JOB_MODES.includes(value as UpdateJobMode);
+}
+
+// How often an SSE stream checks for new job events, and sends a keep-alive comment
+const JOB_EVENTS_POLL_MS = 1000;
+const JOB_EVENTS_KEEPALIVE_MS = 15 * 1000;
+// How long a stream keeps polling for the 'summary' event once the job has stopped running
+const JOB_EVENTS_SUMMARY_GRACE_MS = 5 * 1000;
+
+// force=true (body or query string) bypasses the LLM response cache
+function isForced(req: Request): boolean {
+    const value = req.body?.force ?? req.query.force;
+    return value === true || value === 'true';
+}
+
 // All admin routes require authentication
 router.use(authenticateToken);
 router.use(requireAdmin);
 
 // POST /api/ai/generate - Generate LLM draft for a country
+// Body: { iso3: string, mode?: 'whole' | 'sectioned', force?: boolean }
 router.post('/ai/generate', async (req: Request, res: Response) => {
     try {
-        const { iso3 } = req.body;
+        const { iso3, mode } = req.body;
 
         if (!iso3 || typeof iso3 !== 'string') {
             return res.status(400).json({
@@ -27,6 +83,13 @@ router.post('/ai/generate', async (req: Request, res: Response) => {
             });
         }
 
+        if (mode !== undefined && !isGenerationMode(mode)) {
+            return res.status(400).json({
+                success: false,
+                error: `mode must be one of: ${GENERATION_MODES.join(', ')}`
+            });
+        }
+
         // Get all sources for this country
         const sources = await SourceModel.find({
             countries: iso3.toUpperCase(),
@@ -49,14 +112,19 @@ router.post('/ai/generate', async (req: Request, res: Response) => {
         const result = await generateCountrySummary(
             countryName,
             iso3.toUpperCase(),
-            sources
+            sources,
+            { mode, force: isForced(req) }
         );
 
         res.json({
             success: true,
             data: {
                 aiRequestId: result.aiRequestId,
+                cacheHit: result.cacheHit,
+                status: 'draft', // Awaiting review - approve via POST /api/ai-requests/:id/approve
                 draft: result.output.summary,
+                citations: result.citations,
+                lockConflicts: result.lockConflicts,
                 sourcesUsed: sources.length
             }
         });
@@ -69,6 +137,275 @@ router.post('/ai/generate', async (req: Request, res: Response) => {
     }
 });
 
+// ============================================================
+// DRAFT REVIEW QUEUE
+// ============================================================
+
+// GET /api/ai-requests - Review queue (defaults to drafts awaiting review)
+// Query: { status?: AiRequestStatus, country?: ISO3, limit?, skip? }
+router.get('/ai-requests', async (req: Request, res: Response) => {
+    try {
+        const { status = 'draft', country, limit = 50, skip = 0 } = req.query;
+        const query: Record<string, unknown> = { status };
+
+        if (country && typeof country === 'string') query.countryIso3 = country.toUpperCase();
+
+        const requests = await AiRequestModel.find(query)
+            .select('-prompt -response -draft') // Exclude large fields
+            .sort({ createdAt: 1 }) // Oldest drafts first
+            .skip(Number(skip))
+            .limit(Number(limit))
+            .lean();
+
+        const total = await AiRequestModel.countDocuments(query);
+
+        res.json({
+            success: true,
+            data: requests,
+            pagination: {
+                total,
+                limit: Number(limit),
+                skip: Number(skip)
+            }
+        });
+    } catch (error) {
+        console.error('Fetch AI requests error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch AI requests'
+        });
+    }
+});
+
+// GET /api/ai-requests/:id - Get a single AI request with its draft and a diff against the live summary
+router.get('/ai-requests/:id', async (req: Request, res: Response) => {
+    try {
+        const aiRequest = await AiRequestModel.findById(req.params.id).lean();
+
+        if (!aiRequest) {
+            return res.status(404).json({
+                success: false,
+                error: 'AI request not found'
+            });
+        }
+
+        const country = await CountryModel.findOne({ iso3: aiRequest.countryIso3 }).lean();
+        const diff = aiRequest.draft
+            ? diffSummaries(country?.summary as CountrySummary | undefined, aiRequest.draft as CountrySummary)
+            : null;
+
+        res.json({
+            success: true,
+            data: {
+                ...aiRequest,
+                currentVersion: country?.version ?? null,
+                diff
+            }
+        });
+    } catch (error) {
+        console.error('Fetch AI request error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch AI request'
+        });
+    }
+});
+
+// POST /api/ai-requests/:id/approve - Publish a draft as the country's current summary
+// Body: { note?: string }
+router.post('/ai-requests/:id/approve', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.userId;
+        const aiRequest = await AiRequestModel.findById(req.params.id).select('countryIso3 status draft').lean();
+
+        if (!aiRequest) {
+            return res.status(404).json({
+                success: false,
+                error: 'AI request not found'
+            });
+        }
+
+        if (aiRequest.status !== 'draft' || !aiRequest.draft) {
+            return res.status(409).json({
+                success: false,
+                error: `AI request is not an approvable draft (status: ${aiRequest.status})`
+            });
+        }
+
+        const result = await approveAiRequest(req.params.id, userId, req.body?.note);
+
+        if (!result) {
+            return res.status(409).json({
+                success: false,
+                error: 'Draft was already reviewed'
+            });
+        }
+
+        console.log(`✅ Draft approved: ${result.iso3} v${result.version} by user ${userId}`);
+
+        res.json({
+            success: true,
+            data: {
+                aiRequestId: req.params.id,
+                iso3: result.iso3,
+                version: result.version,
+                updatedAt: result.lastUpdated
+            }
+        });
+    } catch (error) {
+        console.error('Approve draft error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to approve draft'
+        });
+    }
+});
+
+// POST /api/ai-requests/:id/reject - Discard a draft
+// Body: { note?: string }
+router.post('/ai-requests/:id/reject', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.userId;
+        const aiRequest = await AiRequestModel.findById(req.params.id).select('countryIso3 status').lean();
+
+        if (!aiRequest) {
+            return res.status(404).json({
+                success: false,
+                error: 'AI request not found'
+            });
+        }
+
+        const rejected = await rejectAiRequest(req.params.id, userId, req.body?.note);
+
+        if (!rejected) {
+            return res.status(409).json({
+                success: false,
+                error: `AI request is not a draft (status: ${aiRequest.status})`
+            });
+        }
+
+        console.log(`🗑️ Draft rejected: ${aiRequest.countryIso3} by user ${userId}`);
+
+        res.json({
+            success: true,
+            data: {
+                aiRequestId: req.params.id,
+                iso3: aiRequest.countryIso3,
+                status: 'rejected'
+            }
+        });
+    } catch (error) {
+        console.error('Reject draft error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to reject draft'
+        });
+    }
+});
+
+// POST /api/ai-requests/:id/merge - Approve a draft with a per-section / per-bullet merge plan
+// Body: { plan: MergePlan, note?: string, dryRun?: boolean }
+// Each section is 'old' | 'new' | [{ take: 'old' | 'new', index } | { custom }]; scalars accept { custom }.
+// Sections left out of the plan take the draft, except additional_notes which keep the live value.
+router.post('/ai-requests/:id/merge', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.userId;
+        const { plan = {}, note, dryRun = false } = req.body || {};
+
+        if (!plan || typeof plan !== 'object' || Array.isArray(plan)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Merge plan must be an object keyed by summary section'
+            });
+        }
+
+        const aiRequest = await AiRequestModel.findById(req.params.id).select('countryIso3 status draft').lean();
+
+        if (!aiRequest) {
+            return res.status(404).json({
+                success: false,
+                error: 'AI request not found'
+            });
+        }
+
+        if (aiRequest.status !== 'draft' || !aiRequest.draft) {
+            return res.status(409).json({
+                success: false,
+                error: `AI request is not an approvable draft (status: ${aiRequest.status})`
+            });
+        }
+
+        const country = await CountryModel.findOne({ iso3: aiRequest.countryIso3 }).lean();
+        if (!country) {
+            return res.status(404).json({
+                success: false,
+                error: 'Country not found'
+            });
+        }
+
+        const currentSummary = (country.summary || {}) as CountrySummary;
+        const merge = applyMergePlan(currentSummary, aiRequest.draft as CountrySummary, plan);
+        if (merge.errors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: 'Invalid merge plan',
+                validationErrors: merge.errors
+            });
+        }
+
+        const validation = validateSummary(merge.summary);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                validationErrors: validation.errors
+            });
+        }
+
+        const mergedSummary = sanitizeSummary(merge.summary);
+
+        if (dryRun) {
+            return res.json({
+                success: true,
+                data: {
+                    aiRequestId: req.params.id,
+                    iso3: aiRequest.countryIso3,
+                    dryRun: true,
+                    summary: mergedSummary,
+                    diff: diffSummaries(currentSummary, mergedSummary)
+                }
+            });
+        }
+
+        const result = await approveAiRequest(req.params.id, userId, note, mergedSummary);
+
+        if (!result) {
+            return res.status(409).json({
+                success: false,
+                error: 'Draft was already reviewed'
+            });
+        }
+
+        console.log(`🔀 Draft merged: ${result.iso3} v${result.version} by user ${userId}`);
+
+        res.json({
+            success: true,
+            data: {
+                aiRequestId: req.params.id,
+                iso3: result.iso3,
+                version: result.version,
+                updatedAt: result.lastUpdated
+            }
+        });
+    } catch (error) {
+        console.error('Merge draft error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to merge draft'
+        });
+    }
+});
+
 // POST /api/sources/fetch - Fetch and extract a single source
 router.post('/sources/fetch', async (req: Request, res: Response) => {
     try {
@@ -98,6 +435,7 @@ router.post('/sources/fetch', async (req: Request, res: Response) => {
                 sourceId: source._id,
                 title: source.title,
                 changed: result.changed,
+                notModified: result.notModified ?? false,
                 hash: result.hash,
                 textLength: result.text.length
             }
@@ -111,19 +449,69 @@ router.post('/sources/fetch', async (req: Request, res: Response) => {
     }
 });
 
+// POST /api/sources/check - Start a source check job now (refetch all due sources, no LLM)
+router.post('/sources/check', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.userId;
+
+        const runningCheck = await UpdateJobModel.findOne({ type: 'source_check', status: 'running' }).select('_id').lean();
+        if (runningCheck) {
+            return res.status(409).json({
+                success: false,
+                error: 'A source check is already running',
+                jobId: runningCheck._id
+            });
+        }
+
+        console.log(`🔎 Source check triggered by user ${userId}`);
+
+        // Start the job (don't await - run in background)
+        runSourceCheckJob(userId).catch(err => {
+            console.error('Background source check error:', err);
+        });
+
+        res.json({
+            success: true,
+            message: 'Source check started'
+        });
+    } catch (error) {
+        console.error('Source check error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to start source check'
+        });
+    }
+});
+
 // POST /api/updates/run - Trigger manual update job
-// Body: { specificCountry?: 'ISO3' } - Process specific country or all countries
-router.post('/updates/run', async (req: Request<{}, {}, { specificCountry?: string }>, res: Response) => {
+// Body: { specificCountry?: 'ISO3', mode?: 'all' | 'changed', generationMode?: 'whole' | 'sectioned', force?: boolean }
+// Process a specific country, all countries, or only countries whose sources changed
+router.post('/updates/run', async (req: Request<{}, {}, { specificCountry?: string; mode?: UpdateJobMode; generationMode?: GenerationMode; force?: boolean }>, res: Response) => {
     try {
         const userId = req.user?.userId;
         const specificCountry = req.body.specificCountry?.toUpperCase();
+        const { mode, generationMode } = req.body;
+
+        if (mode !== undefined && !isUpdateJobMode(mode)) {
+            return res.status(400).json({
+                success: false,
+                error: `mode must be one of: ${UPDATE_JOB_MODES.join(', ')}`
+            });
+        }
 
-        // Check if there's already a running job
-        const runningJob = await UpdateJobModel.findOne({ status: 'running' });
+        if (generationMode !== undefined && !isGenerationMode(generationMode)) {
+            return res.status(400).json({
+                success: false,
+                error: `generationMode must be one of: ${GENERATION_MODES.join(', ')}`
+            });
+        }
+
+        // Check if there's already a running (or paused) job - source checks don't block regeneration
+        const runningJob = await UpdateJobModel.findOne({ type: { $ne: 'source_check' }, status: { $in: ['running', 'paused'] } });
         if (runningJob) {
             return res.status(409).json({
                 success: false,
-                error: 'An update job is already running',
+                error: `An update job is already ${runningJob.status}`,
                 jobId: runningJob._id
             });
         }
@@ -131,7 +519,7 @@ router.post('/updates/run', async (req: Request<{}, {}, { specificCountry?: stri
         console.log(`📋 Starting update job${specificCountry ? ` for ${specificCountry}` : ' for ALL countries'}...`);
 
         // Start the job (don't await - run in background)
-        runUpdateJob('manual', userId, { specificCountry }).catch(err => {
+        runUpdateJob('manual', userId, { specificCountry, mode, generationMode, force: isForced(req) }).catch(err => {
             console.error('Background job error:', err);
         });
 
@@ -139,8 +527,11 @@ router.post('/updates/run', async (req: Request<{}, {}, { specificCountry?: stri
             success: true,
             message: specificCountry
                 ? `Update job started for ${specificCountry}`
-                : 'Update job started for all countries (skipping recently updated)',
-            specificCountry: specificCountry || null
+                : mode === 'changed'
+                    ? 'Update job started for countries with changed sources'
+                    : 'Update job started for all countries (skipping recently updated)',
+            specificCountry: specificCountry || null,
+            mode: specificCountry ? 'all' : mode || 'all'
         });
     } catch (error) {
         console.error('Manual update error:', error);
@@ -152,17 +543,21 @@ router.post('/updates/run', async (req: Request<{}, {}, { specificCountry?: stri
 });
 
 // GET /api/update_jobs - List update job history
+// Query: { cycle?: AIRAC cycle id, type?: 'scheduled' | 'manual' | 'source_check', limit?, skip? }
 router.get('/update_jobs', async (req: Request, res: Response) => {
     try {
-        const { limit = 20, skip = 0 } = req.query;
+        const { cycle, type, limit = 20, skip = 0 } = req.query;
+        const query: Record<string, unknown> = {};
+        if (cycle) query.airacCycle = String(cycle);
+        if (type) query.type = String(type);
 
-        const jobs = await UpdateJobModel.find()
+        const jobs = await UpdateJobModel.find(query)
             .sort({ startedAt: -1 })
             .skip(Number(skip))
             .limit(Number(limit))
             .lean();
 
-        const total = await UpdateJobModel.countDocuments();
+        const total = await UpdateJobModel.countDocuments(query);
 
         res.json({
             success: true,
@@ -182,354 +577,1803 @@ router.get('/update_jobs', async (req: Request, res: Response) => {
     }
 });
 
-// GET /api/sources - List all sources
-router.get('/sources', async (req: Request, res: Response) => {
+// POST /api/update_jobs/:id/pause - Stop starting new countries (the current one finishes)
+router.post('/update_jobs/:id/pause', async (req: Request, res: Response) => {
     try {
-        const { status, type, country } = req.query;
-        const query: Record<string, unknown> = {};
+        const existing = await UpdateJobModel.findById(req.params.id).select('type').lean();
+        if (!existing) {
+            return res.status(404).json({
+                success: false,
+                error: 'Update job not found'
+            });
+        }
 
-        if (status) query.status = status;
-        if (type) query.type = type;
-        if (country) query.countries = country;
+        // Source checks have no queue to hold - they can only be cancelled
+        if (existing.type === 'source_check') {
+            return res.status(409).json({
+                success: false,
+                error: 'Source check jobs cannot be paused'
+            });
+        }
 
-        const sources = await SourceModel.find(query)
-            .select('-extractedText') // Exclude large text field
-            .sort({ title: 1 })
-            .lean();
+        const job = await pauseJob(req.params.id, req.user?.userId);
+        if (!job) {
+            return res.status(409).json({
+                success: false,
+                error: 'Only a running update job can be paused'
+            });
+        }
 
         res.json({
             success: true,
-            data: sources,
-            count: sources.length
+            data: job
         });
     } catch (error) {
-        console.error('Fetch sources error:', error);
+        console.error('Pause update job error:', error);
         res.status(500).json({
             success: false,
-            error: 'Failed to fetch sources'
+            error: 'Failed to pause update job'
         });
     }
 });
 
-// GET /api/sources/:id - Get single source with text
-router.get('/sources/:id', async (req: Request, res: Response) => {
+// POST /api/update_jobs/:id/resume - Continue a paused job
+router.post('/update_jobs/:id/resume', async (req: Request, res: Response) => {
     try {
-        const source = await SourceModel.findById(req.params.id).lean();
-
-        if (!source) {
+        if (!await UpdateJobModel.exists({ _id: req.params.id })) {
             return res.status(404).json({
                 success: false,
-                error: 'Source not found'
+                error: 'Update job not found'
+            });
+        }
+
+        const job = await resumeJob(req.params.id);
+        if (!job) {
+            return res.status(409).json({
+                success: false,
+                error: 'Only a paused update job can be resumed'
             });
         }
 
         res.json({
             success: true,
-            data: source
+            data: job
         });
     } catch (error) {
-        console.error('Fetch source error:', error);
+        console.error('Resume update job error:', error);
         res.status(500).json({
             success: false,
-            error: 'Failed to fetch source'
+            error: 'Failed to resume update job'
+        });
+    }
+});
+
+// POST /api/update_jobs/:id/cancel - Cancel a running or paused job
+// Countries not yet processed are dropped and logged as 'cancelled'; one already in progress finishes
+router.post('/update_jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+        if (!await UpdateJobModel.exists({ _id: req.params.id })) {
+            return res.status(404).json({
+                success: false,
+                error: 'Update job not found'
+            });
+        }
+
+        const job = await cancelJob(req.params.id, req.user?.userId);
+        if (!job) {
+            return res.status(409).json({
+                success: false,
+                error: 'Only a running or paused update job can be cancelled'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: job
+        });
+    } catch (error) {
+        console.error('Cancel update job error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to cancel update job'
+        });
+    }
+});
+
+// POST /api/update_jobs/:id/stream_token - Short-lived token for this job's event stream
+// EventSource cannot send an Authorization header, so it opens /events?stream_token= instead
+router.post('/update_jobs/:id/stream_token', async (req: Request, res: Response) => {
+    try {
+        const job = await UpdateJobModel.findById(req.params.id).select('_id').lean();
+        if (!job) {
+            return res.status(404).json({
+                success: false,
+                error: 'Update job not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: generateStreamToken(req.user!, String(job._id))
+        });
+    } catch (error) {
+        console.error('Create stream token error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to create stream token'
+        });
+    }
+});
+
+// GET /api/update_jobs/:id/events - Live job progress over Server-Sent Events
+// Sends a 'snapshot' (job + task counts), replays events after Last-Event-ID (or ?after=seq),
+// then streams new ones until the final 'summary' event. EventSource clients authenticate with
+// ?stream_token= from POST /api/update_jobs/:id/stream_token
+router.get('/update_jobs/:id/events', async (req: Request, res: Response) => {
+    try {
+        const job = await UpdateJobModel.findById(req.params.id).lean();
+        if (!job) {
+            return res.status(404).json({
+                success: false,
+                error: 'Update job not found'
+            });
+        }
+
+        const counts = await JobTaskModel.aggregate([
+            { $match: { jobId: job._id } },
+            { $group: { _id: '$status', count: { $sum: 1 } } }
+        ]);
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'   // Don't let a proxy buffer the stream
+        });
+
+        let closed = false;
+        req.on('close', () => { closed = true; });
+
+        res.write(`event: snapshot\ndata: ${JSON.stringify({ job, counts: Object.fromEntries(counts.map(c => [c._id, c.count])) })}\n\n`);
+
+        let lastSeq = Number(req.header('Last-Event-ID') ?? req.query.after ?? 0) || 0;
+        let lastWrite = Date.now();
+        let endBy: number | null = null;
+
+        while (!closed) {
+            const events = await getJobEvents(job._id, lastSeq);
+
+            for (const event of events) {
+                res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, iso3: event.iso3, at: event.createdAt })}\n\n`);
+                lastSeq = event.seq;
+                lastWrite = Date.now();
+
+                if (event.type === 'summary') {
+                    return res.end();
+                }
+            }
+
+            // The status changes before the summary event is written, so keep polling for it a
+            // little longer; end anyway for jobs that never get one (e.g. before events were recorded)
+            if (events.length === 0) {
+                if (endBy === null) {
+                    const current = await UpdateJobModel.findById(job._id).select('status').lean();
+                    if (!current) return res.end();
+                    if (!['running', 'paused'].includes(current.status)) {
+                        endBy = Date.now() + JOB_EVENTS_SUMMARY_GRACE_MS;
+                    }
+                } else if (Date.now() >= endBy) {
+                    return res.end();
+                }
+            }
+
+            if (Date.now() - lastWrite >= JOB_EVENTS_KEEPALIVE_MS) {
+                res.write(': keep-alive\n\n');
+                lastWrite = Date.now();
+            }
+
+            await new Promise(resolve => setTimeout(resolve, JOB_EVENTS_POLL_MS));
+        }
+    } catch (error) {
+        console.error('Job events stream error:', error);
+        if (!res.headersSent) {
+            return res.status(500).json({
+                success: false,
+                error: 'Failed to stream job events'
+            });
+        }
+        res.end();
+    }
+});
+
+// GET /api/update_jobs/:id/tasks - Queue progress of an update job (one task per country)
+// Query: { status?: pending|leased|succeeded|failed|cancelled }
+router.get('/update_jobs/:id/tasks', async (req: Request, res: Response) => {
+    try {
+        const job = await UpdateJobModel.findById(req.params.id).lean();
+        if (!job) {
+            return res.status(404).json({
+                success: false,
+                error: 'Update job not found'
+            });
+        }
+
+        const status = req.query.status;
+        if (status !== undefined && !JOB_TASK_STATUSES.includes(status as JobTaskStatus)) {
+            return res.status(400).json({
+                success: false,
+                error: `status must be one of: ${JOB_TASK_STATUSES.join(', ')}`
+            });
+        }
+
+        const query: Record<string, unknown> = { jobId: job._id };
+        if (status) query.status = status;
+
+        const tasks = await JobTaskModel.find(query).sort({ position: 1 }).lean();
+        const counts = await JobTaskModel.aggregate([
+            { $match: { jobId: job._id } },
+            { $group: { _id: '$status', count: { $sum: 1 } } }
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                job,
+                counts: Object.fromEntries(counts.map(c => [c._id, c.count])),
+                tasks
+            }
+        });
+    } catch (error) {
+        console.error('Fetch job tasks error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch job tasks'
+        });
+    }
+});
+
+// GET /api/update_jobs/:id/sources - Per-source results of a job that fetched sources
+// (source checks and 'changed' mode jobs)
+// Query: { status?: changed|unchanged|not_modified|failed|deferred }
+router.get('/update_jobs/:id/sources', async (req: Request, res: Response) => {
+    try {
+        const job = await UpdateJobModel.findById(req.params.id).lean();
+        if (!job) {
+            return res.status(404).json({
+                success: false,
+                error: 'Update job not found'
+            });
+        }
+
+        const status = req.query.status;
+        if (status !== undefined && !SOURCE_RUN_STATUSES.includes(status as SourceRunStatus)) {
+            return res.status(400).json({
+                success: false,
+                error: `status must be one of: ${SOURCE_RUN_STATUSES.join(', ')}`
+            });
+        }
+
+        const query: Record<string, unknown> = { jobId: job._id };
+        if (status) query.status = status;
+
+        const logs = await SourceRunLogModel.find(query).sort({ timestamp: 1 }).lean();
+        const counts = await SourceRunLogModel.aggregate([
+            { $match: { jobId: job._id } },
+            { $group: { _id: '$status', count: { $sum: 1 } } }
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                job,
+                counts: Object.fromEntries(counts.map(c => [c._id, c.count])),
+                changedCountries: job.changedCountries || [],
+                sources: logs
+            }
+        });
+    } catch (error) {
+        console.error('Fetch job sources error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch job source results'
+        });
+    }
+});
+
+// GET /api/sources - List all sources
+router.get('/sources', async (req: Request, res: Response) => {
+    try {
+        const { status, type, country } = req.query;
+        const query: Record<string, unknown> = {};
+
+        if (status) query.status = status;
+        if (type) query.type = type;
+        if (country) query.countries = country;
+
+        const sources = await SourceModel.find(query)
+            .select('-extractedText') // Exclude large text field
+            .sort({ title: 1 })
+            .lean();
+
+        res.json({
+            success: true,
+            data: sources,
+            count: sources.length
+        });
+    } catch (error) {
+        console.error('Fetch sources error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch sources'
+        });
+    }
+});
+
+// GET /api/sources/search - Ranked passage search inside source documents
+// Query: { q: string, country?: ISO3, type?: SourceType, limit? }
+router.get('/sources/search', async (req: Request, res: Response) => {
+    try {
+        const { q, country, type, limit = 20 } = req.query;
+
+        if (!q || typeof q !== 'string' || q.trim() === '') {
+            return res.status(400).json({
+                success: false,
+                error: 'Search query (q) required'
+            });
+        }
+
+        const results = await searchPassages({
+            q,
+            country: typeof country === 'string' ? country : undefined,
+            type: typeof type === 'string' ? type : undefined,
+            limit: Math.min(Number(limit) || 20, 100)
+        });
+
+        res.json({
+            success: true,
+            data: results,
+            count: results.length
+        });
+    } catch (error) {
+        console.error('Source search error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to search sources'
+        });
+    }
+});
+
+// GET /api/sources/health - Source health grouped by country and SourceType, with failing,
+// errored and moved sources listed
+// Query: { country?: ISO3, type?: SourceType, days?: failure window for failuresByClass (default 30) }
+router.get('/sources/health', async (req: Request, res: Response) => {
+    try {
+        const { country, type, days = 30 } = req.query;
+
+        if (type !== undefined && !SOURCE_TYPES.includes(type as SourceType)) {
+            return res.status(400).json({
+                success: false,
+                error: `type must be one of: ${SOURCE_TYPES.join(', ')}`
+            });
+        }
+
+        const windowDays = Number(days);
+        if (!Number.isFinite(windowDays) || windowDays <= 0) {
+            return res.status(400).json({
+                success: false,
+                error: '`days` must be a positive number'
+            });
+        }
+
+        const report = await getSourceHealthReport({
+            country: typeof country === 'string' ? country : undefined,
+            type: type as SourceType | undefined,
+            days: windowDays
+        });
+
+        res.json({
+            success: true,
+            data: report
+        });
+    } catch (error) {
+        console.error('Source health error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to build source health report'
+        });
+    }
+});
+
+// POST /api/sources/reindex - Rebuild the passage index for all sources
+router.post('/sources/reindex', async (_req: Request, res: Response) => {
+    try {
+        const result = await reindexAllSources();
+
+        res.json({
+            success: true,
+            data: result
+        });
+    } catch (error) {
+        console.error('Source reindex error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to reindex sources'
+        });
+    }
+});
+
+// GET /api/sources/:id - Get single source with text
+router.get('/sources/:id', async (req: Request, res: Response) => {
+    try {
+        const source = await SourceModel.findById(req.params.id).lean();
+
+        if (!source) {
+            return res.status(404).json({
+                success: false,
+                error: 'Source not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: source
+        });
+    } catch (error) {
+        console.error('Fetch source error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch source'
+        });
+    }
+});
+
+// POST /api/sources - Register a source (status 'pending' until fetched)
+// Body: { title, type: SourceType, url, countries: ISO3[] | 'GBR;FRA' }
+router.post('/sources', async (req: Request, res: Response) => {
+    try {
+        const { value, errors } = validateSourceInput(req.body || {}, await loadKnownIso3());
+        if (errors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: 'Invalid source',
+                details: errors
+            });
+        }
+
+        const duplicate = await SourceModel.findOne({ url: value.url }).select('_id title').lean();
+        if (duplicate) {
+            return res.status(409).json({
+                success: false,
+                error: 'A source with this URL already exists',
+                sourceId: duplicate._id
+            });
+        }
+
+        const source = await createSource(value as SourceInput);
+        console.log(`📚 Source added: ${source.title} (${source.countries.join(', ')}) by user ${req.user?.userId}`);
+
+        res.status(201).json({
+            success: true,
+            data: source
+        });
+    } catch (error) {
+        console.error('Create source error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to create source'
+        });
+    }
+});
+
+// PUT /api/sources/:id - Update a source (any of title, type, url, countries, status)
+// A new URL clears the fetched text and marks the source 'pending'
+router.put('/sources/:id', async (req: Request, res: Response) => {
+    try {
+        const body = req.body || {};
+        const { value, errors } = validateSourceInput(body, await loadKnownIso3(), { partial: true });
+
+        if (body.status !== undefined && !SOURCE_STATUSES.includes(body.status)) {
+            errors.push(`status must be one of: ${SOURCE_STATUSES.join(', ')}`);
+        }
+        if (errors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: 'Invalid source',
+                details: errors
+            });
+        }
+
+        if (value.url) {
+            const duplicate = await SourceModel.findOne({ url: value.url, _id: { $ne: req.params.id } }).select('_id').lean();
+            if (duplicate) {
+                return res.status(409).json({
+                    success: false,
+                    error: 'Another source already has this URL',
+                    sourceId: duplicate._id
+                });
+            }
+        }
+
+        const source = await updateSource(req.params.id, { ...value, ...(body.status && { status: body.status }) });
+        if (!source) {
+            return res.status(404).json({
+                success: false,
+                error: 'Source not found'
+            });
+        }
+
+        console.log(`📚 Source updated: ${source.title} by user ${req.user?.userId}`);
+
+        res.json({
+            success: true,
+            data: source
+        });
+    } catch (error) {
+        console.error('Update source error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update source'
+        });
+    }
+});
+
+// DELETE /api/sources/:id - Remove a source and its search index entries
+router.delete('/sources/:id', async (req: Request, res: Response) => {
+    try {
+        const deleted = await deleteSource(req.params.id);
+        if (!deleted) {
+            return res.status(404).json({
+                success: false,
+                error: 'Source not found'
+            });
+        }
+
+        console.log(`🗑️ Source ${req.params.id} deleted by user ${req.user?.userId}`);
+
+        res.json({
+            success: true,
+            data: { sourceId: req.params.id }
+        });
+    } catch (error) {
+        console.error('Delete source error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to delete source'
+        });
+    }
+});
+
+// GET /api/sources/:id/snapshots - Archived fetches of a source, newest first (without text)
+// Query: { limit?, skip? }
+router.get('/sources/:id/snapshots', async (req: Request, res: Response) => {
+    try {
+        const { limit = 20, skip = 0 } = req.query;
+
+        const source = await SourceModel.findById(req.params.id).select('title url').lean();
+        if (!source) {
+            return res.status(404).json({
+                success: false,
+                error: 'Source not found'
+            });
+        }
+
+        const { snapshots, total } = await listSnapshots(req.params.id, { limit: Number(limit), skip: Number(skip) });
+
+        res.json({
+            success: true,
+            data: snapshots,
+            pagination: {
+                total,
+                limit: Number(limit),
+                skip: Number(skip)
+            }
+        });
+    } catch (error) {
+        console.error('Fetch source snapshots error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch source snapshots'
+        });
+    }
+});
+
+// GET /api/sources/:id/snapshots/diff - Text diff between two snapshots
+// Query: { from?: snapshotId, to?: snapshotId, granularity?: 'line' | 'paragraph' | 'sentence', context? }
+// `to` defaults to the latest snapshot, `from` to the one before `to`; granularity defaults to
+// lines, or sentences for single-line (HTML) text
+router.get('/sources/:id/snapshots/diff', async (req: Request, res: Response) => {
+    try {
+        const { from, to, granularity, context } = req.query;
+
+        if (granularity !== undefined && !TEXT_DIFF_GRANULARITIES.includes(granularity as TextDiffGranularity)) {
+            return res.status(400).json({
+                success: false,
+                error: `granularity must be one of: ${TEXT_DIFF_GRANULARITIES.join(', ')}`
+            });
+        }
+
+        const contextLines = context !== undefined ? Number(context) : undefined;
+        if (contextLines !== undefined && (!Number.isInteger(contextLines) || contextLines < 0)) {
+            return res.status(400).json({
+                success: false,
+                error: '`context` must be a non-negative integer'
+            });
+        }
+
+        const result = await diffSnapshots(req.params.id, {
+            from: typeof from === 'string' ? from : undefined,
+            to: typeof to === 'string' ? to : undefined,
+            granularity: granularity as TextDiffGranularity | undefined,
+            context: contextLines
+        });
+
+        if ('error' in result) {
+            return res.status(404).json({
+                success: false,
+                error: result.error
+            });
+        }
+
+        res.json({
+            success: true,
+            data: { sourceId: req.params.id, ...result }
+        });
+    } catch (error) {
+        console.error('Source snapshot diff error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to diff source snapshots'
+        });
+    }
+});
+
+// GET /api/sources/:id/snapshots/:snapshotId - Single snapshot with its extracted text
+router.get('/sources/:id/snapshots/:snapshotId', async (req: Request, res: Response) => {
+    try {
+        const snapshot = await getSnapshot(req.params.id, req.params.snapshotId);
+
+        if (!snapshot) {
+            return res.status(404).json({
+                success: false,
+                error: 'Snapshot not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: snapshot
+        });
+    } catch (error) {
+        console.error('Fetch source snapshot error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch source snapshot'
+        });
+    }
+});
+
+// GET /api/sources/:id/snapshots/:snapshotId/raw - Download the bytes as originally fetched
+router.get('/sources/:id/snapshots/:snapshotId/raw', async (req: Request, res: Response) => {
+    try {
+        const snapshot = await getSnapshot(req.params.id, req.params.snapshotId);
+        const stream = snapshot ? openSnapshotRaw(snapshot) : null;
+
+        if (!snapshot || !stream) {
+            return res.status(404).json({
+                success: false,
+                error: 'Snapshot not found'
+            });
+        }
+
+        res.setHeader('Content-Type', snapshot.contentType || 'application/octet-stream');
+        res.setHeader('Content-Length', String(snapshot.rawSize));
+
+        stream.on('error', (err) => {
+            console.error('Stream snapshot error:', err);
+            res.destroy(err);
+        });
+        stream.pipe(res);
+    } catch (error) {
+        console.error('Download source snapshot error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to download source snapshot'
+        });
+    }
+});
+
+// GET /api/sources/:id/failures - Failure history of a source, newest first
+// Query: { limit? }
+router.get('/sources/:id/failures', async (req: Request, res: Response) => {
+    try {
+        const { limit = 50 } = req.query;
+
+        const source = await SourceModel.findById(req.params.id).select('title url status health').lean();
+        if (!source) {
+            return res.status(404).json({
+                success: false,
+                error: 'Source not found'
+            });
+        }
+
+        const failures = await getSourceFailures(req.params.id, Math.min(Number(limit) || 50, 500));
+
+        res.json({
+            success: true,
+            data: {
+                sourceId: req.params.id,
+                title: source.title,
+                url: source.url,
+                status: source.status,
+                health: source.health || { consecutiveFailures: 0 },
+                failures
+            }
+        });
+    } catch (error) {
+        console.error('Fetch source failures error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch source failures'
+        });
+    }
+});
+
+// POST /api/sources/import - Bulk import sources from CSV or JSON
+// Body: text/csv with a header row (title,type,url,countries), or JSON
+//       { rows: [{ title, type, url, countries }] } / { csv: string }, or a bare JSON array
+// Query/body: { dryRun?: boolean (validate only), updateExisting?: boolean (update rows whose URL exists) }
+router.post('/sources/import', express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }), async (req: Request, res: Response) => {
+    try {
+        const options = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+        const flag = (name: string) => {
+            const value = options[name] ?? req.query[name];
+            return value === true || value === 'true';
+        };
+
+        let records: Record<string, unknown>[];
+        const csv = typeof req.body === 'string' ? req.body : typeof options.csv === 'string' ? options.csv : null;
+
+        if (csv !== null) {
+            const parsed = parseSourceCsv(csv);
+            if (parsed.error) {
+                return res.status(400).json({
+                    success: false,
+                    error: parsed.error
+                });
+            }
+            records = parsed.records;
+        } else if (Array.isArray(req.body) || Array.isArray(options.rows)) {
+            records = Array.isArray(req.body) ? req.body : options.rows;
+        } else {
+            return res.status(400).json({
+                success: false,
+                error: 'Send CSV (text/csv) or JSON { rows: [...] }'
+            });
+        }
+
+        if (records.length === 0) {
+            return res.status(400).json({
+                success: false,
+                error: 'No rows to import'
+            });
+        }
+
+        if (records.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({
+                success: false,
+                error: `At most ${MAX_IMPORT_ROWS} rows per import`
+            });
+        }
+
+        const report = await importSources(
+            records.map(r => (r && typeof r === 'object' ? r : {})),
+            { dryRun: flag('dryRun'), updateExisting: flag('updateExisting') }
+        );
+
+        console.log(`📥 Source import${report.dryRun ? ' (dry run)' : ''} by user ${req.user?.userId}: ${JSON.stringify(report.summary)}`);
+
+        res.json({
+            success: true,
+            data: report
+        });
+    } catch (error) {
+        console.error('Import sources error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to import sources'
+        });
+    }
+});
+
+// ============================================================
+// MANUAL SUMMARY EDITING
+// ============================================================
+
+// Validation helpers
+function isValidUrl(str: string): boolean {
+    if (!str || str.trim() === '') return true; // Empty is valid (optional)
+    try {
+        const url = new URL(str);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+function isValidEmail(str: string): boolean {
+    if (!str || str.trim() === '') return true; // Empty is valid (optional)
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(str);
+}
+
+function isValidPhone(str: string): boolean {
+    if (!str || str.trim() === '') return true; // Empty is valid (optional)
+    // Allow digits, spaces, +, -, (), and . (common phone formats)
+    const phoneRegex = /^[\d\s+\-().]+$/;
+    return phoneRegex.test(str) && str.replace(/\D/g, '').length >= 6;
+}
+
+function validateSummary(summary: unknown): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!summary || typeof summary !== 'object') {
+        return { valid: false, errors: ['Summary must be an object'] };
+    }
+
+    const s = summary as Record<string, unknown>;
+
+    // Validate minimum_lead_time
+    if (s.minimum_lead_time && typeof s.minimum_lead_time === 'string' && s.minimum_lead_time.length > 200) {
+        errors.push('minimum_lead_time must be 200 characters or less');
+    }
+
+    // Validate URLs
+    if (s.icao_doc_url && !isValidUrl(String(s.icao_doc_url))) {
+        errors.push('icao_doc_url must be a valid URL (http:// or https://)');
+    }
+    if (s.state_rules_url && !isValidUrl(String(s.state_rules_url))) {
+        errors.push('state_rules_url must be a valid URL (http:// or https://)');
+    }
+
+    // Validate primary_contact
+    if (s.primary_contact && typeof s.primary_contact === 'object') {
+        const pc = s.primary_contact as Record<string, unknown>;
+        if (pc.email && !isValidEmail(String(pc.email))) {
+            errors.push('primary_contact.email must be a valid email address');
+        }
+        if (pc.phone && !isValidPhone(String(pc.phone))) {
+            errors.push('primary_contact.phone must be a valid phone number');
+        }
+        if (pc.website && !isValidUrl(String(pc.website))) {
+            errors.push('primary_contact.website must be a valid URL');
+        }
+    }
+
+    // Validate array sections
+    const arraySections = [
+        'additional_notes', 'status', 'permit_and_conditions',
+        'overflight_permits', 'landing_permits',
+        'israel_limitation', 'key_extracts', 'ops_notes', 'ops_checklist'
+    ];
+
+    for (const section of arraySections) {
+        if (s[section]) {
+            if (!Array.isArray(s[section])) {
+                errors.push(`${section} must be an array`);
+            } else {
+                const arr = s[section] as unknown[];
+                if (arr.length > 50) {
+                    errors.push(`${section} must have 50 items or less`);
+                }
+                for (let i = 0; i < arr.length; i++) {
+                    if (typeof arr[i] !== 'string') {
+                        errors.push(`${section}[${i}] must be a string`);
+                    } else if ((arr[i] as string).length > 1000) {
+                        errors.push(`${section}[${i}] must be 1000 characters or less`);
+                    }
+                }
+            }
+        }
+    }
+
+    // Validate authorities_contacts
+    if (s.authorities_contacts) {
+        if (!Array.isArray(s.authorities_contacts)) {
+            errors.push('authorities_contacts must be an array');
+        } else {
+            const contacts = s.authorities_contacts as unknown[];
+            if (contacts.length > 20) {
+                errors.push('authorities_contacts must have 20 items or less');
+            }
+            for (let i = 0; i < contacts.length; i++) {
+                const c = contacts[i] as Record<string, unknown>;
+                if (!c || typeof c !== 'object') {
+                    errors.push(`authorities_contacts[${i}] must be an object`);
+                    continue;
+                }
+                if (!c.name || typeof c.name !== 'string' || c.name.trim() === '') {
+                    errors.push(`authorities_contacts[${i}].name is required`);
+                }
+                if (c.email && !isValidEmail(String(c.email))) {
+                    errors.push(`authorities_contacts[${i}].email must be valid`);
+                }
+                if (c.url && !isValidUrl(String(c.url))) {
+                    errors.push(`authorities_contacts[${i}].url must be valid`);
+                }
+            }
+        }
+    }
+
+    // Validate references
+    if (s.references) {
+        if (!Array.isArray(s.references)) {
+            errors.push('references must be an array');
+        } else {
+            const refs = s.references as unknown[];
+            if (refs.length > 50) {
+                errors.push('references must have 50 items or less');
+            }
+            for (let i = 0; i < refs.length; i++) {
+                const r = refs[i] as Record<string, unknown>;
+                if (!r || typeof r !== 'object') {
+                    errors.push(`references[${i}] must be an object`);
+                    continue;
+                }
+                if (!r.id || typeof r.id !== 'string') {
+                    errors.push(`references[${i}].id is required`);
+                }
+                if (!r.title || typeof r.title !== 'string') {
+                    errors.push(`references[${i}].title is required`);
+                }
+                if (!r.url || !isValidUrl(String(r.url))) {
+                    errors.push(`references[${i}].url must be a valid URL`);
+                }
+            }
+        }
+    }
+
+    return { valid: errors.length === 0, errors };
+}
+
+// Trim all fields and coerce a validated summary into the stored CountrySummary shape
+function sanitizeSummary(summary: unknown): CountrySummary {
+    const asRecord = (val: unknown): Record<string, unknown> =>
+        val && typeof val === 'object' ? val as Record<string, unknown> : {};
+    const text = (val: unknown): string => String(val || '').trim();
+    const records = (val: unknown): Record<string, unknown>[] => Array.isArray(val) ? val.map(asRecord) : [];
+    const strings = (val: unknown): string[] => Array.isArray(val) ? val.map(v => String(v).trim()) : [];
+
+    const s = asRecord(summary);
+    const pc = asRecord(s.primary_contact);
+
+    return {
+        minimum_lead_time: text(s.minimum_lead_time),
+        icao_doc_url: text(s.icao_doc_url),
+        state_rules_url: text(s.state_rules_url),
+        primary_contact: {
+            phone: text(pc.phone),
+            email: text(pc.email),
+            website: text(pc.website)
+        },
+        additional_notes: strings(s.additional_notes).filter(n => n.length > 0),
+        status: strings(s.status),
+        permit_and_conditions: strings(s.permit_and_conditions),
+        overflight_permits: strings(s.overflight_permits),
+        landing_permits: strings(s.landing_permits),
+        israel_limitation: strings(s.israel_limitation),
+        key_extracts: strings(s.key_extracts),
+        ops_notes: strings(s.ops_notes),
+        ops_checklist: strings(s.ops_checklist),
+        authorities_contacts: records(s.authorities_contacts).map(c => ({
+            name: text(c.name),
+            role: text(c.role),
+            phone: text(c.phone),
+            email: text(c.email),
+            url: text(c.url)
+        })),
+        references: records(s.references).map(r => ({
+            id: String(r.id || `ref-${Date.now()}`).trim(),
+            title: text(r.title),
+            url: text(r.url),
+            fetchedAt: String(r.fetchedAt || new Date().toISOString())
+        }))
+    };
+}
+
+// PUT /api/admin/countries/:iso3/summary - Manual edit country summary
+router.put('/countries/:iso3/summary', async (req: Request, res: Response) => {
+    try {
+        const { iso3 } = req.params;
+        const { summary } = req.body;
+        const userId = req.user?.userId;
+
+        if (!iso3) {
+            return res.status(400).json({
+                success: false,
+                error: 'ISO3 country code required'
+            });
+        }
+
+        if (!summary) {
+            return res.status(400).json({
+                success: false,
+                error: 'Summary data required'
+            });
+        }
+
+        // Validate summary format
+        const validation = validateSummary(summary);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                validationErrors: validation.errors
+            });
+        }
+
+        // Find the country
+        const country = await CountryModel.findOne({ iso3: iso3.toUpperCase() });
+        if (!country) {
+            return res.status(404).json({
+                success: false,
+                error: 'Country not found'
+            });
+        }
+
+        // Build sanitized summary
+        const sanitizedSummary = sanitizeSummary(summary);
+
+        // Update the country (snapshots the new version)
+        const saved = await saveCountrySummary(iso3, sanitizedSummary, {
+            changeType: 'manual',
+            changedBy: userId
+        });
+
+        console.log(`✏️ Manual edit: ${country.country} (${iso3}) by user ${userId}`);
+
+        res.json({
+            success: true,
+            data: {
+                iso3: iso3.toUpperCase(),
+                country: country.country,
+                message: 'Summary updated successfully',
+                version: saved.version,
+                updatedAt: saved.lastUpdated
+            }
+        });
+    } catch (error) {
+        console.error('Manual edit error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update country summary'
+        });
+    }
+});
+
+// GET /api/admin/countries/:iso3 - Get country details for editing
+router.get('/countries/:iso3', async (req: Request, res: Response) => {
+    try {
+        const { iso3 } = req.params;
+
+        const country = await CountryModel.findOne({ iso3: iso3.toUpperCase() }).lean();
+
+        if (!country) {
+            return res.status(404).json({
+                success: false,
+                error: 'Country not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: country
+        });
+    } catch (error) {
+        console.error('Get country error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to get country'
         });
     }
 });
 
 // ============================================================
-// MANUAL SUMMARY EDITING
+// VERSION HISTORY
 // ============================================================
 
-// Validation helpers
-function isValidUrl(str: string): boolean {
-    if (!str || str.trim() === '') return true; // Empty is valid (optional)
+// GET /api/admin/countries/:iso3/versions - List version history for a country
+router.get('/countries/:iso3/versions', async (req: Request, res: Response) => {
     try {
-        const url = new URL(str);
-        return url.protocol === 'http:' || url.protocol === 'https:';
-    } catch {
-        return false;
+        const { iso3 } = req.params;
+        const { limit = 50, skip = 0 } = req.query;
+
+        const { versions, total } = await listCountryVersions(iso3, Number(limit), Number(skip));
+
+        res.json({
+            success: true,
+            data: versions,
+            pagination: {
+                total,
+                limit: Number(limit),
+                skip: Number(skip)
+            }
+        });
+    } catch (error) {
+        console.error('List versions error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to list country versions'
+        });
+    }
+});
+
+// GET /api/admin/countries/:iso3/versions/:n - Get a single version snapshot
+router.get('/countries/:iso3/versions/:n', async (req: Request, res: Response) => {
+    try {
+        const { iso3, n } = req.params;
+        const versionNumber = Number(n);
+
+        if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+            return res.status(400).json({
+                success: false,
+                error: 'Version must be a positive integer'
+            });
+        }
+
+        const version = await getCountryVersion(iso3, versionNumber);
+
+        if (!version) {
+            return res.status(404).json({
+                success: false,
+                error: 'Version not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: version
+        });
+    } catch (error) {
+        console.error('Get version error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to get country version'
+        });
+    }
+});
+
+// POST /api/admin/countries/:iso3/versions/:n/restore - Restore a previous version as the current summary
+router.post('/countries/:iso3/versions/:n/restore', async (req: Request, res: Response) => {
+    try {
+        const { iso3, n } = req.params;
+        const userId = req.user?.userId;
+        const versionNumber = Number(n);
+
+        if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+            return res.status(400).json({
+                success: false,
+                error: 'Version must be a positive integer'
+            });
+        }
+
+        const version = await getCountryVersion(iso3, versionNumber);
+
+        if (!version) {
+            return res.status(404).json({
+                success: false,
+                error: 'Version not found'
+            });
+        }
+
+        const saved = await saveCountrySummary(iso3, version.summary, {
+            changeType: 'restore',
+            changedBy: userId,
+            restoredFrom: versionNumber,
+            citations: version.citations || [],
+            bulletMeta: version.bulletMeta || []
+        });
+
+        console.log(`⏪ Restore: ${iso3.toUpperCase()} v${versionNumber} → v${saved.version} by user ${userId}`);
+
+        res.json({
+            success: true,
+            data: {
+                iso3: iso3.toUpperCase(),
+                restoredFrom: versionNumber,
+                version: saved.version,
+                updatedAt: saved.lastUpdated
+            }
+        });
+    } catch (error) {
+        console.error('Restore version error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to restore country version'
+        });
+    }
+});
+
+// GET /api/admin/countries/:iso3/diff?from=&to= - Section-level diff between two versions
+// `to` defaults to the current version, `from` defaults to the version before `to`
+router.get('/countries/:iso3/diff', async (req: Request, res: Response) => {
+    try {
+        const { iso3 } = req.params;
+        const { from, to } = req.query;
+
+        const toVersion = to !== undefined ? Number(to) : undefined;
+        if (toVersion !== undefined && (!Number.isInteger(toVersion) || toVersion < 1)) {
+            return res.status(400).json({
+                success: false,
+                error: '`to` must be a positive integer'
+            });
+        }
+
+        const target = await getSummaryAtVersion(iso3, toVersion);
+        if (!target) {
+            return res.status(404).json({
+                success: false,
+                error: toVersion !== undefined ? `Version ${toVersion} not found` : 'Country not found'
+            });
+        }
+
+        const fromVersion = from !== undefined ? Number(from) : target.version - 1;
+        if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+            return res.status(400).json({
+                success: false,
+                error: '`from` must be a positive integer'
+            });
+        }
+
+        const base = await getSummaryAtVersion(iso3, fromVersion);
+        if (!base) {
+            return res.status(404).json({
+                success: false,
+                error: `Version ${fromVersion} not found`
+            });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                iso3: iso3.toUpperCase(),
+                from: base.version,
+                to: target.version,
+                diff: diffSummaries(base.summary, target.summary)
+            }
+        });
+    } catch (error) {
+        console.error('Country diff error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to diff country versions'
+        });
+    }
+});
+
+// ============================================================
+// FIELD LOCKS
+// ============================================================
+
+// GET /api/admin/countries/:iso3/locks - List locked (manually verified) fields
+router.get('/countries/:iso3/locks', async (req: Request, res: Response) => {
+    try {
+        const country = await CountryModel.findOne({ iso3: req.params.iso3.toUpperCase() }).select('iso3 locks').lean();
+
+        if (!country) {
+            return res.status(404).json({
+                success: false,
+                error: 'Country not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: country.locks || []
+        });
+    } catch (error) {
+        console.error('List locks error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to list field locks'
+        });
+    }
+});
+
+// POST /api/admin/countries/:iso3/locks - Lock a field as manually verified
+// Body: { field: string, key?: string (authority contact name), note?: string }
+router.post('/countries/:iso3/locks', async (req: Request, res: Response) => {
+    try {
+        const iso3 = req.params.iso3.toUpperCase();
+        const userId = req.user?.userId;
+        const { field, key, note } = req.body || {};
+
+        const country = await CountryModel.findOne({ iso3 }).select('summary locks').lean();
+        if (!country) {
+            return res.status(404).json({
+                success: false,
+                error: 'Country not found'
+            });
+        }
+
+        const lockError = validateLock(field, key, (country.summary || {}) as CountrySummary);
+        if (lockError) {
+            return res.status(400).json({
+                success: false,
+                error: lockError
+            });
+        }
+
+        const existing = ((country.locks || []) as FieldLock[]).find(l => l.field === field && (l.key || '') === (key || ''));
+        if (existing) {
+            return res.status(409).json({
+                success: false,
+                error: 'Field is already locked',
+                lockId: existing._id
+            });
+        }
+
+        const lock = {
+            field,
+            key: key || undefined,
+            verifiedBy: userId,
+            verifiedAt: new Date().toISOString(),
+            note: note ? String(note).trim() : undefined
+        };
+
+        const updated = await CountryModel.findOneAndUpdate(
+            { iso3 },
+            { $push: { locks: lock } },
+            { new: true }
+        ).select('locks').lean();
+
+        console.log(`🔒 Lock: ${iso3} ${field}${key ? `[${key}]` : ''} by user ${userId}`);
+
+        res.status(201).json({
+            success: true,
+            data: updated?.locks?.[updated.locks.length - 1]
+        });
+    } catch (error) {
+        console.error('Create lock error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to lock field'
+        });
+    }
+});
+
+// DELETE /api/admin/countries/:iso3/locks/:lockId - Unlock a field
+router.delete('/countries/:iso3/locks/:lockId', async (req: Request, res: Response) => {
+    try {
+        const iso3 = req.params.iso3.toUpperCase();
+
+        const result = await CountryModel.updateOne(
+            { iso3, 'locks._id': req.params.lockId },
+            { $pull: { locks: { _id: req.params.lockId } } }
+        );
+
+        if (result.modifiedCount === 0) {
+            return res.status(404).json({
+                success: false,
+                error: 'Lock not found'
+            });
+        }
+
+        console.log(`🔓 Unlock: ${iso3} lock ${req.params.lockId} by user ${req.user?.userId}`);
+
+        res.json({
+            success: true,
+            data: { lockId: req.params.lockId }
+        });
+    } catch (error) {
+        console.error('Delete lock error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to unlock field'
+        });
+    }
+});
+
+// PUT /api/admin/countries/:iso3/generation-mode - Choose whole-brief or sectioned generation for a country
+// Body: { mode: 'whole' | 'sectioned' | null } - null falls back to the LLM_GENERATION_MODE default
+router.put('/countries/:iso3/generation-mode', async (req: Request, res: Response) => {
+    try {
+        const iso3 = req.params.iso3.toUpperCase();
+        const { mode } = req.body;
+
+        if (mode !== null && !isGenerationMode(mode)) {
+            return res.status(400).json({
+                success: false,
+                error: `mode must be null or one of: ${GENERATION_MODES.join(', ')}`
+            });
+        }
+
+        const country = await CountryModel.findOneAndUpdate(
+            { iso3 },
+            mode === null ? { $unset: { generationMode: 1 } } : { $set: { generationMode: mode } },
+            { new: true }
+        ).select('iso3 generationMode').lean();
+
+        if (!country) {
+            return res.status(404).json({
+                success: false,
+                error: 'Country not found'
+            });
+        }
+
+        console.log(`🧩 Generation mode: ${iso3} → ${mode ?? 'default'} by user ${req.user?.userId}`);
+
+        res.json({
+            success: true,
+            data: {
+                iso3,
+                generationMode: country.generationMode ?? null
+            }
+        });
+    } catch (error) {
+        console.error('Set generation mode error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to set generation mode'
+        });
+    }
+});
+
+// ============================================================
+// LLM USAGE
+// ============================================================
+
+// GET /api/admin/llm/usage - Token usage and estimated cost of recorded LLM calls
+// Query: { from?: ISO date, to?: ISO date (a bare date includes the whole day), groupBy?: model|country|job }
+router.get('/llm/usage', async (req: Request, res: Response) => {
+    try {
+        const { from, to, groupBy = 'model' } = req.query;
+
+        if (!USAGE_GROUP_BY.includes(groupBy as UsageGroupBy)) {
+            return res.status(400).json({
+                success: false,
+                error: `groupBy must be one of: ${USAGE_GROUP_BY.join(', ')}`
+            });
+        }
+
+        const range: { from?: string; to?: string } = {};
+        for (const [name, value] of [['from', from], ['to', to]] as const) {
+            if (value === undefined) continue;
+
+            const raw = String(value);
+            const date = new Date(name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T23:59:59.999Z` : raw);
+            if (Number.isNaN(date.getTime())) {
+                return res.status(400).json({
+                    success: false,
+                    error: `${name} must be an ISO date`
+                });
+            }
+            range[name] = date.toISOString();
+        }
+
+        const usage = await getLlmUsage({ ...range, groupBy: groupBy as UsageGroupBy });
+
+        res.json({
+            success: true,
+            data: {
+                groupBy,
+                from: range.from || null,
+                to: range.to || null,
+                ...usage
+            }
+        });
+    } catch (error) {
+        console.error('LLM usage error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch LLM usage'
+        });
+    }
+});
+
+// DELETE /api/admin/llm/cache - Drop cached LLM responses
+// Query: { country?: ISO3 } - omit to clear the whole cache
+router.delete('/llm/cache', async (req: Request, res: Response) => {
+    try {
+        const country = typeof req.query.country === 'string' ? req.query.country.toUpperCase() : undefined;
+        const deleted = await clearLlmCache(country);
+
+        console.log(`♻️ LLM cache cleared${country ? ` for ${country}` : ''}: ${deleted} entries by user ${req.user?.userId}`);
+
+        res.json({
+            success: true,
+            data: { country: country || null, deleted }
+        });
+    } catch (error) {
+        console.error('Clear LLM cache error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to clear LLM cache'
+        });
     }
-}
-
-function isValidEmail(str: string): boolean {
-    if (!str || str.trim() === '') return true; // Empty is valid (optional)
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(str);
-}
+});
 
-function isValidPhone(str: string): boolean {
-    if (!str || str.trim() === '') return true; // Empty is valid (optional)
-    // Allow digits, spaces, +, -, (), and . (common phone formats)
-    const phoneRegex = /^[\d\s+\-().]+$/;
-    return phoneRegex.test(str) && str.replace(/\D/g, '').length >= 6;
-}
+// ============================================================
+// PROMPT TEMPLATES
+// ============================================================
 
-function validateSummary(summary: unknown): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+// GET /api/admin/prompts - List prompt template versions (bodies excluded)
+// Query: { name? }
+router.get('/prompts', async (req: Request, res: Response) => {
+    try {
+        const name = typeof req.query.name === 'string' ? req.query.name : undefined;
+        const templates = await listPromptTemplates(name);
 
-    if (!summary || typeof summary !== 'object') {
-        return { valid: false, errors: ['Summary must be an object'] };
+        res.json({
+            success: true,
+            data: templates
+        });
+    } catch (error) {
+        console.error('List prompts error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch prompt templates'
+        });
     }
+});
 
-    const s = summary as Record<string, unknown>;
+// POST /api/admin/prompts - Store a new template version
+// Body: { name?: string (default country_brief), body: string, region?, description?, activate?: boolean }
+router.post('/prompts', async (req: Request, res: Response) => {
+    try {
+        const { name = COUNTRY_BRIEF_TEMPLATE, body, region, description, activate } = req.body;
 
-    // Validate minimum_lead_time
-    if (s.minimum_lead_time && typeof s.minimum_lead_time === 'string' && s.minimum_lead_time.length > 200) {
-        errors.push('minimum_lead_time must be 200 characters or less');
-    }
+        if (!body || typeof body !== 'string' || !body.trim()) {
+            return res.status(400).json({
+                success: false,
+                error: 'Template body required'
+            });
+        }
 
-    // Validate URLs
-    if (s.icao_doc_url && !isValidUrl(String(s.icao_doc_url))) {
-        errors.push('icao_doc_url must be a valid URL (http:// or https://)');
-    }
-    if (s.state_rules_url && !isValidUrl(String(s.state_rules_url))) {
-        errors.push('state_rules_url must be a valid URL (http:// or https://)');
+        const template = await createPromptTemplate({
+            name,
+            body,
+            region,
+            description,
+            activate: activate === true,
+            createdBy: req.user?.userId
+        });
+
+        console.log(`🧾 Prompt: ${template.name} v${template.version} created by user ${req.user?.userId}${template.isActive ? ' (active)' : ''}`);
+
+        res.status(201).json({
+            success: true,
+            data: template
+        });
+    } catch (error) {
+        console.error('Create prompt error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to create prompt template'
+        });
     }
+});
 
-    // Validate primary_contact
-    if (s.primary_contact && typeof s.primary_contact === 'object') {
-        const pc = s.primary_contact as Record<string, unknown>;
-        if (pc.email && !isValidEmail(String(pc.email))) {
-            errors.push('primary_contact.email must be a valid email address');
-        }
-        if (pc.phone && !isValidPhone(String(pc.phone))) {
-            errors.push('primary_contact.phone must be a valid phone number');
-        }
-        if (pc.website && !isValidUrl(String(pc.website))) {
-            errors.push('primary_contact.website must be a valid URL');
+// GET /api/admin/prompts/:name/versions/:version - Get one template version including its body
+router.get('/prompts/:name/versions/:version', async (req: Request, res: Response) => {
+    try {
+        const version = Number(req.params.version);
+
+        if (!Number.isInteger(version) || version < 1) {
+            return res.status(400).json({
+                success: false,
+                error: 'Version must be a positive integer'
+            });
         }
-    }
 
-    // Validate array sections
-    const arraySections = [
-        'additional_notes', 'status', 'permit_and_conditions',
-        'overflight_permits', 'landing_permits',
-        'israel_limitation', 'key_extracts', 'ops_notes', 'ops_checklist'
-    ];
+        const template = await resolvePromptTemplate(req.params.name, { version: version });
 
-    for (const section of arraySections) {
-        if (s[section]) {
-            if (!Array.isArray(s[section])) {
-                errors.push(`${section} must be an array`);
-            } else {
-                const arr = s[section] as unknown[];
-                if (arr.length > 50) {
-                    errors.push(`${section} must have 50 items or less`);
-                }
-                for (let i = 0; i < arr.length; i++) {
-                    if (typeof arr[i] !== 'string') {
-                        errors.push(`${section}[${i}] must be a string`);
-                    } else if ((arr[i] as string).length > 1000) {
-                        errors.push(`${section}[${i}] must be 1000 characters or less`);
-                    }
-                }
-            }
+        if (!template) {
+            return res.status(404).json({
+                success: false,
+                error: 'Prompt template not found'
+            });
         }
+
+        res.json({
+            success: true,
+            data: template
+        });
+    } catch (error) {
+        console.error('Get prompt error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch prompt template'
+        });
     }
+});
 
-    // Validate authorities_contacts
-    if (s.authorities_contacts) {
-        if (!Array.isArray(s.authorities_contacts)) {
-            errors.push('authorities_contacts must be an array');
-        } else {
-            const contacts = s.authorities_contacts as unknown[];
-            if (contacts.length > 20) {
-                errors.push('authorities_contacts must have 20 items or less');
-            }
-            for (let i = 0; i < contacts.length; i++) {
-                const c = contacts[i] as Record<string, unknown>;
-                if (!c || typeof c !== 'object') {
-                    errors.push(`authorities_contacts[${i}] must be an object`);
-                    continue;
-                }
-                if (!c.name || typeof c.name !== 'string' || c.name.trim() === '') {
-                    errors.push(`authorities_contacts[${i}].name is required`);
-                }
-                if (c.email && !isValidEmail(String(c.email))) {
-                    errors.push(`authorities_contacts[${i}].email must be valid`);
-                }
-                if (c.url && !isValidUrl(String(c.url))) {
-                    errors.push(`authorities_contacts[${i}].url must be valid`);
-                }
-            }
+// POST /api/admin/prompts/:name/versions/:version/activate - Use this version for new generations
+router.post('/prompts/:name/versions/:version/activate', async (req: Request, res: Response) => {
+    try {
+        const version = Number(req.params.version);
+
+        if (!Number.isInteger(version) || version < 1) {
+            return res.status(400).json({
+                success: false,
+                error: 'Version must be a positive integer'
+            });
         }
-    }
 
-    // Validate references
-    if (s.references) {
-        if (!Array.isArray(s.references)) {
-            errors.push('references must be an array');
-        } else {
-            const refs = s.references as unknown[];
-            if (refs.length > 50) {
-                errors.push('references must have 50 items or less');
-            }
-            for (let i = 0; i < refs.length; i++) {
-                const r = refs[i] as Record<string, unknown>;
-                if (!r || typeof r !== 'object') {
-                    errors.push(`references[${i}] must be an object`);
-                    continue;
-                }
-                if (!r.id || typeof r.id !== 'string') {
-                    errors.push(`references[${i}].id is required`);
-                }
-                if (!r.title || typeof r.title !== 'string') {
-                    errors.push(`references[${i}].title is required`);
-                }
-                if (!r.url || !isValidUrl(String(r.url))) {
-                    errors.push(`references[${i}].url must be a valid URL`);
-                }
-            }
+        const template = await activatePromptTemplate(req.params.name, version);
+
+        if (!template) {
+            return res.status(404).json({
+                success: false,
+                error: 'Prompt template not found'
+            });
         }
-    }
 
-    return { valid: errors.length === 0, errors };
-}
+        console.log(`🧾 Prompt: ${template.name} v${template.version} activated by user ${req.user?.userId}`);
 
-// PUT /api/admin/countries/:iso3/summary - Manual edit country summary
-router.put('/countries/:iso3/summary', async (req: Request, res: Response) => {
+        res.json({
+            success: true,
+            data: template
+        });
+    } catch (error) {
+        console.error('Activate prompt error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to activate prompt template'
+        });
+    }
+});
+
+// POST /api/admin/prompts/evaluations - A/B test two country_brief versions on a set of countries
+// Body: { versions: [a, b], countries: ['FRA', ...] } - version 0 is the built-in prompt
+router.post('/prompts/evaluations', async (req: Request, res: Response) => {
     try {
-        const { iso3 } = req.params;
-        const { summary } = req.body;
-        const userId = req.user?.userId;
+        const { versions, countries } = req.body;
 
-        if (!iso3) {
+        if (!Array.isArray(versions) || versions.length !== 2
+            || !versions.every(v => Number.isInteger(v) && v >= 0) || versions[0] === versions[1]) {
             return res.status(400).json({
                 success: false,
-                error: 'ISO3 country code required'
+                error: 'versions must be two different template version numbers'
             });
         }
 
-        if (!summary) {
+        if (!Array.isArray(countries) || countries.length === 0 || countries.length > MAX_EVALUATION_COUNTRIES
+            || !countries.every(c => typeof c === 'string' && c.length === 3)) {
             return res.status(400).json({
                 success: false,
-                error: 'Summary data required'
+                error: `countries must be 1-${MAX_EVALUATION_COUNTRIES} ISO3 codes`
             });
         }
 
-        // Validate summary format
-        const validation = validateSummary(summary);
-        if (!validation.valid) {
+        const iso3s: string[] = [...new Set(countries.map((c: string) => c.toUpperCase()))];
+        const known = await CountryModel.find({ iso3: { $in: iso3s } }).select('iso3').lean();
+        const unknown = iso3s.filter(iso3 => !known.some(c => c.iso3 === iso3));
+        if (unknown.length > 0) {
             return res.status(400).json({
                 success: false,
-                error: 'Validation failed',
-                validationErrors: validation.errors
+                error: `unknown country codes: ${unknown.join(', ')}`
             });
         }
 
-        // Find the country
-        const country = await CountryModel.findOne({ iso3: iso3.toUpperCase() });
-        if (!country) {
-            return res.status(404).json({
-                success: false,
-                error: 'Country not found'
-            });
+        for (const version of versions.filter((v: number) => v > 0)) {
+            const template = await resolvePromptTemplate(COUNTRY_BRIEF_TEMPLATE, { version });
+            if (!template) {
+                return res.status(404).json({
+                    success: false,
+                    error: `Prompt template ${COUNTRY_BRIEF_TEMPLATE} v${version} not found`
+                });
+            }
         }
 
-        // Build sanitized summary
-        const sanitizedSummary = {
-            minimum_lead_time: String(summary.minimum_lead_time || '').trim(),
-            icao_doc_url: String(summary.icao_doc_url || '').trim(),
-            state_rules_url: String(summary.state_rules_url || '').trim(),
-            primary_contact: {
-                phone: String(summary.primary_contact?.phone || '').trim(),
-                email: String(summary.primary_contact?.email || '').trim(),
-                website: String(summary.primary_contact?.website || '').trim()
-            },
-            additional_notes: Array.isArray(summary.additional_notes) ? summary.additional_notes.map((s: unknown) => String(s).trim()).filter((s: string) => s.length > 0) : [],
-            status: Array.isArray(summary.status) ? summary.status.map((s: unknown) => String(s).trim()) : [],
-            permit_and_conditions: Array.isArray(summary.permit_and_conditions) ? summary.permit_and_conditions.map((s: unknown) => String(s).trim()) : [],
-            overflight_permits: Array.isArray(summary.overflight_permits) ? summary.overflight_permits.map((s: unknown) => String(s).trim()) : [],
-            landing_permits: Array.isArray(summary.landing_permits) ? summary.landing_permits.map((s: unknown) => String(s).trim()) : [],
-            israel_limitation: Array.isArray(summary.israel_limitation) ? summary.israel_limitation.map((s: unknown) => String(s).trim()) : [],
-            key_extracts: Array.isArray(summary.key_extracts) ? summary.key_extracts.map((s: unknown) => String(s).trim()) : [],
-            ops_notes: Array.isArray(summary.ops_notes) ? summary.ops_notes.map((s: unknown) => String(s).trim()) : [],
-            ops_checklist: Array.isArray(summary.ops_checklist) ? summary.ops_checklist.map((s: unknown) => String(s).trim()) : [],
-            authorities_contacts: Array.isArray(summary.authorities_contacts) ? summary.authorities_contacts.map((c: Record<string, unknown>) => ({
-                name: String(c.name || '').trim(),
-                role: String(c.role || '').trim(),
-                phone: String(c.phone || '').trim(),
-                email: String(c.email || '').trim(),
-                url: String(c.url || '').trim()
-            })) : [],
-            references: Array.isArray(summary.references) ? summary.references.map((r: Record<string, unknown>) => ({
-                id: String(r.id || `ref-${Date.now()}`).trim(),
-                title: String(r.title || '').trim(),
-                url: String(r.url || '').trim(),
-                fetchedAt: String(r.fetchedAt || new Date().toISOString())
-            })) : []
-        };
+        const evaluation = await startPromptEvaluation({
+            versions: [versions[0], versions[1]],
+            countries: iso3s,
+            createdBy: req.user?.userId
+        });
 
-        // Update the country
-        await CountryModel.findOneAndUpdate(
-            { iso3: iso3.toUpperCase() },
-            {
-                $set: {
-                    summary: sanitizedSummary,
-                    lastUpdated: new Date().toISOString(),
-                    version: ((country.version as number) || 0) + 1
-                }
-            }
-        );
+        res.status(202).json({
+            success: true,
+            message: `Evaluation started: v${versions[0]} vs v${versions[1]} on ${iso3s.length} countries`,
+            data: evaluation
+        });
+    } catch (error) {
+        console.error('Start prompt evaluation error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to start prompt evaluation'
+        });
+    }
+});
 
-        console.log(`✏️ Manual edit: ${country.country} (${iso3}) by user ${userId}`);
+// GET /api/admin/prompts/evaluations - List evaluation runs
+router.get('/prompts/evaluations', async (req: Request, res: Response) => {
+    try {
+        const { limit = 20, skip = 0 } = req.query;
+
+        const [evaluations, total] = await Promise.all([
+            PromptEvaluationModel.find()
+                .select('-results')
+                .sort({ startedAt: -1 })
+                .skip(Number(skip))
+                .limit(Number(limit))
+                .lean(),
+            PromptEvaluationModel.countDocuments()
+        ]);
 
         res.json({
             success: true,
-            data: {
-                iso3: iso3.toUpperCase(),
-                country: country.country,
-                message: 'Summary updated successfully',
-                updatedAt: new Date().toISOString()
+            data: evaluations,
+            pagination: {
+                total,
+                limit: Number(limit),
+                skip: Number(skip)
             }
         });
     } catch (error) {
-        console.error('Manual edit error:', error);
+        console.error('List prompt evaluations error:', error);
         res.status(500).json({
             success: false,
-            error: 'Failed to update country summary'
+            error: 'Failed to fetch prompt evaluations'
         });
     }
 });
 
-// GET /api/admin/countries/:iso3 - Get country details for editing
-router.get('/countries/:iso3', async (req: Request, res: Response) => {
+// GET /api/admin/prompts/evaluations/:id - Side-by-side completeness report
+router.get('/prompts/evaluations/:id', async (req: Request, res: Response) => {
     try {
-        const { iso3 } = req.params;
-
-        const country = await CountryModel.findOne({ iso3: iso3.toUpperCase() }).lean();
+        const evaluation = await PromptEvaluationModel.findById(req.params.id).lean();
 
-        if (!country) {
+        if (!evaluation) {
             return res.status(404).json({
                 success: false,
-                error: 'Country not found'
+                error: 'Evaluation not found'
             });
         }
 
         res.json({
             success: true,
-            data: country
+            data: {
+                ...evaluation,
+                report: summarizeEvaluation(evaluation)
+            }
         });
     } catch (error) {
-        console.error('Get country error:', error);
+        console.error('Get prompt evaluation error:', error);
         res.status(500).json({
             success: false,
-            error: 'Failed to get country'
+            error: 'Failed to fetch prompt evaluation'
         });
     }
 });
 
 // POST /api/admin/run-all - Trigger full update job for all countries
+// Body: { mode?: 'all' | 'changed', generationMode?: 'whole' | 'sectioned' }
 router.post('/run-all', async (req: Request, res: Response) => {
     try {
         const userId = req.user?.userId;
+        const mode = req.body?.mode;
+        const generationMode = req.body?.generationMode;
+
+        if (mode !== undefined && !isUpdateJobMode(mode)) {
+            return res.status(400).json({
+                success: false,
+                error: `mode must be one of: ${UPDATE_JOB_MODES.join(', ')}`
+            });
+        }
+
+        if (generationMode !== undefined && !isGenerationMode(generationMode)) {
+            return res.status(400).json({
+                success: false,
+                error: `generationMode must be one of: ${GENERATION_MODES.join(', ')}`
+            });
+        }
 
         console.log(`🚀 Manual RUN ALL triggered by user ${userId}`);
 
         // Start the job asynchronously (don't wait for completion)
-        runUpdateJob('manual', userId)
+        runUpdateJob('manual', userId, { mode, generationMode })
             .then(job => {
-                console.log(`✅ RUN ALL job completed: ${job._id}`);
+                console.log(`✅ RUN ALL job queued: ${job._id}`);
             })
             .catch(error => {
                 console.error('❌ RUN ALL job failed:', error);
@@ -538,8 +2382,11 @@ router.post('/run-all', async (req: Request, res: Response) => {
         // Return immediately with job info
         res.json({
             success: true,
-            message: 'Update job started for all countries',
+            message: mode === 'changed'
+                ? 'Update job started for countries with changed sources'
+                : 'Update job started for all countries',
             data: {
+                mode: mode || 'all',
                 startedAt: new Date().toISOString()
             }
         });
@@ -567,12 +2414,21 @@ router.get('/scheduler-status', async (req: Request, res: Response) => {
         const lastJob = recentJobs[0];
         let lastJobStats = null;
 
-        if (lastJob) {
+        if (lastJob?.type === 'source_check') {
+            const logs = await SourceRunLogModel.find({ jobId: lastJob._id }).select('status').lean();
+            lastJobStats = {
+                changed: logs.filter(l => l.status === 'changed').length,
+                unchanged: logs.filter(l => l.status === 'unchanged' || l.status === 'not_modified').length,
+                failed: logs.filter(l => l.status === 'failed').length,
+                deferred: logs.filter(l => l.status === 'deferred').length
+            };
+        } else if (lastJob) {
             const logs = await CountryRunLogModel.find({ jobId: lastJob._id }).lean();
             lastJobStats = {
                 success: logs.filter(l => l.status === 'success').length,
                 failed: logs.filter(l => l.status === 'failed').length,
-                skipped: logs.filter(l => l.status === 'skipped').length
+                skipped: logs.filter(l => l.status === 'skipped').length,
+                cancelled: logs.filter(l => l.status === 'cancelled').length
             };
         }
 
@@ -580,6 +2436,7 @@ router.get('/scheduler-status', async (req: Request, res: Response) => {
             success: true,
             data: {
                 ...status,
+                worker: getWorkerStatus(),
                 recentJobs,
                 lastJobStats
             }
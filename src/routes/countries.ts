@@ -1,7 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { CountryModel } from '../models/Country.js';
 import { REGIONS } from '../types/index.js';
+import type { CountrySummary, BulletMeta, Citation, FieldLock } from '../types/index.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { computeVerification } from '../services/verification.js';
+import { getAiracCycle, getAiracCycleById, getNextAiracRun, listAiracCycles, MAX_AIRAC_CYCLES } from '../services/airac.js';
 
 const router = Router();
 
@@ -16,10 +19,64 @@ router.get('/regions', (_req: Request, res: Response) => {
     });
 });
 
+// GET /api/airac - AIRAC cycles (effective dates, identifiers and update run times, all UTC)
+// Query: { from?: ISO date (default today), to?: ISO date (default one year after from) }
+router.get('/airac', (req: Request, res: Response) => {
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date();
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date(from.getTime() + 365 * 24 * 60 * 60 * 1000);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+        return res.status(400).json({
+            success: false,
+            error: 'from and to must be ISO dates'
+        });
+    }
+
+    if (to < from) {
+        return res.status(400).json({
+            success: false,
+            error: 'to must not be before from'
+        });
+    }
+
+    const cycles = listAiracCycles(from, to);
+    if (cycles.length >= MAX_AIRAC_CYCLES) {
+        return res.status(400).json({
+            success: false,
+            error: `Range too long - at most ${MAX_AIRAC_CYCLES} cycles`
+        });
+    }
+
+    res.json({
+        success: true,
+        data: {
+            current: getAiracCycle(),
+            nextRun: getNextAiracRun(),
+            cycles
+        }
+    });
+});
+
+// GET /api/airac/:id - A single AIRAC cycle, e.g. /api/airac/2601
+router.get('/airac/:id', (req: Request, res: Response) => {
+    const cycle = getAiracCycleById(req.params.id);
+    if (!cycle) {
+        return res.status(404).json({
+            success: false,
+            error: 'Unknown AIRAC cycle identifier'
+        });
+    }
+
+    res.json({
+        success: true,
+        data: cycle
+    });
+});
+
 // GET /api/countries - List countries with optional filters
 router.get('/countries', async (req: Request, res: Response) => {
     try {
-        const { region, search, requires_permit, embargo } = req.query;
+        const { region, search, requires_permit, embargo, needs_verification, max_score, sort } = req.query;
 
         // Build query
         const query: Record<string, unknown> = {};
@@ -42,14 +99,14 @@ router.get('/countries', async (req: Request, res: Response) => {
         }
 
         const countries = await CountryModel.find(query)
-            .select('country iso3 region flagUrl requires_permit embargo lastUpdated summary')
+            .select('country iso3 region flagUrl requires_permit embargo lastUpdated summary citations bulletMeta locks')
             .sort({ country: 1 })
             .lean();
 
         // Add hasSummary and isComplete fields
         // hasSummary = has ops_notes (determines if country has ANY data)
         // isComplete = has ops_notes AND authorities_contacts AND references
-        const countriesWithSummaryStatus = countries.map(c => {
+        let countriesWithSummaryStatus = countries.map(c => {
             const hasOpsNotes = !!(c.summary && c.summary.ops_notes && c.summary.ops_notes.length > 0);
             const hasAuthorities = !!(c.summary && c.summary.authorities_contacts && c.summary.authorities_contacts.length > 0);
             const hasReferences = !!(c.summary && c.summary.references && c.summary.references.length > 0);
@@ -64,10 +121,34 @@ router.get('/countries', async (req: Request, res: Response) => {
                 embargo: c.embargo,
                 lastUpdated: c.lastUpdated,
                 hasSummary: hasOpsNotes,
-                isComplete: hasOpsNotes && hasAuthorities && hasReferences
+                isComplete: hasOpsNotes && hasAuthorities && hasReferences,
+                verification: computeVerification(
+                    c.summary as unknown as CountrySummary,
+                    c.bulletMeta as BulletMeta[],
+                    c.citations as Citation[],
+                    c.locks as FieldLock[]
+                )
             };
         });
 
+        // Verification filters - the score is derived from bullet metadata, so filter after mapping
+        if (needs_verification === 'true' || needs_verification === 'false') {
+            const wanted = needs_verification === 'true';
+            countriesWithSummaryStatus = countriesWithSummaryStatus.filter(c => c.verification.needsVerification === wanted);
+        }
+
+        if (max_score !== undefined) {
+            const maxScore = Number(max_score);
+            if (!Number.isNaN(maxScore)) {
+                countriesWithSummaryStatus = countriesWithSummaryStatus.filter(c => c.verification.score <= maxScore);
+            }
+        }
+
+        // sort=verification puts the weakest briefs first
+        if (sort === 'verification') {
+            countriesWithSummaryStatus.sort((a, b) => a.verification.score - b.verification.score);
+        }
+
         res.json({
             success: true,
             data: countriesWithSummaryStatus,
@@ -109,7 +190,15 @@ router.get('/country/:iso3', async (req: Request, res: Response) => {
 
         res.json({
             success: true,
-            data: country
+            data: {
+                ...country,
+                verification: computeVerification(
+                    country.summary as unknown as CountrySummary,
+                    country.bulletMeta as BulletMeta[],
+                    country.citations as Citation[],
+                    country.locks as FieldLock[]
+                )
+            }
         });
     } catch (error) {
         console.error('Error fetching country:', error);
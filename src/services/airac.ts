@@ -0,0 +1,140 @@
+/**
+ * AIRAC Calendar - Official AIRAC cycle effective dates and identifiers (ICAO Annex 15)
+ *
+ * Cycles are 28 days long and take effect on a Thursday at 00:00 UTC, counted from the
+ * 29 January 1998 reference date. A cycle's identifier is the two-digit year of its
+ * effective date followed by its number within that year: 2601 takes effect on 2026-01-22.
+ *
+ * Update runs happen AIRAC_LEAD_DAYS before the effective date (default 0, negative
+ * values run after it) at AIRAC_RUN_HOUR_UTC (default 02).
+ */
+
+export const AIRAC_CYCLE_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CYCLE_MS = AIRAC_CYCLE_DAYS * DAY_MS;
+const AIRAC_EPOCH = Date.UTC(1998, 0, 29);  // Reference effective date (cycle 9802)
+
+// Longest range /api/airac will list (about 10 years)
+export const MAX_AIRAC_CYCLES = 131;
+
+export interface AiracCycle {
+    id: string;             // e.g. '2601'
+    year: number;
+    number: number;         // 1-based index within the year (up to 14)
+    effectiveDate: string;  // YYYY-MM-DD (00:00 UTC)
+    endDate: string;        // Last day of the cycle
+    runAt: string;          // When the scheduled update job for this cycle starts (ISO)
+}
+
+export function airacLeadDays(): number {
+    const days = Number(process.env.AIRAC_LEAD_DAYS ?? 0);
+    return Number.isFinite(days) ? Math.trunc(days) : 0;
+}
+
+export function airacRunHourUtc(): number {
+    const hour = Number(process.env.AIRAC_RUN_HOUR_UTC ?? 2);
+    return Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 2;
+}
+
+function toDateString(ms: number): string {
+    return new Date(ms).toISOString().slice(0, 10);
+}
+
+function runAtFor(effectiveMs: number): number {
+    return effectiveMs - airacLeadDays() * DAY_MS + airacRunHourUtc() * 60 * 60 * 1000;
+}
+
+/**
+ * Cycle with the given sequence index (0 = 9802)
+ */
+function cycleByIndex(index: number): AiracCycle {
+    const effective = AIRAC_EPOCH + index * CYCLE_MS;
+    const year = new Date(effective).getUTCFullYear();
+
+    // First cycle taking effect in that year
+    const firstIndex = Math.ceil((Date.UTC(year, 0, 1) - AIRAC_EPOCH) / CYCLE_MS);
+    const number = index - firstIndex + 1;
+
+    return {
+        id: `${String(year % 100).padStart(2, '0')}${String(number).padStart(2, '0')}`,
+        year,
+        number,
+        effectiveDate: toDateString(effective),
+        endDate: toDateString(effective + CYCLE_MS - DAY_MS),
+        runAt: new Date(runAtFor(effective)).toISOString()
+    };
+}
+
+function indexAt(date: Date): number {
+    return Math.floor((date.getTime() - AIRAC_EPOCH) / CYCLE_MS);
+}
+
+/**
+ * Cycle in effect at a date
+ */
+export function getAiracCycle(date: Date = new Date()): AiracCycle {
+    return cycleByIndex(indexAt(date));
+}
+
+/**
+ * Next cycle to take effect after a date
+ */
+export function getNextAiracCycle(date: Date = new Date()): AiracCycle {
+    return cycleByIndex(indexAt(date) + 1);
+}
+
+/**
+ * Index of the first cycle whose update run is after a date
+ */
+function nextRunIndex(date: Date): number {
+    // Runs can be up to a few cycles before (or after) the effective date
+    let index = indexAt(new Date(date.getTime() - runAtFor(0)));
+    while (runAtFor(AIRAC_EPOCH + index * CYCLE_MS) <= date.getTime()) index++;
+    while (runAtFor(AIRAC_EPOCH + (index - 1) * CYCLE_MS) > date.getTime()) index--;
+    return index;
+}
+
+/**
+ * Next scheduled update run after a date
+ */
+export function getNextAiracRun(date: Date = new Date()): AiracCycle {
+    return cycleByIndex(nextRunIndex(date));
+}
+
+/**
+ * Cycle whose update run covers a date: the one with the latest runAt at or before it.
+ * With a lead offset this is the upcoming cycle for the days between its run and its effective date.
+ */
+export function getAiracCycleForRun(date: Date = new Date()): AiracCycle {
+    return cycleByIndex(nextRunIndex(date) - 1);
+}
+
+/**
+ * Look up a cycle by identifier, e.g. '2601'. Returns null for unknown identifiers.
+ */
+export function getAiracCycleById(id: string): AiracCycle | null {
+    const match = /^(\d{2})(\d{2})$/.exec(id);
+    if (!match) return null;
+
+    // Two-digit years: 98-99 are 1998-1999, everything else 20xx
+    const yy = Number(match[1]);
+    const year = yy >= 98 ? 1900 + yy : 2000 + yy;
+    const number = Number(match[2]);
+    if (number < 1) return null;
+
+    const firstIndex = Math.ceil((Date.UTC(year, 0, 1) - AIRAC_EPOCH) / CYCLE_MS);
+    const cycle = cycleByIndex(firstIndex + number - 1);
+    return cycle.year === year ? cycle : null;
+}
+
+/**
+ * Cycles taking effect between two dates (inclusive), plus the one already in effect at `from`
+ */
+export function listAiracCycles(from: Date, to: Date): AiracCycle[] {
+    const cycles: AiracCycle[] = [];
+    for (let index = indexAt(from); index <= indexAt(to) && cycles.length < MAX_AIRAC_CYCLES; index++) {
+        cycles.push(cycleByIndex(index));
+    }
+    return cycles;
+}
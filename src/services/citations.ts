@@ -0,0 +1,213 @@
+/**
+ * Citation Service - Map LLM search grounding onto summary bullets and references
+ *
+ * Gemini returns grounding chunks as short-lived vertexaisearch.cloud.google.com redirect
+ * links. resolveGroundingRedirects swaps them for the pages they point to before anything
+ * is cached or stored; links that no longer resolve are blanked and never saved.
+ */
+
+import axios from 'axios';
+import { BULLET_SECTIONS } from './diff.js';
+import { fetchUserAgent } from './politeness.js';
+import type { CountrySummary, Reference, Citation, GroundingMetadata, GroundingChunk } from '../types/index.js';
+
+// Supports shorter than this are too generic to match by text alone
+const MIN_MATCH_LENGTH = 15;
+const MAX_REFERENCES = 10;
+
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+const REDIRECT_TIMEOUT_MS = 10000;
+
+const SCALAR_FIELDS = ['minimum_lead_time', 'primary_contact.phone', 'primary_contact.email', 'primary_contact.website'] as const;
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/\\[nrt"]/g, ' ').replace(/[^a-z0-9@.]+/g, ' ').trim();
+}
+
+function hostOf(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+        return '';
+    }
+}
+
+export function isGroundingRedirect(uri: string): boolean {
+    try {
+        return new URL(uri).hostname.toLowerCase() === GROUNDING_REDIRECT_HOST;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Final URL behind a grounding redirect link, or null if it has expired or can't be reached
+ */
+async function resolveRedirect(uri: string): Promise<string | null> {
+    try {
+        const response = await axios.get(uri, {
+            maxRedirects: 0,
+            timeout: REDIRECT_TIMEOUT_MS,
+            headers: { 'User-Agent': fetchUserAgent() },
+            validateStatus: status => status >= 300 && status < 400
+        });
+        const location = response.headers.location;
+        if (typeof location !== 'string') return null;
+
+        const target = new URL(location, uri).toString();
+        return isGroundingRedirect(target) ? null : target;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Replace grounding redirect links with the URLs they lead to. Chunks keep their positions
+ * (supports refer to them by index); a link that doesn't resolve gets an empty uri.
+ */
+export async function resolveGroundingRedirects(grounding: GroundingMetadata | undefined): Promise<GroundingMetadata | undefined> {
+    if (!grounding) return grounding;
+
+    const redirects = [...new Set(grounding.chunks.map(c => c.uri).filter(isGroundingRedirect))];
+    if (redirects.length === 0) return grounding;
+
+    const resolved = new Map(await Promise.all(redirects.map(async uri => [uri, await resolveRedirect(uri)] as const)));
+    const failed = [...resolved.values()].filter(url => url === null).length;
+    if (failed > 0) {
+        console.warn(`   ⚠️ ${failed}/${redirects.length} grounding links could not be resolved - dropped`);
+    }
+
+    return {
+        ...grounding,
+        chunks: grounding.chunks.map(c => resolved.has(c.uri) ? { ...c, uri: resolved.get(c.uri) || '' } : c)
+    };
+}
+
+/**
+ * Every citable text in a summary with the field it belongs to
+ */
+function citableTexts(summary: Partial<CountrySummary>): Array<{ section: string; text: string }> {
+    const texts: Array<{ section: string; text: string }> = [];
+
+    for (const field of SCALAR_FIELDS) {
+        const value = field.startsWith('primary_contact.')
+            ? summary.primary_contact?.[field.slice('primary_contact.'.length) as 'phone' | 'email' | 'website']
+            : summary[field as 'minimum_lead_time'];
+        if (value) texts.push({ section: field, text: value });
+    }
+
+    for (const section of BULLET_SECTIONS) {
+        for (const bullet of summary[section] || []) {
+            if (bullet) texts.push({ section, text: bullet });
+        }
+    }
+
+    return texts;
+}
+
+/**
+ * Byte range of a string value inside the raw response (grounding offsets are UTF-8 bytes)
+ */
+function byteRange(raw: Buffer, value: string): [number, number] | null {
+    const needle = Buffer.from(JSON.stringify(value).slice(1, -1));
+    const start = raw.indexOf(needle);
+    return start === -1 ? null : [start, start + needle.length];
+}
+
+/**
+ * Attach grounding chunks to the bullets they support.
+ * A support matches a bullet when their response offsets overlap, or failing that when
+ * one text contains the other.
+ */
+export function mapGroundingToSummary(
+    rawResponse: string,
+    summary: Partial<CountrySummary>,
+    grounding: GroundingMetadata | undefined
+): Citation[] {
+    if (!grounding || grounding.supports.length === 0 || grounding.chunks.length === 0) return [];
+
+    const raw = Buffer.from(rawResponse);
+    const citations: Citation[] = [];
+
+    for (const { section, text } of citableTexts(summary)) {
+        const range = byteRange(raw, text);
+        const normalizedText = normalize(text);
+        const chunkIndices = new Set<number>();
+        let confidence: number | undefined;
+
+        for (const support of grounding.supports) {
+            const overlaps = range
+                && support.startIndex !== undefined && support.endIndex !== undefined
+                && support.startIndex < range[1] && support.endIndex > range[0];
+
+            const normalizedSupport = normalize(support.text || '');
+            const contains = normalizedSupport.length >= MIN_MATCH_LENGTH && normalizedText.length >= MIN_MATCH_LENGTH
+                && (normalizedText.includes(normalizedSupport) || normalizedSupport.includes(normalizedText));
+
+            if (!overlaps && !contains) continue;
+
+            support.chunkIndices.forEach((idx, i) => {
+                if (!grounding.chunks[idx]?.uri) return;
+                chunkIndices.add(idx);
+                const score = support.confidenceScores?.[i];
+                if (score !== undefined) confidence = Math.max(confidence ?? 0, score);
+            });
+        }
+
+        if (chunkIndices.size > 0) {
+            citations.push({
+                section,
+                text,
+                sources: [...chunkIndices].sort((a, b) => a - b).map(idx => grounding.chunks[idx]),
+                confidence
+            });
+        }
+    }
+
+    return citations;
+}
+
+/**
+ * Replace LLM-written references with the pages search grounding actually retrieved.
+ * LLM references are kept only when their host matches a retrieved page.
+ * Expects resolved grounding (see resolveGroundingRedirects) - redirect links are never
+ * used as references. Without usable grounding the references are returned unchanged.
+ */
+export function groundedReferences(references: Reference[], grounding: GroundingMetadata | undefined): Reference[] {
+    const chunks = (grounding?.chunks || []).filter(c => c.uri && !isGroundingRedirect(c.uri));
+    if (chunks.length === 0) return references;
+
+    // Gemini chunk titles are usually the source domain
+    const chunkHosts = (c: GroundingChunk) => [hostOf(c.uri), c.title.toLowerCase().replace(/^www\./, '')].filter(Boolean);
+    const retrievedHosts = new Set(chunks.flatMap(chunkHosts));
+    const kept = references.filter(r => retrievedHosts.has(hostOf(r.url)));
+    const keptHosts = new Set(kept.map(r => hostOf(r.url)));
+
+    const fetchedAt = new Date().toISOString();
+    const seen = new Set<string>();
+    const retrieved = chunks.filter(c => {
+        if (seen.has(c.uri)) return false;
+        seen.add(c.uri);
+        return !chunkHosts(c).some(host => keptHosts.has(host));
+    });
+
+    const result = [
+        ...kept,
+        ...retrieved.map(c => ({
+            id: '',
+            title: c.title || hostOf(c.uri),
+            url: c.uri,
+            fetchedAt
+        }))
+    ].slice(0, MAX_REFERENCES);
+
+    return result.map((r, idx) => ({ ...r, id: `ref-${idx + 1}` }));
+}
+
+/**
+ * Keep only citations whose text is still present in the summary
+ */
+export function filterCitations(citations: Citation[], summary: Partial<CountrySummary>): Citation[] {
+    const present = new Set(citableTexts(summary).map(t => `${t.section}\u0000${t.text}`));
+    return citations.filter(c => present.has(`${c.section}\u0000${c.text}`));
+}
@@ -1,4 +1,5 @@
 import { computeHash } from './fetcher.js';
+import type { CountrySummary, AuthorityContact, Reference } from '../types/index.js';
 
 /**
  * Compare two hashes to determine if content changed
@@ -31,3 +32,428 @@ export function diffTexts(oldText: string, newText: string): {
         newHash
     };
 }
+
+// ============================================================
+// STRUCTURED SUMMARY DIFF
+// ============================================================
+
+/**
+ * Bullet-list sections of a CountrySummary, in display order
+ */
+export const BULLET_SECTIONS = [
+    'status',
+    'permit_and_conditions',
+    'overflight_permits',
+    'landing_permits',
+    'israel_limitation',
+    'key_extracts',
+    'ops_notes',
+    'ops_checklist',
+    'additional_notes'
+] as const;
+
+export type BulletSection = typeof BULLET_SECTIONS[number];
+
+const SCALAR_FIELDS = ['minimum_lead_time', 'icao_doc_url', 'state_rules_url'] as const;
+const PRIMARY_CONTACT_FIELDS = ['phone', 'email', 'website'] as const;
+const AUTHORITY_CONTACT_FIELDS = ['role', 'phone', 'email', 'url'] as const;
+
+// Bullets at least this similar are reported as modified instead of removed + added
+const MODIFIED_SIMILARITY_THRESHOLD = 0.5;
+
+export interface FieldChange {
+    field: string;
+    from: string;
+    to: string;
+}
+
+export interface SectionDiff {
+    added: string[];
+    removed: string[];
+    modified: Array<{ from: string; to: string; similarity: number }>;
+    unchanged: number;
+}
+
+export interface SummaryDiff {
+    changed: boolean;
+    fields: FieldChange[];
+    sections: Partial<Record<BulletSection, SectionDiff>>;
+    authorities_contacts: {
+        added: AuthorityContact[];
+        removed: AuthorityContact[];
+        modified: Array<{ name: string; changes: FieldChange[] }>;
+    };
+    references: {
+        added: Reference[];
+        removed: Reference[];
+    };
+}
+
+function normalize(text: unknown): string {
+    return String(text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9@.]+/).filter(Boolean);
+}
+
+/**
+ * Dice coefficient over word tokens (0 = nothing in common, 1 = same words)
+ */
+export function textSimilarity(a: string, b: string): number {
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    if (tokensA.length === 0 && tokensB.length === 0) return 1;
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    for (const t of tokensA) counts.set(t, (counts.get(t) || 0) + 1);
+
+    let shared = 0;
+    for (const t of tokensB) {
+        const n = counts.get(t) || 0;
+        if (n > 0) {
+            shared++;
+            counts.set(t, n - 1);
+        }
+    }
+
+    return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Diff two bullet lists: exact matches are unchanged, the closest remaining pairs are
+ * modified, everything else is added or removed
+ */
+export function diffBullets(oldBullets: string[] = [], newBullets: string[] = []): SectionDiff {
+    const removed = oldBullets.map(normalize).filter(Boolean);
+    const added: string[] = [];
+    let unchanged = 0;
+
+    for (const bullet of newBullets.map(normalize).filter(Boolean)) {
+        const idx = removed.indexOf(bullet);
+        if (idx !== -1) {
+            removed.splice(idx, 1);
+            unchanged++;
+        } else {
+            added.push(bullet);
+        }
+    }
+
+    // Greedily pair the most similar remaining bullets
+    const candidates: Array<{ from: number; to: number; similarity: number }> = [];
+    for (let i = 0; i < removed.length; i++) {
+        for (let j = 0; j < added.length; j++) {
+            const similarity = textSimilarity(removed[i], added[j]);
+            if (similarity >= MODIFIED_SIMILARITY_THRESHOLD) {
+                candidates.push({ from: i, to: j, similarity });
+            }
+        }
+    }
+    candidates.sort((a, b) => b.similarity - a.similarity);
+
+    const usedFrom = new Set<number>();
+    const usedTo = new Set<number>();
+    const modified: SectionDiff['modified'] = [];
+
+    for (const c of candidates) {
+        if (usedFrom.has(c.from) || usedTo.has(c.to)) continue;
+        usedFrom.add(c.from);
+        usedTo.add(c.to);
+        modified.push({
+            from: removed[c.from],
+            to: added[c.to],
+            similarity: Math.round(c.similarity * 100) / 100
+        });
+    }
+
+    return {
+        added: added.filter((_, j) => !usedTo.has(j)),
+        removed: removed.filter((_, i) => !usedFrom.has(i)),
+        modified,
+        unchanged
+    };
+}
+
+function contactKey(contact: AuthorityContact): string {
+    return normalize(contact.name).toLowerCase();
+}
+
+function referenceKey(ref: Reference): string {
+    return normalize(ref.url).toLowerCase().replace(/\/+$/, '') || normalize(ref.title).toLowerCase();
+}
+
+/**
+ * Section-level diff between two country summaries
+ */
+export function diffSummaries(
+    oldSummary: Partial<CountrySummary> | null | undefined,
+    newSummary: Partial<CountrySummary> | null | undefined
+): SummaryDiff {
+    const from = oldSummary || {};
+    const to = newSummary || {};
+
+    // Scalar fields
+    const fields: FieldChange[] = [];
+    for (const field of SCALAR_FIELDS) {
+        const a = normalize(from[field]);
+        const b = normalize(to[field]);
+        if (a !== b) fields.push({ field, from: a, to: b });
+    }
+    for (const field of PRIMARY_CONTACT_FIELDS) {
+        const a = normalize(from.primary_contact?.[field]);
+        const b = normalize(to.primary_contact?.[field]);
+        if (a !== b) fields.push({ field: `primary_contact.${field}`, from: a, to: b });
+    }
+
+    // Bullet sections - only sections with changes are reported
+    const sections: SummaryDiff['sections'] = {};
+    for (const section of BULLET_SECTIONS) {
+        const d = diffBullets(from[section], to[section]);
+        if (d.added.length || d.removed.length || d.modified.length) {
+            sections[section] = d;
+        }
+    }
+
+    // Authority contacts - matched by name
+    const oldContacts = new Map((from.authorities_contacts || []).map(c => [contactKey(c), c]));
+    const newContacts = new Map((to.authorities_contacts || []).map(c => [contactKey(c), c]));
+    const contacts: SummaryDiff['authorities_contacts'] = { added: [], removed: [], modified: [] };
+
+    for (const [key, contact] of newContacts) {
+        const previous = oldContacts.get(key);
+        if (!previous) {
+            contacts.added.push(contact);
+            continue;
+        }
+        const changes: FieldChange[] = [];
+        for (const field of AUTHORITY_CONTACT_FIELDS) {
+            const a = normalize(previous[field]);
+            const b = normalize(contact[field]);
+            if (a !== b) changes.push({ field, from: a, to: b });
+        }
+        if (changes.length > 0) {
+            contacts.modified.push({ name: normalize(contact.name), changes });
+        }
+    }
+    for (const [key, contact] of oldContacts) {
+        if (!newContacts.has(key)) contacts.removed.push(contact);
+    }
+
+    // References - matched by URL
+    const oldRefs = new Map((from.references || []).map(r => [referenceKey(r), r]));
+    const newRefs = new Map((to.references || []).map(r => [referenceKey(r), r]));
+    const references: SummaryDiff['references'] = {
+        added: [...newRefs].filter(([key]) => !oldRefs.has(key)).map(([, r]) => r),
+        removed: [...oldRefs].filter(([key]) => !newRefs.has(key)).map(([, r]) => r)
+    };
+
+    const changed = fields.length > 0
+        || Object.keys(sections).length > 0
+        || contacts.added.length > 0 || contacts.removed.length > 0 || contacts.modified.length > 0
+        || references.added.length > 0 || references.removed.length > 0;
+
+    return { changed, fields, sections, authorities_contacts: contacts, references };
+}
+
+// ============================================================
+// SOURCE TEXT DIFF
+// ============================================================
+
+export type TextDiffGranularity = 'line' | 'paragraph' | 'sentence';
+
+export const TEXT_DIFF_GRANULARITIES: TextDiffGranularity[] = ['line', 'paragraph', 'sentence'];
+
+// Edit distance beyond which the diff gives up and reports the changed region wholesale.
+// The trace grows with its square (about 4 * D^2 bytes), so this also caps memory at ~16MB.
+const MAX_TEXT_DIFF_EDITS = 2000;
+
+export interface TextDiffLine {
+    op: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+export interface TextDiffHunk {
+    oldStart: number;   // 1-based unit index in the old text
+    newStart: number;   // 1-based unit index in the new text
+    lines: TextDiffLine[];
+}
+
+export interface TextDiff {
+    granularity: TextDiffGranularity;
+    changed: boolean;
+    stats: { added: number; removed: number; unchanged: number };
+    hunks: TextDiffHunk[];
+    approximate: boolean;   // Too many edits for an exact diff - the changed region is shown whole
+}
+
+/**
+ * Split text into comparable units. Lines and paragraphs keep PDF layout; sentences suit
+ * extracted HTML, which is collapsed onto a single line.
+ */
+export function splitTextUnits(text: string, granularity: TextDiffGranularity): string[] {
+    if (granularity === 'paragraph') {
+        return text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    }
+    if (granularity === 'sentence') {
+        return text.replace(/\s+/g, ' ').split(/(?<=[.!?;:])\s+(?=[A-Z0-9("'])/).map(s => s.trim()).filter(Boolean);
+    }
+    return text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Myers O(ND) diff of two unit arrays. Returns null if the edit distance exceeds maxEdits.
+ * Memory is O(D^2) in the edit distance: round d keeps only diagonals -d..d of the frontier.
+ */
+function myersDiff(a: string[], b: string[], maxEdits: number): TextDiffLine[] | null {
+    const n = a.length;
+    const m = b.length;
+
+    // Every extra unit on one side is an edit, so a length gap beyond the cap can't fit
+    if (Math.abs(n - m) > maxEdits) return null;
+
+    const max = Math.min(n + m, maxEdits);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];     // trace[d][d + k] - frontier on diagonal k before round d
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(a, b, trace, d);
+            }
+        }
+    }
+
+    return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], dEnd: number): TextDiffLine[] {
+    const lines: TextDiffLine[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = dEnd; d > 0; d--) {
+        const v = trace[d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && v[d + k - 1] < v[d + k + 1]) ? k + 1 : k - 1;
+        const prevX = v[d + prevK];
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            lines.push({ op: 'equal', text: a[--x] });
+            y--;
+        }
+        if (x === prevX) lines.push({ op: 'added', text: b[--y] });
+        else lines.push({ op: 'removed', text: a[--x] });
+    }
+    while (x > 0 && y > 0) {
+        lines.push({ op: 'equal', text: a[--x] });
+        y--;
+    }
+
+    return lines.reverse();
+}
+
+/**
+ * Line/paragraph/sentence diff of two source texts, grouped into hunks with `context`
+ * unchanged units around each change
+ */
+export function diffSourceTexts(
+    oldText: string,
+    newText: string,
+    options?: { granularity?: TextDiffGranularity; context?: number }
+): TextDiff {
+    // Extracted HTML has no line breaks - compare sentences unless told otherwise
+    const granularity = options?.granularity
+        || (oldText.includes('\n') || newText.includes('\n') ? 'line' : 'sentence');
+    const context = Math.max(0, options?.context ?? 2);
+
+    const a = splitTextUnits(oldText, granularity);
+    const b = splitTextUnits(newText, granularity);
+
+    // Amendments are usually small: strip the common prefix and suffix before diffing
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix
+        && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const exact = myersDiff(midA, midB, MAX_TEXT_DIFF_EDITS);
+    const middle = exact || [
+        ...midA.map(text => ({ op: 'removed' as const, text })),
+        ...midB.map(text => ({ op: 'added' as const, text }))
+    ];
+
+    const lines: TextDiffLine[] = [
+        ...a.slice(0, prefix).map(text => ({ op: 'equal' as const, text })),
+        ...middle,
+        ...a.slice(a.length - suffix).map(text => ({ op: 'equal' as const, text }))
+    ];
+
+    // Group changes into hunks, merging those closer than 2 * context
+    const hunks: TextDiffHunk[] = [];
+    let oldIdx = 0;
+    let newIdx = 0;
+    let current: TextDiffHunk | null = null;
+    let trailingEqual = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.op !== 'equal') {
+            if (!current) {
+                const lead = lines.slice(Math.max(0, i - context), i);
+                current = {
+                    oldStart: oldIdx - lead.length + 1,
+                    newStart: newIdx - lead.length + 1,
+                    lines: [...lead]
+                };
+                hunks.push(current);
+            }
+            current.lines.push(line);
+            trailingEqual = 0;
+        } else if (current) {
+            if (trailingEqual < 2 * context && lines.slice(i, i + context + 1).some(l => l.op !== 'equal')) {
+                current.lines.push(line);
+                trailingEqual++;
+            } else if (trailingEqual < context) {
+                current.lines.push(line);
+                trailingEqual++;
+            } else {
+                current = null;
+                trailingEqual = 0;
+            }
+        }
+
+        if (line.op !== 'added') oldIdx++;
+        if (line.op !== 'removed') newIdx++;
+    }
+
+    const stats = {
+        added: lines.filter(l => l.op === 'added').length,
+        removed: lines.filter(l => l.op === 'removed').length,
+        unchanged: lines.filter(l => l.op === 'equal').length
+    };
+
+    return {
+        granularity,
+        changed: stats.added > 0 || stats.removed > 0,
+        stats,
+        hunks,
+        approximate: !exact
+    };
+}
@@ -1,14 +1,23 @@
-import axios from 'axios';
+import axios, { AxiosError } from 'axios';
+import type { AxiosResponse } from 'axios';
 import crypto from 'crypto';
 import pdfParse from 'pdf-parse';
 import * as cheerio from 'cheerio';
 import { SourceModel } from '../models/Source.js';
-import type { Source } from '../types/index.js';
+import { indexSource } from './search_index.js';
+import { saveSnapshot, touchLatestSnapshot, toHeaderRecord } from './snapshots.js';
+import {
+    withHostSlot, deferHost, assertRobotsAllowed, fetchUserAgent, fetchConcurrency, hostOf, RobotsDisallowedError
+} from './politeness.js';
+import { recordFetchFailure, recordFetchSuccess, dueSourcesQuery } from './source_health.js';
+import { markSourceChanges } from './source_changes.js';
+import type { Source, SourceRedirect } from '../types/index.js';
 
 export interface FetchResult {
     text: string;
     hash: string;
     changed: boolean;
+    notModified?: boolean;  // Server answered 304 to a conditional request
 }
 
 /**
@@ -67,10 +76,55 @@ async function extractText(buffer: Buffer, contentType: string): Promise<string>
     return buffer.toString('utf-8');
 }
 
+// Same limit axios applies when it follows redirects itself
+const MAX_REDIRECTS = 5;
+
+/**
+ * GET a URL, following redirects one hop at a time so that every hop goes through the
+ * robots.txt check and its own host's rate limit. Returns the final response and the hops.
+ */
+async function getFollowingRedirects(
+    url: string,
+    headers: Record<string, string>
+): Promise<{ response: AxiosResponse; hops: Array<{ statusCode: number; url: string }> }> {
+    const hops: Array<{ statusCode: number; url: string }> = [];
+    let current = url;
+
+    for (;;) {
+        await assertRobotsAllowed(current);
+
+        const target = current;
+        const response = await withHostSlot(target, () => axios.get(target, {
+            responseType: 'arraybuffer',
+            timeout: 60000, // 60 second timeout
+            headers,
+            maxRedirects: 0,
+            // Accept any 2xx or 3xx status
+            validateStatus: (status) => status >= 200 && status < 400
+        }));
+
+        const location = response.headers['location'];
+        if (response.status < 300 || response.status === 304 || !location) {
+            return { response, hops };
+        }
+        if (hops.length >= MAX_REDIRECTS) {
+            throw new AxiosError(`Maximum number of redirects exceeded (${MAX_REDIRECTS})`, 'ERR_FR_TOO_MANY_REDIRECTS');
+        }
+
+        current = new URL(String(location), target).toString();
+        hops.push({ statusCode: response.status, url: current });
+    }
+}
+
 /**
  * Fetch a source URL, extract text, compute hash, and update database
  * Options:
  *   - forceRefetch: If true, refetch even if extractedText already exists
+ * Refetches are conditional on the stored ETag/Last-Modified; a 304 counts as unchanged.
+ * Requests (and every redirect hop) go through the per-host rate limit and are refused if
+ * robots.txt disallows them.
+ * Every outcome is recorded in Source.health (failures also in source_failures).
+ * Any failed fetch throws - including a 404 for a source with stored text, which is kept.
  */
 export async function fetchAndExtractSource(
     source: Source & { _id: unknown },
@@ -89,21 +143,54 @@ export async function fetchAndExtractSource(
     }
 
     try {
+        // Only ask for "changes since" when there is stored text to fall back on
+        const headers: Record<string, string> = { 'User-Agent': fetchUserAgent() };
+        const hasText = !!source.extractedText && source.extractedText.length > 0;
+        if (hasText && source.etag) headers['If-None-Match'] = source.etag;
+        if (hasText && source.lastModified) headers['If-Modified-Since'] = source.lastModified;
+
         console.log(`   📥 Fetching: ${source.url.substring(0, 50)}...`);
 
-        // Fetch the resource
-        const response = await axios.get(source.url, {
-            responseType: 'arraybuffer',
-            timeout: 60000, // 60 second timeout
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-            },
-            // Accept any 2xx or 3xx status
-            validateStatus: (status) => status >= 200 && status < 400
-        });
+        // Fetch the resource, noting each redirect hop
+        const { response, hops } = await getFollowingRedirects(source.url, headers);
+
+        const redirect: SourceRedirect | undefined = hops.length > 0
+            ? {
+                url: hops[hops.length - 1].url,
+                statusCode: hops[0].statusCode,
+                permanent: hops.every(h => h.statusCode === 301 || h.statusCode === 308),
+                hops: hops.length,
+                detectedAt: new Date().toISOString()
+            }
+            : undefined;
+
+        if (response.status === 304 && hasText) {
+            await SourceModel.findByIdAndUpdate(source._id, {
+                $set: {
+                    lastFetched: new Date().toISOString(),
+                    status: 'active'
+                }
+            });
+            await recordFetchSuccess(source, redirect);
+            try {
+                await touchLatestSnapshot(source._id);
+            } catch (snapshotError) {
+                console.error(`   ⚠️ ${source.title}: Snapshot update failed -`, snapshotError);
+            }
+
+            console.log(`   ✅ ${source.title}: Not modified (304)`);
+            return {
+                text: source.extractedText || '',
+                hash: source.hash,
+                changed: false,
+                notModified: true
+            };
+        }
 
         const buffer = Buffer.from(response.data);
-        const contentType = response.headers['content-type'] || 'text/html';
+        const contentType = String(response.headers['content-type'] || 'text/html');
+        const etag = response.headers['etag'] ? String(response.headers['etag']) : undefined;
+        const lastModified = response.headers['last-modified'] ? String(response.headers['last-modified']) : undefined;
 
         // Extract text
         const text = await extractText(buffer, contentType);
@@ -118,35 +205,92 @@ export async function fetchAndExtractSource(
         // Check if content changed
         const changed = hash !== source.hash;
 
-        // Update source document
+        // Update source document - validators the server didn't send are cleared
         await SourceModel.findByIdAndUpdate(source._id, {
             $set: {
                 extractedText: text,
                 hash: hash,
                 lastFetched: new Date().toISOString(),
-                status: 'active'
-            }
+                status: 'active',
+                ...(etag && { etag }),
+                ...(lastModified && { lastModified })
+            },
+            ...((!etag || !lastModified) && {
+                $unset: { ...(!etag && { etag: 1 }), ...(!lastModified && { lastModified: 1 }) }
+            })
         });
 
         console.log(`   ✅ ${source.title}: ${changed ? 'CHANGED' : 'No change'} (${text.length} chars)`);
+        await recordFetchSuccess(source, redirect);
+
+        // Archive the fetch - snapshot problems never fail the fetch either
+        try {
+            const snapshot = await saveSnapshot(source, {
+                buffer,
+                contentType,
+                httpHeaders: toHeaderRecord(response.headers),
+                text,
+                hash
+            });
+            if (snapshot.created) {
+                console.log(`   🗄️ ${source.title}: Saved snapshot ${snapshot.snapshotId}`);
+            }
+        } catch (snapshotError) {
+            console.error(`   ⚠️ ${source.title}: Snapshot failed -`, snapshotError);
+        }
+
+        // Keep the passage search index in sync - indexing problems never fail the fetch
+        try {
+            const indexed = await indexSource({
+                _id: source._id,
+                title: source.title,
+                type: source.type,
+                countries: source.countries,
+                hash,
+                extractedText: text
+            });
+            if (!indexed.skipped) {
+                console.log(`   🗂️ ${source.title}: Indexed ${indexed.chunks} chunks`);
+            }
+        } catch (indexError) {
+            console.error(`   ⚠️ ${source.title}: Indexing failed -`, indexError);
+        }
+
+        // Later fetches compare against the new hash, so flag the countries for regeneration
+        // now - once the text and its passages are in place for the draft to read
+        if (changed) {
+            await markSourceChanges(source.countries);
+        }
+
         return { text, hash, changed };
     } catch (error) {
         // Log error but don't crash
         const errMsg = error instanceof Error ? error.message : 'Unknown error';
         console.error(`   ❌ ${source.title}: Failed - ${errMsg}`);
 
-        // Check if it's a 404 specifically
+        // Failure history - recording problems never hide the fetch error
+        try {
+            await recordFetchFailure(source, error);
+        } catch (healthError) {
+            console.error(`   ⚠️ ${source.title}: Failed to record failure -`, healthError);
+        }
+
+        if (error instanceof RobotsDisallowedError) {
+            console.log(`      🤖 Tip: robots.txt disallows our User-Agent (${fetchUserAgent()}) for this URL.`);
+        }
+
+        // Rate limited - keep away from the host for as long as it asks
+        if (axios.isAxiosError(error) && (error.response?.status === 429 || error.response?.status === 503)) {
+            const retryAfter = error.response.headers['retry-after'];
+            const waitMs = deferHost(source.url, retryAfter ? String(retryAfter) : undefined);
+            console.log(`      ⏳ ${hostOf(source.url)} returned ${error.response.status} - backing off ${Math.round(waitMs / 1000)}s`);
+        }
+
+        // A 404 is still a failed fetch (it counts towards the backoff), but stored text stays usable
         if (axios.isAxiosError(error) && error.response?.status === 404) {
             console.log(`      💡 Tip: URL returned 404. The source may have pre-populated text that can be used directly.`);
-
-            // If the source already has extractedText, don't mark as error
             if (source.extractedText && source.extractedText.length > 0) {
-                console.log(`      📄 Using existing extractedText (${source.extractedText.length} chars)`);
-                return {
-                    text: source.extractedText,
-                    hash: source.hash,
-                    changed: false
-                };
+                console.log(`      📄 Keeping existing extractedText (${source.extractedText.length} chars)`);
             }
         }
 
@@ -164,31 +308,123 @@ export async function fetchAndExtractSource(
     }
 }
 
+/**
+ * Outcome of one source in fetchAllSources, reported through `onResult`
+ */
+export interface SourceFetchOutcome {
+    source: Source & { _id: unknown };
+    status: 'changed' | 'unchanged' | 'not_modified' | 'failed' | 'deferred';
+    error?: string;
+    duration?: number;
+}
+
 /**
  * Fetch all sources and check for changes
+ * Options:
+ *   - forceRefetch: Refetch sources that already have extracted text (needed to detect changes)
+ *   - onResult: Called after each source (and once per source still backing off, as 'deferred')
+ *   - shouldStop: Checked before each source - stops the run early (e.g. the job was cancelled)
+ * Returns the ISO3 codes of every country linked to a changed source.
+ *
+ * Up to FETCH_CONCURRENCY sources (default 4) are fetched at once, taken round-robin across
+ * hosts so that the per-host limit holds back one slow host rather than the whole run.
+ * Failing sources (including errored ones) are only re-checked once their backoff has passed.
  */
-export async function fetchAllSources(): Promise<{
+export async function fetchAllSources(options?: {
+    forceRefetch?: boolean;
+    onResult?: (outcome: SourceFetchOutcome) => Promise<void>;
+    shouldStop?: () => boolean;
+}): Promise<{
     checked: number;
     changed: number;
+    notModified: number;
     errors: number;
+    deferred: number;
+    changedCountries: string[];
 }> {
-    const sources = await SourceModel.find({ status: { $ne: 'error' } });
-
-    let checked = 0;
-    let changed = 0;
-    let errors = 0;
+    const sources = await SourceModel.find(dueSourcesQuery());
+    const backingOff = await SourceModel.find({ 'health.nextCheckAt': { $gt: new Date().toISOString() } })
+        .select('-extractedText')
+        .lean();
+    if (backingOff.length > 0) {
+        console.log(`   🩺 ${backingOff.length} failing source(s) not due for a re-check yet`);
+        for (const source of backingOff) {
+            await options?.onResult?.({
+                source,
+                status: 'deferred',
+                error: `Backing off until ${source.health?.nextCheckAt}`
+            });
+        }
+    }
 
+    // Interleave hosts: a1, b1, c1, a2, b2, ...
+    const byHost = new Map<string, typeof sources>();
     for (const source of sources) {
+        let host: string;
         try {
-            const result = await fetchAndExtractSource(source);
-            checked++;
-            if (result.changed) changed++;
+            host = hostOf(source.url);
         } catch {
-            errors++;
+            host = source.url;
         }
+        byHost.set(host, [...(byHost.get(host) || []), source]);
+    }
+    const lanes = [...byHost.values()];
+    const ordered: typeof sources = [];
+    for (let i = 0; ordered.length < sources.length; i++) {
+        lanes.forEach(lane => lane[i] && ordered.push(lane[i]));
     }
 
-    return { checked, changed, errors };
+    let checked = 0;
+    let changed = 0;
+    let notModified = 0;
+    let errors = 0;
+    const changedCountries = new Set<string>();
+    let next = 0;
+
+    const fetchNext = async (): Promise<void> => {
+        while (next < ordered.length && !options?.shouldStop?.()) {
+            const source = ordered[next++];
+            const startTime = Date.now();
+            let outcome: SourceFetchOutcome;
+
+            try {
+                const result = await fetchAndExtractSource(source, { forceRefetch: options?.forceRefetch });
+
+                checked++;
+                if (result.notModified) notModified++;
+                if (result.changed) {
+                    changed++;
+                    source.countries.forEach(iso3 => changedCountries.add(iso3.toUpperCase()));
+                }
+                outcome = {
+                    source,
+                    status: result.changed ? 'changed' : result.notModified ? 'not_modified' : 'unchanged',
+                    duration: Date.now() - startTime
+                };
+            } catch (error) {
+                errors++;
+                outcome = {
+                    source,
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    duration: Date.now() - startTime
+                };
+            }
+
+            await options?.onResult?.(outcome);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(fetchConcurrency(), ordered.length) }, fetchNext));
+
+    return {
+        checked,
+        changed,
+        notModified,
+        errors,
+        deferred: backingOff.length,
+        changedCountries: [...changedCountries].sort()
+    };
 }
 
 /**
@@ -199,6 +435,7 @@ export async function getSourceTextsForCountry(iso3: string): Promise<{
     metadata: Array<{
         id: string;
         title: string;
+        type: string;
         url: string;
         fetchedAt: string;
         hash: string;
@@ -214,6 +451,7 @@ export async function getSourceTextsForCountry(iso3: string): Promise<{
     const metadata = sources.map(s => ({
         id: s._id?.toString() || '',
         title: s.title,
+        type: s.type,
         url: s.url,
         fetchedAt: s.lastFetched || new Date().toISOString(),
         hash: s.hash
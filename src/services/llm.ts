@@ -1,11 +1,27 @@
 /**
- * LLM Service - Generate country summaries using Google Gemini API with Google Search Grounding
+ * LLM Service - Generate country summaries through the configured LLM provider
+ * (Google Gemini with Google Search Grounding by default - see services/providers)
  * OPTIMIZED VERSION with improved accuracy and reliability
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { SourceModel } from '../models/Source.js';
 import { AiRequestModel } from '../models/AiRequest.js';
+import { CountryModel } from '../models/Country.js';
+import { applyCountryLocks } from './locks.js';
+import { getSourceTextsForCountry } from './fetcher.js';
+import { mapGroundingToSummary, groundedReferences, resolveGroundingRedirects } from './citations.js';
+import { selectPassages, formatPassagesForPrompt } from './retrieval.js';
+import { validateLlmOutput, buildRepairPrompt, LlmOutputError } from './llm_schema.js';
+import type { ValidatedLlmOutput } from './llm_schema.js';
+import { extractBulletMeta, applyCitationConfidence, filterBulletMeta } from './verification.js';
+import { resolvePromptTemplate, renderTemplate, templateRef, COUNTRY_BRIEF_TEMPLATE } from './prompts.js';
+import { buildSectionPrompts, generateSections } from './sectioned_generation.js';
+import { buildCacheKey, getCachedResponse, storeCachedResponse, sourceHashes } from './llm_cache.js';
+import { clearSourceChanges } from './source_changes.js';
+import type { RetrievedPassage, SourceDocument } from './retrieval.js';
+import { getLlmProvider, LlmProviderError } from './providers/index.js';
+import type { LlmGenerateResult } from './providers/index.js';
+import type { LockConflict, Citation, PromptTemplateRef, GenerationMode, GroundingMetadata, LlmCallRecord } from '../types/index.js';
 
 // TypeScript interfaces for the LLM output
 interface PrimaryContact {
@@ -116,6 +132,7 @@ function fixUrl(url: string): string {
 }
 
 // Streamlined prompt with clearer structure and expectations
+// Built-in template (version 0) - used until a country_brief template is activated
 const GROUNDING_PROMPT = `You are compiling operational intelligence for aviation cargo operators. Your task is to produce a factual regulatory brief for the carriage, transit, import, export, and overflight of munitions of war (weapons, ammunition, explosives, military material) by air.
 
 RESEARCH PROTOCOL:
@@ -222,7 +239,7 @@ CRITICAL VALIDATION RULES:
 1. minimum_lead_time MUST contain numbers (days/weeks) - estimate if exact unknown
 2. Every bullet point must have specific actionable information - no placeholders
 3. Use "->" prefix for all bullet points
-4. If information unverified, include it with [verify] tag but never leave sections empty
+4. If information unverified, include it with a [verify] tag at the end of the bullet but never leave sections empty
 5. All URLs must be real from search results - no placeholders
 6. primary_contact must be the permit office from AIP GEN 1.2/1.4
 7. operational_guidance combines procedures, checklists, and practical notes
@@ -234,113 +251,174 @@ CRITICAL VALIDATION RULES:
 Generate the brief for:`;
 
 /**
- * Build the full prompt
+ * Build the full prompt, with curated source excerpts when the country has any
  */
-function buildPrompt(country: string, iso3: string): string {
-    return `${GROUNDING_PROMPT}\nCountry: ${country}\nISO3 Code: ${iso3}`;
+function buildPrompt(
+    country: string,
+    iso3: string,
+    passages: RetrievedPassage[] = [],
+    instructions: string = GROUNDING_PROMPT
+): string {
+    const prompt = `${instructions}\nCountry: ${country}\nISO3 Code: ${iso3}`;
+    const excerpts = formatPassagesForPrompt(passages);
+    return excerpts ? `${prompt}\n\n${excerpts}` : prompt;
 }
 
 /**
- * Call Gemini API with fallback models and optimized settings
+ * Pick the prompt instructions for a country from the template registry.
+ * Version 0 always means the built-in GROUNDING_PROMPT.
  */
-async function callGeminiApi(prompt: string): Promise<string> {
-    const apiKey = process.env.LLM_API_KEY;
-
-    if (!apiKey) {
-        throw new Error('LLM_API_KEY environment variable not set. Get your key from https://aistudio.google.com/app/apikey');
+async function resolveInstructions(
+    country: string,
+    iso3: string,
+    region: string,
+    version?: number
+): Promise<{ instructions: string; template: PromptTemplateRef }> {
+    const builtin = { instructions: GROUNDING_PROMPT, template: { name: COUNTRY_BRIEF_TEMPLATE, version: 0 } };
+    if (version === 0) return builtin;
+
+    const template = await resolvePromptTemplate(COUNTRY_BRIEF_TEMPLATE, { version, region });
+    if (!template) {
+        if (version !== undefined) {
+            throw new Error(`Prompt template ${COUNTRY_BRIEF_TEMPLATE} v${version} not found`);
+        }
+        return builtin;
     }
 
-    // Fallback models in priority order
-    const primaryModel = process.env.LLM_MODEL || 'gemini-2.5-flash-lite';
-    const fallbackModels = [
-        primaryModel,
-        'gemini-2.5-flash-lite',
-        'gemini-2.5-flash',
-        'gemini-2.5-flash-preview-09-2025',
-    ].filter((m, i, arr) => arr.indexOf(m) === i); // Remove duplicates if primary is in list
+    return {
+        instructions: renderTemplate(template.body, { country, iso3, region }),
+        template: templateRef(template)
+    };
+}
 
-    let lastError: Error | null = null;
+/**
+ * Record one provider call on the AiRequest: tokens, latency, models tried and any error.
+ * Accounting failures are logged, never thrown.
+ */
+async function recordLlmCall(aiRequestId: unknown, call: LlmCallRecord): Promise<void> {
+    const update: Record<string, unknown> = { $push: { llmCalls: call } };
 
-    // Try each model until one succeeds
-    for (const modelName of fallbackModels) {
-        try {
-            console.log(`   🤖 Calling Gemini API with Google Search Grounding...`);
-            console.log(`   📍 Model: ${modelName}${modelName !== primaryModel ? ' (fallback)' : ''}`);
-            console.log(`   ⏱️ Starting API call at ${new Date().toISOString()}`);
+    if (!call.error) {
+        // The model that actually answered, not the configured one
+        update.$set = { model: call.model };
+    }
+    if (call.usage) {
+        update.$inc = {
+            'usage.promptTokens': call.usage.promptTokens,
+            'usage.candidatesTokens': call.usage.candidatesTokens,
+            'usage.totalTokens': call.usage.totalTokens
+        };
+    }
 
-            // Extended timeout - 2 minutes
-            const timeoutPromise = new Promise<never>((_, reject) => {
-                setTimeout(() => reject(new Error(`Gemini API call timed out after 120 seconds (model: ${modelName})`)), 120000);
-            });
+    try {
+        await AiRequestModel.findByIdAndUpdate(aiRequestId, update);
+    } catch (err) {
+        console.error('   ⚠️ Failed to record LLM usage:', err);
+    }
+}
 
-            const genAI = new GoogleGenerativeAI(apiKey);
-
-            // Generation config with 8k token limit to avoid truncation issues
-            const model = genAI.getGenerativeModel({
-                model: modelName,
-                generationConfig: {
-                    temperature: 0.2, // Lower for more consistent, factual output
-                    topP: 0.8,
-                    topK: 30,
-                    maxOutputTokens: 8192, // 8k tokens to avoid truncation
-                },
-                // Enable Google Search grounding with dynamic retrieval
-                tools: [{
-                    googleSearch: {}
-                }] as any
+/**
+ * Call the configured LLM provider (see services/providers) and log its grounding.
+ * With a trace, the call is accounted on that AiRequest.
+ */
+async function callLlm(prompt: string, trace?: { aiRequestId: unknown; purpose: string }): Promise<LlmGenerateResult> {
+    const provider = getLlmProvider();
+    const startedAt = new Date();
+
+    let result: LlmGenerateResult;
+    try {
+        result = await provider.generate(prompt);
+    } catch (error) {
+        if (trace) {
+            const attempts = error instanceof LlmProviderError ? error.attempts : [];
+            await recordLlmCall(trace.aiRequestId, {
+                purpose: trace.purpose,
+                provider: provider.name,
+                model: attempts[attempts.length - 1]?.model || provider.model,
+                durationMs: Date.now() - startedAt.getTime(),
+                attempts,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                startedAt: startedAt.toISOString()
             });
+        }
+        throw error;
+    }
 
-            console.log(`   📡 Sending request to Gemini...`);
-            const result = await Promise.race([
-                model.generateContent(prompt),
-                timeoutPromise
-            ]);
+    const durationMs = Date.now() - startedAt.getTime();
+    if (trace) {
+        await recordLlmCall(trace.aiRequestId, {
+            purpose: trace.purpose,
+            provider: provider.name,
+            model: result.model,
+            usage: result.usage,
+            durationMs,
+            attempts: result.attempts || [{ model: result.model, durationMs }],
+            startedAt: startedAt.toISOString()
+        });
+    }
+    if (result.usage) {
+        console.log(`   🪙 Tokens: ${result.usage.promptTokens} in / ${result.usage.candidatesTokens} out (${durationMs}ms)`);
+    }
 
-            console.log(`   📨 Got response from Gemini`);
-            const response = result.response;
-            const text = response.text();
-            console.log(`   📝 Response: ${text}`);
+    console.log(`   📝 Response: ${result.text}`);
 
-            if (!text) {
-                throw new Error('Empty response from Gemini API');
-            }
+    // Enhanced grounding metadata logging
+    const grounding = result.grounding;
+    if (grounding) {
+        if (grounding.webSearchQueries.length > 0) {
+            console.log(`   🔍 Search queries executed: ${grounding.webSearchQueries.length}`);
+            console.log(`   📝 Sample queries: ${grounding.webSearchQueries.slice(0, 3).join(', ')}`);
+        }
+        if (grounding.chunks.length > 0) {
+            console.log(`   📚 Grounding sources used: ${grounding.chunks.length}`);
+        }
+        if (grounding.supports.length > 0) {
+            console.log(`   ✓ Grounding supports: ${grounding.supports.length}`);
+        }
+    }
 
-            // Enhanced grounding metadata logging
-            const candidate = response.candidates?.[0];
-            if (candidate?.groundingMetadata) {
-                const gm = candidate.groundingMetadata as any;
-                if (gm.webSearchQueries) {
-                    console.log(`   🔍 Search queries executed: ${gm.webSearchQueries.length}`);
-                    console.log(`   📝 Sample queries: ${gm.webSearchQueries.slice(0, 3).join(', ')}`);
-                }
-                if (gm.groundingChunks) {
-                    console.log(`   📚 Grounding sources used: ${gm.groundingChunks.length}`);
-                }
-                if (gm.groundingSupport) {
-                    console.log(`   ✓ Grounding confidence: High`);
-                }
-            }
+    console.log(`   ✅ Response received from ${provider.name}/${result.model} (${result.text.length} characters)`);
+    return result;
+}
+
+/**
+ * Integer setting from the environment, clamped to [min, max]. Anything that is not an
+ * integer (unset, 'abc', '1.5') falls back to the default.
+ */
+function boundedIntEnv(name: string, fallback: number, min: number, max: number): number {
+    const value = Number(process.env[name] ?? fallback);
+    return Number.isInteger(value) ? Math.min(Math.max(value, min), max) : fallback;
+}
+
+/**
+ * Parse the response, sending schema violations back to the model for a bounded
+ * number of repair round-trips. Each repair is recorded on the AiRequest.
+ * Throws the last LlmOutputError once attempts run out.
+ */
+export async function parseWithRepair(aiRequestId: unknown, response: string): Promise<LlmOutput> {
+    const maxAttempts = boundedIntEnv('LLM_REPAIR_ATTEMPTS', 2, 0, 5);
+    let current = response;
 
-            console.log(`   ✅ Response received (${text.length} characters)`);
-            return text;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return parseResponse(current);
         } catch (error) {
-            const errMsg = error instanceof Error ? error.message : String(error);
-            console.error(`   ❌ Error with model ${modelName}: ${errMsg}`);
-            lastError = error instanceof Error ? error : new Error(errMsg);
+            if (!(error instanceof LlmOutputError) || attempt > maxAttempts) throw error;
 
-            // Continue to next fallback model
-            if (fallbackModels.indexOf(modelName) < fallbackModels.length - 1) {
-                console.log(`   🔄 Trying next fallback model...`);
-            }
+            console.warn(`   🔁 Repair attempt ${attempt}/${maxAttempts}: ${error.errors.length} schema error(s)`);
+            const repaired = await callLlm(buildRepairPrompt(error.json, error.errors), { aiRequestId, purpose: 'repair' });
+            current = repaired.text;
+
+            await AiRequestModel.findByIdAndUpdate(aiRequestId, {
+                $push: { repairAttempts: { schemaErrors: error.errors, response: current } }
+            });
         }
     }
-
-    // All models failed
-    throw new Error(`All LLM models failed. Last error: ${lastError?.message || 'Unknown error'}`);
 }
 
 /**
- * Enhanced JSON parsing with truncation recovery and duplicate detection
+ * Enhanced JSON parsing with truncation recovery and duplicate detection.
+ * Throws LlmOutputError when the output cannot be parsed or fails the schema.
  */
 function parseResponse(response: string): LlmOutput {
     let jsonStr = response;
@@ -423,160 +501,133 @@ function parseResponse(response: string): LlmOutput {
         console.log('   ✅ Added missing closing brackets');
     }
 
+    // Parse, falling back to bracket-balancing recovery for truncated output
+    let parsed: unknown;
     try {
-        const parsed = JSON.parse(jsonStr);
+        parsed = JSON.parse(jsonStr);
+    } catch (error) {
+        console.error('   ❌ Initial parse failed, attempting recovery...');
+
+        try {
+            parsed = JSON.parse(attemptJsonRecovery(jsonStr));
+            console.log('   🔧 JSON recovered - validating against schema');
+        } catch {
+            console.error('   ❌ JSON recovery failed');
+            console.error('   Raw response preview:', response.substring(0, 500));
+            throw new LlmOutputError('Invalid JSON response from LLM - parsing failed completely', jsonStr, [{
+                path: '/',
+                message: error instanceof Error ? error.message : 'is not valid JSON'
+            }]);
+        }
+    }
 
-        if (!parsed.country || !parsed.iso3 || !parsed.summary) {
-            throw new Error('Missing required fields in LLM response');
+    // Strict schema validation - invalid output is sent back for repair, never filled with defaults
+    const validation = validateLlmOutput(parsed);
+    if (!validation.valid) {
+        console.error(`   ❌ Schema validation failed (${validation.errors.length} errors)`);
+        for (const e of validation.errors.slice(0, 10)) {
+            console.error(`      ${e.path}: ${e.message}`);
         }
+        throw new LlmOutputError(
+            `LLM output failed schema validation: ${validation.errors.map(e => `${e.path} ${e.message}`).join('; ')}`,
+            JSON.stringify(parsed, null, 2),
+            validation.errors
+        );
+    }
 
-        // Helper functions for data sanitization
-        const ensureArray = (val: unknown): string[] =>
-            Array.isArray(val) ? val.map(v => String(v).trim()).filter(Boolean) : [];
-
-        const ensureContactArray = (val: unknown): AuthorityContact[] => {
-            if (!Array.isArray(val)) return [];
-            return val.filter(c => c && typeof c === 'object').map(c => {
-                const rawPhone = String(c.phone || '').trim();
-                const rawEmail = String(c.email || '').trim();
-                const rawUrl = String(c.url || '').trim();
-
-                return {
-                    name: String(c.name || '').trim(),
-                    role: String(c.role || '').trim(),
-                    // Keep phone as-is but flag validation in frontend
-                    phone: rawPhone,
-                    // Keep email as-is but flag validation in frontend
-                    email: rawEmail,
-                    // Auto-fix URL if missing protocol
-                    url: fixUrl(rawUrl)
-                };
-            }).filter(c => c.name || c.email || c.phone); // Keep only contacts with some data
-        };
+    // Validated - from here on the output has the schema's shape
+    const output = parsed as ValidatedLlmOutput;
 
-        const ensureRefArray = (val: unknown): Reference[] => {
-            if (!Array.isArray(val)) return [];
-            return val
-                .filter(r => r && typeof r === 'object')
-                .map((r, idx) => ({
-                    id: String(r.id || `ref-${idx + 1}`),
-                    title: String(r.title || '').trim(),
-                    url: String(r.url || '').trim(),
-                    fetchedAt: String(r.fetchedAt || new Date().toISOString())
-                }))
-                // Filter out invalid/truncated references
-                .filter(r => {
-                    if (!r.title || !r.url) return false;
-                    // URL must start with http and not be truncated
-                    if (!r.url.startsWith('http')) return false;
-                    if (r.url.length < 20) return false; // Too short = truncated
-                    return true;
-                })
-                .slice(0, 10); // Limit to 10 references
-        };
+    // Helper functions for data sanitization
+    const ensureArray = (val: string[]): string[] => val.map(v => v.trim()).filter(Boolean);
 
-        const ensurePrimaryContact = (val: unknown): PrimaryContact => {
-            if (!val || typeof val !== 'object') {
-                return { phone: '', email: '', website: '' };
-            }
-            const c = val as Record<string, unknown>;
-            const rawPhone = String(c.phone || '').trim();
-            const rawEmail = String(c.email || '').trim();
-            const rawWebsite = String(c.website || '').trim();
+    const ensureContactArray = (val: ValidatedLlmOutput['summary']['authorities_contacts']): AuthorityContact[] => {
+        return val.map(c => {
+            const rawPhone = (c.phone || '').trim();
+            const rawEmail = (c.email || '').trim();
+            const rawUrl = (c.url || '').trim();
 
             return {
-                // Keep phone as-is (frontend will handle display)
+                name: c.name.trim(),
+                role: (c.role || '').trim(),
+                // Keep phone as-is but flag validation in frontend
                 phone: rawPhone,
-                // Keep email as-is (frontend will handle display)
+                // Keep email as-is but flag validation in frontend
                 email: rawEmail,
-                // Auto-fix website URL if missing protocol
-                website: fixUrl(rawWebsite)
+                // Auto-fix URL if missing protocol
+                url: fixUrl(rawUrl)
             };
-        };
+        }).filter(c => c.name || c.email || c.phone); // Keep only contacts with some data
+    };
+
+    // The schema already limits references to 10 with a title and an http(s) URL - anything
+    // else went back for repair, so nothing is dropped here
+    const ensureRefArray = (val: ValidatedLlmOutput['summary']['references']): Reference[] => {
+        return val.map((r, idx) => ({
+            id: r.id || `ref-${idx + 1}`,
+            title: r.title.trim(),
+            url: r.url,
+            fetchedAt: r.fetchedAt || new Date().toISOString()
+        }));
+    };
+
+    const ensurePrimaryContact = (c: ValidatedLlmOutput['summary']['primary_contact']): PrimaryContact => {
+        const rawPhone = c.phone.trim();
+        const rawEmail = c.email.trim();
+        const rawWebsite = c.website.trim();
 
-        const summary = parsed.summary;
-
-        const result: LlmOutput = {
-            country: String(parsed.country).trim(),
-            iso3: String(parsed.iso3).toUpperCase().trim(),
-            lastUpdated: String(parsed.lastUpdated || new Date().toISOString()),
-            summary: {
-                minimum_lead_time: String(summary.minimum_lead_time || '').trim(),
-                icao_doc_url: String(summary.icao_doc_url || '').trim(),
-                state_rules_url: String(summary.state_rules_url || '').trim(),
-                primary_contact: ensurePrimaryContact(summary.primary_contact),
-                status: ensureArray(summary.status),
-                permit_and_conditions: ensureArray(summary.permit_and_conditions),
-                overflight_permits: ensureArray(summary.overflight_permits),
-                landing_permits: ensureArray(summary.landing_permits),
-                israel_limitation: ensureArray(summary.israel_limitation),
-                key_extracts: ensureArray(summary.key_extracts),
-                ops_notes: ensureArray(summary.ops_notes),
-                ops_checklist: ensureArray(summary.ops_checklist),
-                authorities_contacts: ensureContactArray(summary.authorities_contacts),
-                references: ensureRefArray(summary.references)
-            }
+        return {
+            // Keep phone as-is (frontend will handle display)
+            phone: rawPhone,
+            // Keep email as-is (frontend will handle display)
+            email: rawEmail,
+            // Auto-fix website URL if missing protocol
+            website: fixUrl(rawWebsite)
         };
-
-        // Validation warnings
-        if (!result.summary.minimum_lead_time.match(/\d/)) {
-            console.warn('   ⚠️ Warning: minimum_lead_time missing numeric value');
+    };
+
+    const summary = output.summary;
+
+    const result: LlmOutput = {
+        country: output.country.trim(),
+        iso3: output.iso3.toUpperCase().trim(),
+        lastUpdated: output.lastUpdated || new Date().toISOString(),
+        summary: {
+            minimum_lead_time: summary.minimum_lead_time.trim(),
+            icao_doc_url: summary.icao_doc_url.trim(),
+            state_rules_url: summary.state_rules_url.trim(),
+            primary_contact: ensurePrimaryContact(summary.primary_contact),
+            status: ensureArray(summary.status),
+            permit_and_conditions: ensureArray(summary.permit_and_conditions),
+            overflight_permits: ensureArray(summary.overflight_permits),
+            landing_permits: ensureArray(summary.landing_permits),
+            israel_limitation: ensureArray(summary.israel_limitation),
+            key_extracts: ensureArray(summary.key_extracts),
+            ops_notes: ensureArray(summary.ops_notes),
+            ops_checklist: ensureArray(summary.ops_checklist),
+            authorities_contacts: ensureContactArray(summary.authorities_contacts),
+            references: ensureRefArray(summary.references)
         }
-        if (result.summary.status.length === 0) {
-            console.warn('   ⚠️ Warning: No status information found');
-        }
-        if (result.summary.authorities_contacts.length === 0) {
-            console.warn('   ⚠️ Warning: No authority contacts found');
-        }
-
-        console.log(`   ✅ Parsed successfully`);
-        console.log(`   📋 Lead Time: ${result.summary.minimum_lead_time || '(missing)'}`);
-        console.log(`   📞 Contact: ${result.summary.primary_contact.email || result.summary.primary_contact.phone || '(missing)'}`);
-        console.log(`   📚 References: ${result.summary.references.length}`);
-        console.log(`   👥 Contacts: ${result.summary.authorities_contacts.length}`);
+    };
 
-        return result;
-    } catch (error) {
-        console.error('   ❌ Initial parse failed, attempting recovery...');
+    // Validation warnings
+    if (!result.summary.minimum_lead_time.match(/\d/)) {
+        console.warn('   ⚠️ Warning: minimum_lead_time missing numeric value');
+    }
+    if (result.summary.status.length === 0) {
+        console.warn('   ⚠️ Warning: No status information found');
+    }
+    if (result.summary.authorities_contacts.length === 0) {
+        console.warn('   ⚠️ Warning: No authority contacts found');
+    }
 
-        try {
-            const recoveredJson = attemptJsonRecovery(jsonStr);
-            const parsed = JSON.parse(recoveredJson);
-
-            const recoveredResult: LlmOutput = {
-                country: String(parsed.country || 'Unknown'),
-                iso3: String(parsed.iso3 || 'UNK').toUpperCase(),
-                lastUpdated: new Date().toISOString(),
-                summary: {
-                    minimum_lead_time: String(parsed.summary?.minimum_lead_time || '2-4 weeks (verify with authority)'),
-                    icao_doc_url: String(parsed.summary?.icao_doc_url || ''),
-                    state_rules_url: String(parsed.summary?.state_rules_url || ''),
-                    primary_contact: {
-                        phone: String(parsed.summary?.primary_contact?.phone || ''),
-                        email: String(parsed.summary?.primary_contact?.email || ''),
-                        website: String(parsed.summary?.primary_contact?.website || '')
-                    },
-                    status: Array.isArray(parsed.summary?.status) ? parsed.summary.status : [],
-                    permit_and_conditions: Array.isArray(parsed.summary?.permit_and_conditions) ? parsed.summary.permit_and_conditions : [],
-                    overflight_permits: Array.isArray(parsed.summary?.overflight_permits) ? parsed.summary.overflight_permits : [],
-                    landing_permits: Array.isArray(parsed.summary?.landing_permits) ? parsed.summary.landing_permits : [],
-                    israel_limitation: Array.isArray(parsed.summary?.israel_limitation) ? parsed.summary.israel_limitation : [],
-                    key_extracts: Array.isArray(parsed.summary?.key_extracts) ? parsed.summary.key_extracts : [],
-                    ops_notes: Array.isArray(parsed.summary?.ops_notes) ? parsed.summary.ops_notes : [],
-                    ops_checklist: Array.isArray(parsed.summary?.ops_checklist) ? parsed.summary.ops_checklist : [],
-                    authorities_contacts: [],
-                    references: []
-                }
-            };
+    console.log(`   ✅ Parsed successfully`);
+    console.log(`   📋 Lead Time: ${result.summary.minimum_lead_time || '(missing)'}`);
+    console.log(`   📞 Contact: ${result.summary.primary_contact.email || result.summary.primary_contact.phone || '(missing)'}`);
+    console.log(`   📚 References: ${result.summary.references.length}`);
+    console.log(`   👥 Contacts: ${result.summary.authorities_contacts.length}`);
 
-            console.log('   🔧 JSON recovered with partial data');
-            return recoveredResult;
-        } catch {
-            console.error('   ❌ JSON recovery failed');
-            console.error('   Raw response preview:', response.substring(0, 500));
-            throw new Error('Invalid JSON response from LLM - parsing failed completely');
-        }
-    }
+    return result;
 }
 
 /**
@@ -643,8 +694,42 @@ function attemptJsonRecovery(jsonStr: string): string {
         .replace(/\n\s*\n/g, '\n');
 }
 
+/**
+ * Collect the texts to retrieve from: the caller's sources if they carry text,
+ * otherwise every active source for the country
+ */
+async function loadSourceDocuments(
+    iso3: string,
+    sources: Array<{ _id?: unknown; title: string; type?: string; url: string; extractedText?: string; hash?: string }>
+): Promise<SourceDocument[]> {
+    const withText = sources.filter(s => s.extractedText);
+
+    if (withText.length > 0) {
+        return withText.map(s => ({
+            id: String(s._id ?? ''),
+            title: s.title,
+            type: s.type,
+            url: s.url,
+            hash: s.hash,
+            text: s.extractedText || ''
+        }));
+    }
+
+    const { texts, metadata } = await getSourceTextsForCountry(iso3);
+    return metadata.map((m, i) => ({
+        id: m.id,
+        title: m.title,
+        type: m.type,
+        url: m.url,
+        hash: m.hash,
+        text: texts[i]
+    }));
+}
+
 /**
  * Generate country summary with improved accuracy
+ * The parsed summary is stored as a draft on the AiRequest - it only reaches
+ * CountryModel once a reviewer approves it (see services/review.ts)
  */
 export async function generateCountrySummary(
     country: string,
@@ -652,53 +737,199 @@ export async function generateCountrySummary(
     sources: Array<{
         _id?: unknown;
         title: string;
+        type?: string;
         url: string;
         extractedText?: string;
         lastFetched?: string;
         hash?: string;
-    }> = []
+    }> = [],
+    options?: {
+        jobId?: unknown;
+        templateVersion?: number;   // Pin a prompt template version instead of the active one
+        mode?: GenerationMode;      // Overrides the country's mode and LLM_GENERATION_MODE
+        evaluationId?: unknown;     // Prompt evaluation run - the draft skips the review queue
+        force?: boolean;            // Bypass the response cache
+        waitForLlmSlot?: () => Promise<void>;  // Rate limit for the calls after the first (sectioned mode)
+    }
 ): Promise<{
     output: LlmOutput;
     aiRequestId: string;
+    promptTemplate: PromptTemplateRef;
+    citations: Citation[];
+    lockConflicts: LockConflict[];
+    cacheHit: boolean;
 }> {
-    const prompt = buildPrompt(country, iso3);
+    // Retrieve relevant passages from the curated sources (looked up if the caller passed none)
+    const sourcesReadAt = new Date();
+    const documents = await loadSourceDocuments(iso3, sources);
+    const passages = selectPassages(documents);
+    const countryDoc = await CountryModel.findOne({ iso3 }).select('region generationMode').lean();
+    const mode: GenerationMode = options?.mode
+        || (countryDoc?.generationMode as GenerationMode | undefined)
+        || (process.env.LLM_GENERATION_MODE === 'sectioned' ? 'sectioned' : 'whole');
+
+    const { instructions, template } = await resolveInstructions(
+        country, iso3, (countryDoc?.region as string) || '', options?.templateVersion
+    );
+
+    // Sectioned mode asks for each section separately; the stored prompt is all of them
+    const sectionPrompts = mode === 'sectioned'
+        ? buildSectionPrompts(instructions, GROUNDING_PROMPT, country, iso3, passages)
+        : [];
+    const prompt = mode === 'sectioned'
+        ? sectionPrompts.map(s => `=== SECTION: ${s.group} ===\n${s.prompt}`).join('\n\n')
+        : buildPrompt(country, iso3, passages, instructions);
 
     console.log(`\n🔄 Generating summary for ${country} (${iso3})...`);
-    console.log(`   🌐 Using Google Search Grounding for real-time regulatory data`);
+    console.log(`   🌐 Provider: ${getLlmProvider().name}`);
+    console.log(`   🧾 Prompt: ${template.name} v${template.version}${template.region ? ` (${template.region})` : ''}`);
+    console.log(`   🧩 Mode: ${mode}${mode === 'sectioned' ? ` (${sectionPrompts.length} sections)` : ''}`);
+    console.log(`   📚 Curated sources: ${documents.length} (${passages.length} passages in prompt)`);
     console.log(`   🎯 Enhanced accuracy mode enabled`);
 
+    // Replay the last response when template, sources and model are unchanged
+    const provider = getLlmProvider();
+    const cacheParts = {
+        iso3,
+        template,
+        model: `${provider.name}/${provider.model}`,
+        generationMode: mode,
+        sourceHashes: sourceHashes(documents),
+        prompt
+    };
+    const cacheKey = buildCacheKey(cacheParts);
+    const cached = options?.force ? null : await getCachedResponse(cacheKey);
+
+    if (cached) {
+        console.log(`   ♻️ Cache hit (generated ${cached.createdAt}) - no LLM call`);
+    } else if (options?.force) {
+        console.log(`   ♻️ Cache bypassed (force)`);
+    }
+
+    const startTime = Date.now();
     const aiRequest = await AiRequestModel.create({
         countryIso3: iso3,
-        prompt: prompt.substring(0, 10000),
-        model: process.env.LLM_MODEL || 'gemini-2.0-flash-thinking-exp-1219',
-        sourceIds: sources.map(s => s._id).filter(Boolean),
+        prompt,
+        promptTemplate: template,
+        generationMode: mode,
+        model: provider.model,
+        cache: {
+            key: cacheKey,
+            hit: !!cached,
+            cachedAt: cached?.createdAt,
+            sourceAiRequestId: cached?.aiRequestId
+        },
+        sourceIds: [...new Set(passages.map(p => p.sourceId))],
+        retrievedPassages: passages.map(p => ({
+            label: p.label,
+            sourceId: p.sourceId,
+            title: p.title,
+            offset: p.offset,
+            length: p.text.length,
+            sections: p.sections,
+            score: p.score
+        })),
+        jobId: options?.jobId,
+        evaluationId: options?.evaluationId,
         status: 'pending',
         createdAt: new Date().toISOString()
     });
 
     try {
-        const rawResponse = await callGeminiApi(prompt);
-        const output = parseResponse(rawResponse);
+        let rawResponse: string;
+        let grounding: GroundingMetadata | undefined;
+
+        if (cached) {
+            rawResponse = cached.response;
+            grounding = cached.grounding;
+        } else if (mode === 'sectioned') {
+            const maxAttempts = boundedIntEnv('LLM_SECTION_ATTEMPTS', 2, 1, 5);
+            const sectioned = await generateSections(
+                country, iso3, sectionPrompts,
+                (sectionPrompt, group) => callLlm(sectionPrompt, { aiRequestId: aiRequest._id, purpose: `section:${group}` }),
+                maxAttempts,
+                options?.waitForLlmSlot
+            );
+            ({ text: rawResponse, grounding } = sectioned);
+
+            await AiRequestModel.findByIdAndUpdate(aiRequest._id, {
+                $set: { sectionAttempts: sectioned.attempts }
+            });
+        } else {
+            ({ text: rawResponse, grounding } = await callLlm(prompt, { aiRequestId: aiRequest._id, purpose: 'generate' }));
+        }
+
+        // Grounding links are short-lived redirects - store the pages they lead to instead
+        grounding = await resolveGroundingRedirects(grounding);
+
+        // Cached before parsing, so a response that fails to parse can be replayed while debugging
+        if (!cached) {
+            await storeCachedResponse(cacheKey, cacheParts, { response: rawResponse, grounding, aiRequestId: aiRequest._id });
+        }
+        const parsed = await parseWithRepair(aiRequest._id, rawResponse);
+
+        // Move [verify] / [S#] tags out of the bullet text into structured metadata
+        const tagged = extractBulletMeta(parsed.summary, passages);
+        parsed.summary = tagged.summary;
+
+        // Swap LLM-written references for the pages search grounding actually retrieved
+        parsed.summary.references = groundedReferences(parsed.summary.references, grounding);
+
+        // Keep manually verified (locked) fields intact and flag where the LLM disagrees
+        const locked = await applyCountryLocks(iso3, parsed.summary);
+        const output: LlmOutput = { ...parsed, summary: locked.summary };
+
+        if (locked.conflicts.length > 0) {
+            console.warn(`   🔒 ${locked.conflicts.length} locked field(s) differ from LLM output: ${locked.conflicts.map(c => c.key ? `${c.field}[${c.key}]` : c.field).join(', ')}`);
+        }
+
+        const citations = mapGroundingToSummary(rawResponse, output.summary, grounding);
+        if (grounding) {
+            console.log(`   🔗 Citations: ${citations.length} bullets backed by ${grounding.chunks.length} retrieved pages`);
+        }
+
+        const bulletMeta = filterBulletMeta(applyCitationConfidence(tagged.bulletMeta, citations), output.summary);
+        const flagged = bulletMeta.filter(m => m.verify).length;
+        if (flagged > 0) {
+            console.log(`   🔎 ${flagged} bullet(s) tagged [verify]`);
+        }
 
         await AiRequestModel.findByIdAndUpdate(aiRequest._id, {
             $set: {
                 response: rawResponse,
-                status: 'draft'
+                draft: output.summary,
+                grounding,
+                citations,
+                bulletMeta,
+                lockConflicts: locked.conflicts,
+                durationMs: Date.now() - startTime,
+                status: options?.evaluationId ? 'evaluation' : 'draft'
             }
         });
 
+        // The draft reflects the sources as read above - changes flagged since stay pending
+        if (!options?.evaluationId) {
+            await clearSourceChanges(iso3, sourcesReadAt);
+        }
+
         console.log(`   ✅ Summary generated successfully for ${country}`);
         console.log(`   📊 Quality metrics: ${output.summary.references.length} refs, ${output.summary.authorities_contacts.length} contacts`);
 
         return {
             output,
-            aiRequestId: aiRequest._id.toString()
+            aiRequestId: aiRequest._id.toString(),
+            promptTemplate: template,
+            citations,
+            lockConflicts: locked.conflicts,
+            cacheHit: !!cached
         };
     } catch (error) {
         await AiRequestModel.findByIdAndUpdate(aiRequest._id, {
             $set: {
                 response: error instanceof Error ? error.message : 'Unknown error',
-                status: 'rejected'
+                ...(error instanceof LlmOutputError && { validationErrors: error.errors }),
+                durationMs: Date.now() - startTime,
+                status: 'failed'
             }
         });
         throw error;
@@ -0,0 +1,108 @@
+/**
+ * LLM Cache Service - Reuse raw LLM responses while nothing that shapes them has changed
+ *
+ * The key covers the prompt template version, country, source hashes, provider/model and
+ * generation mode, plus the rendered prompt itself so edits to the built-in prompt also
+ * invalidate. Entries expire after LLM_CACHE_TTL_HOURS (default 168, 0 disables the cache).
+ */
+
+import crypto from 'crypto';
+import { LlmCacheModel } from '../models/LlmCache.js';
+import type { SourceDocument } from './retrieval.js';
+import type { GenerationMode, GroundingMetadata, LlmCacheEntry, PromptTemplateRef } from '../types/index.js';
+
+export interface CacheKeyParts {
+    iso3: string;
+    template: PromptTemplateRef;
+    model: string;
+    generationMode: GenerationMode;
+    sourceHashes: string[];
+    prompt: string;
+}
+
+function sha256(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+export function cacheTtlHours(): number {
+    const hours = Number(process.env.LLM_CACHE_TTL_HOURS ?? 168);
+    return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+/**
+ * sourceId:hash pairs in a stable order (text is hashed when a source has no hash yet)
+ */
+export function sourceHashes(documents: SourceDocument[]): string[] {
+    return documents
+        .map(d => `${d.id}:${d.hash || sha256(d.text)}`)
+        .sort();
+}
+
+export function buildCacheKey(parts: CacheKeyParts): string {
+    return sha256(JSON.stringify({
+        iso3: parts.iso3.toUpperCase(),
+        template: [parts.template.name, parts.template.version, parts.template.region || ''],
+        model: parts.model,
+        generationMode: parts.generationMode,
+        sourceHashes: parts.sourceHashes,
+        prompt: sha256(parts.prompt)
+    }));
+}
+
+/**
+ * Look up an unexpired entry and count the hit
+ */
+export async function getCachedResponse(key: string): Promise<LlmCacheEntry | null> {
+    if (cacheTtlHours() === 0) return null;
+
+    // TTL cleanup runs about once a minute, so check expiry explicitly
+    return LlmCacheModel.findOneAndUpdate(
+        { key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 } },
+        { new: true }
+    ).lean<LlmCacheEntry>();
+}
+
+/**
+ * Store (or refresh) a response. Failures are logged, never thrown.
+ */
+export async function storeCachedResponse(
+    key: string,
+    parts: CacheKeyParts,
+    entry: { response: string; grounding?: GroundingMetadata; aiRequestId: unknown }
+): Promise<void> {
+    const ttlHours = cacheTtlHours();
+    if (ttlHours === 0) return;
+
+    try {
+        await LlmCacheModel.findOneAndUpdate(
+            { key },
+            {
+                $set: {
+                    iso3: parts.iso3.toUpperCase(),
+                    template: parts.template,
+                    model: parts.model,
+                    generationMode: parts.generationMode,
+                    sourceHashes: parts.sourceHashes,
+                    response: entry.response,
+                    grounding: entry.grounding,
+                    aiRequestId: entry.aiRequestId,
+                    hits: 0,
+                    createdAt: new Date().toISOString(),
+                    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+                }
+            },
+            { upsert: true }
+        );
+    } catch (err) {
+        console.error('   ⚠️ Failed to cache LLM response:', err);
+    }
+}
+
+/**
+ * Drop cached responses, for one country or all of them
+ */
+export async function clearLlmCache(iso3?: string): Promise<number> {
+    const result = await LlmCacheModel.deleteMany(iso3 ? { iso3: iso3.toUpperCase() } : {});
+    return result.deletedCount;
+}
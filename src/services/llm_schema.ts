@@ -0,0 +1,183 @@
+/**
+ * LLM Output Schema - Formal JSON Schema for the country brief the model must return,
+ * with validation errors reported as JSON pointer paths
+ */
+
+import AjvModule from 'ajv';
+import type { SchemaError } from '../types/index.js';
+
+/**
+ * Raised when LLM output cannot be parsed or does not match the schema.
+ * Carries the offending JSON so it can be sent back to the model for repair.
+ */
+export class LlmOutputError extends Error {
+    constructor(message: string, public json: string, public errors: SchemaError[]) {
+        super(message);
+        this.name = 'LlmOutputError';
+    }
+}
+
+const URL_OR_EMPTY = { type: 'string', pattern: '^(https?://\\S+)?$' };
+const BULLETS = { type: 'array', items: { type: 'string', minLength: 1, maxLength: 1000 }, maxItems: 50 };
+
+export const LLM_OUTPUT_SCHEMA = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'LlmOutput',
+    type: 'object',
+    required: ['country', 'iso3', 'summary'],
+    properties: {
+        country: { type: 'string', minLength: 1 },
+        iso3: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+        lastUpdated: { type: 'string' },
+        summary: {
+            type: 'object',
+            required: [
+                'minimum_lead_time', 'icao_doc_url', 'state_rules_url', 'primary_contact',
+                'status', 'permit_and_conditions', 'overflight_permits', 'landing_permits',
+                'israel_limitation', 'key_extracts', 'ops_notes', 'ops_checklist',
+                'authorities_contacts', 'references'
+            ],
+            properties: {
+                minimum_lead_time: { type: 'string', minLength: 1, maxLength: 200 },
+                icao_doc_url: URL_OR_EMPTY,
+                state_rules_url: URL_OR_EMPTY,
+                primary_contact: {
+                    type: 'object',
+                    required: ['phone', 'email', 'website'],
+                    properties: {
+                        phone: { type: 'string' },
+                        email: { type: 'string' },
+                        website: { type: 'string' }
+                    }
+                },
+                status: BULLETS,
+                permit_and_conditions: BULLETS,
+                overflight_permits: BULLETS,
+                landing_permits: BULLETS,
+                israel_limitation: BULLETS,
+                key_extracts: BULLETS,
+                ops_notes: BULLETS,
+                ops_checklist: BULLETS,
+                authorities_contacts: {
+                    type: 'array',
+                    maxItems: 20,
+                    items: {
+                        type: 'object',
+                        required: ['name'],
+                        properties: {
+                            name: { type: 'string', minLength: 1 },
+                            role: { type: 'string' },
+                            phone: { type: 'string' },
+                            email: { type: 'string' },
+                            url: { type: 'string' }
+                        }
+                    }
+                },
+                references: {
+                    type: 'array',
+                    maxItems: 10,
+                    items: {
+                        type: 'object',
+                        required: ['title', 'url'],
+                        properties: {
+                            id: { type: 'string' },
+                            title: { type: 'string', pattern: '\\S' },
+                            url: { type: 'string', pattern: '^https?://\\S+$' },
+                            fetchedAt: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        }
+    }
+} as const;
+
+export type SummaryField = keyof typeof LLM_OUTPUT_SCHEMA.properties.summary.properties;
+
+type SchemaBulletField = Exclude<SummaryField,
+    'minimum_lead_time' | 'icao_doc_url' | 'state_rules_url' | 'primary_contact' | 'authorities_contacts' | 'references'>;
+
+/**
+ * Parsed output that passed validateLlmOutput - optional properties are the ones the schema
+ * does not require
+ */
+export interface ValidatedLlmOutput {
+    country: string;
+    iso3: string;
+    lastUpdated?: string;
+    summary: Record<SchemaBulletField, string[]> & {
+        minimum_lead_time: string;
+        icao_doc_url: string;
+        state_rules_url: string;
+        primary_contact: { phone: string; email: string; website: string };
+        authorities_contacts: Array<{ name: string; role?: string; phone?: string; email?: string; url?: string }>;
+        references: Array<{ id?: string; title: string; url: string; fetchedAt?: string }>;
+    };
+}
+
+const ajv = new AjvModule.default({ allErrors: true, strict: false });
+const validate = ajv.compile(LLM_OUTPUT_SCHEMA);
+const fieldValidators = new Map<string, ReturnType<typeof ajv.compile>>();
+
+function toSchemaErrors(errors: typeof validate.errors): SchemaError[] {
+    return (errors || []).map(err => {
+        // Point required-property errors at the missing property itself
+        const missing = err.keyword === 'required' ? `/${(err.params as { missingProperty: string }).missingProperty}` : '';
+        return {
+            path: `${err.instancePath}${missing}` || '/',
+            message: err.message || 'is invalid'
+        };
+    });
+}
+
+/**
+ * Validate parsed LLM output against the schema
+ */
+export function validateLlmOutput(data: unknown): { valid: boolean; errors: SchemaError[] } {
+    if (validate(data)) {
+        return { valid: true, errors: [] };
+    }
+    return { valid: false, errors: toSchemaErrors(validate.errors) };
+}
+
+/**
+ * Validate an object holding only some summary fields (sectioned generation)
+ */
+export function validateSummaryFields(fields: SummaryField[], data: unknown): { valid: boolean; errors: SchemaError[] } {
+    const key = fields.join(',');
+    let validateFields = fieldValidators.get(key);
+
+    if (!validateFields) {
+        const properties = LLM_OUTPUT_SCHEMA.properties.summary.properties;
+        validateFields = ajv.compile({
+            type: 'object',
+            required: fields,
+            properties: Object.fromEntries(fields.map(f => [f, properties[f]]))
+        });
+        fieldValidators.set(key, validateFields);
+    }
+
+    if (validateFields(data)) {
+        return { valid: true, errors: [] };
+    }
+    return { valid: false, errors: toSchemaErrors(validateFields.errors) };
+}
+
+/**
+ * Prompt asking the model to fix its own invalid output
+ */
+export function buildRepairPrompt(json: string, errors: SchemaError[]): string {
+    return `The JSON below is a country regulatory brief that does not match the required JSON Schema.
+
+VALIDATION ERRORS:
+${errors.map(e => `- ${e.path}: ${e.message}`).join('\n')}
+
+JSON SCHEMA:
+${JSON.stringify(LLM_OUTPUT_SCHEMA)}
+
+INVALID JSON:
+${json}
+
+Return ONLY the corrected JSON object, with no markdown. Fix only what the errors point at and keep all other content unchanged.
+Do not invent facts: where a value is unknown use an empty string or empty array if the schema allows it.`;
+}
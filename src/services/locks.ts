@@ -0,0 +1,146 @@
+/**
+ * Lock Service - Keep manually verified fields intact when the LLM regenerates a summary
+ *
+ * A lock pins the live value of a field at the time a draft is built or approved, so
+ * manual edits to a locked field are picked up automatically.
+ */
+
+import { CountryModel } from '../models/Country.js';
+import { BULLET_SECTIONS } from './diff.js';
+import type { CountrySummary, AuthorityContact, FieldLock, LockConflict } from '../types/index.js';
+
+const PRIMARY_CONTACT_FIELDS = ['phone', 'email', 'website'] as const;
+
+export const LOCKABLE_FIELDS = [
+    'minimum_lead_time',
+    'icao_doc_url',
+    'state_rules_url',
+    'primary_contact',
+    ...PRIMARY_CONTACT_FIELDS.map(f => `primary_contact.${f}`),
+    ...BULLET_SECTIONS,
+    'authorities_contacts',
+    'references'
+];
+
+function sameName(a: unknown, b: unknown): boolean {
+    return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+}
+
+// Stable comparison that ignores key order and surrounding whitespace
+function canonical(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(k => k !== '_id')
+            .map(k => `${k}:${canonical((value as Record<string, unknown>)[k])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(String(value ?? '').trim());
+}
+
+/**
+ * Check that a lock request targets a real field (and, for contact locks, an existing contact)
+ */
+export function validateLock(
+    field: unknown,
+    key: unknown,
+    summary: Partial<CountrySummary>
+): string | null {
+    if (typeof field !== 'string' || !LOCKABLE_FIELDS.includes(field)) {
+        return `field must be one of: ${LOCKABLE_FIELDS.join(', ')}`;
+    }
+
+    if (key === undefined || key === null || key === '') return null;
+
+    if (field !== 'authorities_contacts') {
+        return 'key is only supported for authorities_contacts locks';
+    }
+    if (typeof key !== 'string') {
+        return 'key must be the name of an authority contact';
+    }
+    if (!(summary.authorities_contacts || []).some(c => sameName(c.name, key))) {
+        return `No authority contact named "${key}"`;
+    }
+
+    return null;
+}
+
+/**
+ * Overlay locked values from the live summary onto a generated summary.
+ * Returns the protected summary plus a conflict for every locked value the LLM disagreed with.
+ */
+export function applyLocks<T extends Partial<CountrySummary>>(
+    current: Partial<CountrySummary>,
+    generated: T,
+    locks: FieldLock[]
+): { summary: T; conflicts: LockConflict[] } {
+    const summary = { ...generated } as Record<string, unknown>;
+    const conflicts: LockConflict[] = [];
+    const live = current as Record<string, unknown>;
+
+    for (const lock of locks) {
+        // Single authority contact, matched by name
+        if (lock.field === 'authorities_contacts' && lock.key) {
+            const locked = (current.authorities_contacts || []).find(c => sameName(c.name, lock.key));
+            if (!locked) continue; // Contact was removed by a manual edit - lock no longer applies
+
+            const contacts = [...((summary.authorities_contacts || []) as AuthorityContact[])];
+            const idx = contacts.findIndex(c => sameName(c.name, lock.key));
+            const proposed = idx === -1 ? null : contacts[idx];
+
+            if (canonical(proposed) !== canonical(locked)) {
+                conflicts.push({ field: lock.field, key: lock.key, lockedValue: locked, proposedValue: proposed });
+            }
+
+            if (idx === -1) contacts.push(locked);
+            else contacts[idx] = locked;
+            summary.authorities_contacts = contacts;
+            continue;
+        }
+
+        // Single primary_contact field
+        if (lock.field.startsWith('primary_contact.')) {
+            const sub = lock.field.slice('primary_contact.'.length) as typeof PRIMARY_CONTACT_FIELDS[number];
+            const lockedValue = current.primary_contact?.[sub] ?? '';
+            const contact = { ...((summary.primary_contact || {}) as Record<string, string>) };
+            const proposed = contact[sub] ?? '';
+
+            if (canonical(proposed) !== canonical(lockedValue)) {
+                conflicts.push({ field: lock.field, lockedValue, proposedValue: proposed });
+            }
+
+            contact[sub] = lockedValue;
+            summary.primary_contact = contact;
+            continue;
+        }
+
+        // Whole field or section
+        const lockedValue = live[lock.field];
+        const proposed = summary[lock.field];
+        if (lockedValue === undefined) continue;
+
+        if (canonical(proposed) !== canonical(lockedValue)) {
+            conflicts.push({ field: lock.field, lockedValue, proposedValue: proposed ?? null });
+        }
+        summary[lock.field] = lockedValue;
+    }
+
+    return { summary: summary as T, conflicts };
+}
+
+/**
+ * Load a country's live summary and locks, and protect a generated summary with them
+ */
+export async function applyCountryLocks<T extends Partial<CountrySummary>>(
+    iso3: string,
+    generated: T
+): Promise<{ summary: T; conflicts: LockConflict[] }> {
+    const country = await CountryModel.findOne({ iso3: iso3.toUpperCase() }).select('summary locks').lean();
+    const locks = (country?.locks || []) as FieldLock[];
+
+    if (!country || locks.length === 0) {
+        return { summary: generated, conflicts: [] };
+    }
+
+    return applyLocks((country.summary || {}) as CountrySummary, generated, locks);
+}
@@ -0,0 +1,127 @@
+/**
+ * Merge Service - Combine the live country summary with an AI draft according to a
+ * reviewer's per-section / per-bullet plan
+ */
+
+import { BULLET_SECTIONS } from './diff.js';
+import type { CountrySummary, PrimaryContact, AuthorityContact, Reference } from '../types/index.js';
+
+// Whole-section choice: keep the live value or take the draft value
+export type MergeTake = 'old' | 'new';
+
+// Per-item choice for list sections
+export type MergeItemChoice<T> =
+    | { take: MergeTake; index: number }
+    | { custom: T };
+
+export type ScalarMergeChoice<T> = MergeTake | { custom: T };
+export type ListMergeChoice<T> = MergeTake | Array<MergeItemChoice<T>>;
+
+export interface MergePlan {
+    minimum_lead_time?: ScalarMergeChoice<string>;
+    icao_doc_url?: ScalarMergeChoice<string>;
+    state_rules_url?: ScalarMergeChoice<string>;
+    primary_contact?: ScalarMergeChoice<PrimaryContact>;
+    additional_notes?: ListMergeChoice<string>;
+    status?: ListMergeChoice<string>;
+    permit_and_conditions?: ListMergeChoice<string>;
+    overflight_permits?: ListMergeChoice<string>;
+    landing_permits?: ListMergeChoice<string>;
+    israel_limitation?: ListMergeChoice<string>;
+    key_extracts?: ListMergeChoice<string>;
+    ops_notes?: ListMergeChoice<string>;
+    ops_checklist?: ListMergeChoice<string>;
+    authorities_contacts?: ListMergeChoice<AuthorityContact>;
+    references?: ListMergeChoice<Reference>;
+}
+
+const SCALAR_KEYS = ['minimum_lead_time', 'icao_doc_url', 'state_rules_url', 'primary_contact'] as const;
+const LIST_KEYS = [...BULLET_SECTIONS, 'authorities_contacts', 'references'] as const;
+
+// Sections the draft never fills - default to keeping the live value
+const DEFAULT_OLD: ReadonlyArray<keyof MergePlan> = ['additional_notes'];
+
+function isTake(value: unknown): value is MergeTake {
+    return value === 'old' || value === 'new';
+}
+
+function isCustom(value: unknown): value is { custom: unknown } {
+    return !!value && typeof value === 'object' && 'custom' in value;
+}
+
+/**
+ * Apply a merge plan. Sections missing from the plan take the draft ('new'),
+ * except additional_notes which keep the live value.
+ * Plan errors (unknown sections, out-of-range indices) are returned, not thrown.
+ */
+export function applyMergePlan(
+    current: Partial<CountrySummary>,
+    draft: Partial<CountrySummary>,
+    plan: Record<string, unknown>
+): { summary: Partial<CountrySummary>; errors: string[] } {
+    const errors: string[] = [];
+    const merged: Record<string, unknown> = {};
+
+    for (const key of Object.keys(plan)) {
+        if (!(SCALAR_KEYS as readonly string[]).includes(key) && !(LIST_KEYS as readonly string[]).includes(key)) {
+            errors.push(`plan.${key} is not a summary section`);
+        }
+    }
+
+    for (const key of SCALAR_KEYS) {
+        const choice = plan[key] ?? (DEFAULT_OLD.includes(key) ? 'old' : 'new');
+
+        if (isTake(choice)) {
+            merged[key] = choice === 'old' ? current[key] : draft[key];
+        } else if (isCustom(choice)) {
+            merged[key] = choice.custom;
+        } else {
+            errors.push(`plan.${key} must be 'old', 'new' or { custom }`);
+        }
+    }
+
+    for (const key of LIST_KEYS) {
+        const choice = plan[key] ?? (DEFAULT_OLD.includes(key) ? 'old' : 'new');
+        const oldItems = (current[key] || []) as unknown[];
+        const newItems = (draft[key] || []) as unknown[];
+
+        if (isTake(choice)) {
+            merged[key] = choice === 'old' ? oldItems : newItems;
+            continue;
+        }
+
+        if (!Array.isArray(choice)) {
+            errors.push(`plan.${key} must be 'old', 'new' or an array of item choices`);
+            continue;
+        }
+
+        const items: unknown[] = [];
+        choice.forEach((item: unknown, i: number) => {
+            const path = `plan.${key}[${i}]`;
+
+            if (isCustom(item)) {
+                items.push(item.custom);
+                return;
+            }
+
+            const pick = item as { take?: unknown; index?: unknown };
+            if (!isTake(pick?.take) || !Number.isInteger(pick.index)) {
+                errors.push(`${path} must be { take: 'old' | 'new', index } or { custom }`);
+                return;
+            }
+
+            const source = pick.take === 'old' ? oldItems : newItems;
+            const index = pick.index as number;
+            if (index < 0 || index >= source.length) {
+                errors.push(`${path}.index ${index} is out of range for ${pick.take} ${key} (${source.length} items)`);
+                return;
+            }
+
+            items.push(source[index]);
+        });
+
+        merged[key] = items;
+    }
+
+    return { summary: merged as Partial<CountrySummary>, errors };
+}
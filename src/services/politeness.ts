@@ -0,0 +1,278 @@
+/**
+ * Fetch Politeness - Crawler User-Agent, per-host rate limits and robots.txt rules
+ *
+ * Requests identify themselves with FETCH_USER_AGENT. Each host gets at most
+ * FETCH_HOST_CONCURRENCY requests at once (default 1), started at least FETCH_HOST_DELAY_MS
+ * apart (default 2000) or the robots.txt Crawl-delay if that is longer. A 429/503 with
+ * Retry-After holds the host back for that long.
+ *
+ * robots.txt is cached per host for ROBOTS_CACHE_HOURS (default 24) and follows RFC 9309:
+ * a missing file (4xx) allows everything, an unreachable one (5xx, network error) disallows
+ * everything until it is retried an hour later. FETCH_RESPECT_ROBOTS=false turns it off.
+ */
+
+import axios from 'axios';
+
+const DEFAULT_USER_AGENT = 'AOW-SourceMonitor/1.0 (aviation regulatory source monitoring)';
+const ROBOTS_RETRY_MS = 60 * 60 * 1000;    // Re-check an unreachable robots.txt after an hour
+const MAX_CRAWL_DELAY_MS = 60 * 1000;      // Cap on Crawl-delay so one host can't stall a run
+const MAX_RETRY_AFTER_MS = 60 * 60 * 1000;
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000;
+
+/**
+ * Raised instead of fetching a URL that robots.txt disallows for our User-Agent
+ */
+export class RobotsDisallowedError extends Error {
+    constructor(public url: string) {
+        super(`Disallowed by robots.txt: ${url}`);
+        this.name = 'RobotsDisallowedError';
+    }
+}
+
+export function fetchUserAgent(): string {
+    return process.env.FETCH_USER_AGENT?.trim() || DEFAULT_USER_AGENT;
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+    const n = Number(value ?? fallback);
+    return Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+// Sources fetched at once across all hosts by fetchAllSources
+export function fetchConcurrency(): number {
+    return Math.max(1, positiveInt(process.env.FETCH_CONCURRENCY, 4));
+}
+
+export function hostConcurrency(): number {
+    return Math.max(1, positiveInt(process.env.FETCH_HOST_CONCURRENCY, 1));
+}
+
+export function hostDelayMs(): number {
+    return positiveInt(process.env.FETCH_HOST_DELAY_MS, 2000);
+}
+
+function respectRobots(): boolean {
+    return process.env.FETCH_RESPECT_ROBOTS !== 'false';
+}
+
+function robotsCacheMs(): number {
+    return positiveInt(process.env.ROBOTS_CACHE_HOURS, 24) * 60 * 60 * 1000;
+}
+
+// Sleep helper
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function hostOf(url: string): string {
+    return new URL(url).host.toLowerCase();
+}
+
+// ============================================================
+// PER-HOST RATE LIMIT
+// ============================================================
+
+interface HostState {
+    active: number;
+    waiting: Array<() => void>;
+    nextStartAt: number;        // Earliest time the next request may start (ms)
+    crawlDelayMs: number;       // From robots.txt
+}
+
+const hosts = new Map<string, HostState>();
+
+function hostState(host: string): HostState {
+    let state = hosts.get(host);
+    if (!state) {
+        state = { active: 0, waiting: [], nextStartAt: 0, crawlDelayMs: 0 };
+        hosts.set(host, state);
+    }
+    return state;
+}
+
+/**
+ * Run a request against a URL's host once a slot is free and the host delay has passed
+ */
+export async function withHostSlot<T>(url: string, request: () => Promise<T>): Promise<T> {
+    const state = hostState(hostOf(url));
+
+    if (state.active >= hostConcurrency()) {
+        await new Promise<void>(resolve => state.waiting.push(resolve));
+    } else {
+        state.active++;
+    }
+
+    try {
+        // Claim the start time synchronously so concurrent slots stay spaced out
+        const startAt = Math.max(Date.now(), state.nextStartAt);
+        state.nextStartAt = startAt + Math.max(hostDelayMs(), state.crawlDelayMs);
+        if (startAt > Date.now()) await sleep(startAt - Date.now());
+
+        return await request();
+    } finally {
+        // Hand the slot straight to the next waiter, or give it back
+        const next = state.waiting.shift();
+        if (next) next();
+        else state.active--;
+    }
+}
+
+/**
+ * Hold a host back after it answered 429/503. Retry-After may be seconds or an HTTP date.
+ */
+export function deferHost(url: string, retryAfter?: string): number {
+    let ms = DEFAULT_RETRY_AFTER_MS;
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const date = Date.parse(retryAfter);
+        if (Number.isFinite(seconds)) ms = seconds * 1000;
+        else if (!Number.isNaN(date)) ms = date - Date.now();
+    }
+    ms = Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+
+    const state = hostState(hostOf(url));
+    state.nextStartAt = Math.max(state.nextStartAt, Date.now() + ms);
+    return ms;
+}
+
+// ============================================================
+// ROBOTS.TXT
+// ============================================================
+
+export interface RobotsRules {
+    rules: Array<{ allow: boolean; pattern: string }>;
+    crawlDelayMs: number;
+}
+
+interface CachedRobots extends RobotsRules {
+    expiresAt: number;
+}
+
+const robotsCache = new Map<string, Promise<CachedRobots>>();
+
+// Product token robots.txt groups are matched against, e.g. 'aow-sourcemonitor'
+function agentToken(): string {
+    return fetchUserAgent().split(/[/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Rules of the group for our User-Agent, falling back to the '*' group
+ */
+export function parseRobotsTxt(text: string, token: string = agentToken()): RobotsRules {
+    type Group = { agents: string[]; rules: RobotsRules['rules']; crawlDelay?: number };
+    const groups: Group[] = [];
+    let current: Group | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const colon = line.indexOf(':');
+        if (colon < 1) continue;
+
+        const field = line.slice(0, colon).trim().toLowerCase();
+        const value = line.slice(colon + 1).trim();
+
+        if (field === 'user-agent') {
+            // Consecutive User-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+
+        lastWasAgent = false;
+        if (!current) continue;
+
+        if ((field === 'allow' || field === 'disallow') && value) {
+            current.rules.push({ allow: field === 'allow', pattern: value });
+        } else if (field === 'crawl-delay') {
+            const seconds = Number(value);
+            if (Number.isFinite(seconds) && seconds > 0) current.crawlDelay = seconds;
+        }
+    }
+
+    const specific = groups.filter(g => g.agents.some(a => a !== '*' && token.startsWith(a)));
+    const matched = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'));
+    const crawlDelay = Math.max(0, ...matched.map(g => g.crawlDelay ?? 0));
+
+    return {
+        rules: matched.flatMap(g => g.rules),
+        crawlDelayMs: Math.min(crawlDelay * 1000, MAX_CRAWL_DELAY_MS)
+    };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Longest matching rule wins; Allow wins a tie. No matching rule means allowed.
+ */
+export function isPathAllowed(rules: RobotsRules, pathWithQuery: string): boolean {
+    let best: { allow: boolean; length: number } | null = null;
+
+    for (const rule of rules.rules) {
+        if (!patternToRegExp(rule.pattern).test(pathWithQuery)) continue;
+        const length = rule.pattern.length;
+        if (!best || length > best.length || (length === best.length && rule.allow)) {
+            best = { allow: rule.allow, length };
+        }
+    }
+
+    return best ? best.allow : true;
+}
+
+async function loadRobots(origin: string): Promise<CachedRobots> {
+    try {
+        const response = await axios.get(`${origin}/robots.txt`, {
+            responseType: 'text',
+            timeout: 15000,
+            maxContentLength: 500 * 1024,
+            headers: { 'User-Agent': fetchUserAgent() },
+            validateStatus: () => true
+        });
+
+        if (response.status >= 200 && response.status < 300) {
+            return { ...parseRobotsTxt(String(response.data)), expiresAt: Date.now() + robotsCacheMs() };
+        }
+        if (response.status >= 400 && response.status < 500) {
+            return { rules: [], crawlDelayMs: 0, expiresAt: Date.now() + robotsCacheMs() };
+        }
+        console.warn(`   🤖 ${origin}/robots.txt returned ${response.status} - treating host as disallowed`);
+    } catch (error) {
+        console.warn(`   🤖 ${origin}/robots.txt unreachable - treating host as disallowed:`, error instanceof Error ? error.message : error);
+    }
+
+    return { rules: [{ allow: false, pattern: '/' }], crawlDelayMs: 0, expiresAt: Date.now() + ROBOTS_RETRY_MS };
+}
+
+/**
+ * Throw RobotsDisallowedError if robots.txt disallows the URL. Also applies the host's Crawl-delay.
+ */
+export async function assertRobotsAllowed(url: string): Promise<void> {
+    if (!respectRobots()) return;
+
+    const parsed = new URL(url);
+    const origin = parsed.origin;
+
+    let cached = robotsCache.get(origin);
+    if (!cached || (await cached).expiresAt <= Date.now()) {
+        cached = loadRobots(origin);
+        robotsCache.set(origin, cached);
+    }
+
+    const robots = await cached;
+    hostState(hostOf(url)).crawlDelayMs = robots.crawlDelayMs;
+
+    if (!isPathAllowed(robots, `${parsed.pathname}${parsed.search}`)) {
+        throw new RobotsDisallowedError(url);
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * Prompt Evaluation Service - Run two prompt template versions against the same countries
+ * and compare the completeness of what each produces
+ *
+ * Evaluation drafts are stored with status 'evaluation', so they never reach the review queue.
+ * Calls are spaced DELAY_BETWEEN_LLM_CALLS_MS apart, like an update job's. A running evaluation
+ * heartbeats; one left without a heartbeat by a restart is failed by recoverStaleEvaluations.
+ */
+
+import { PromptEvaluationModel } from '../models/PromptEvaluation.js';
+import { AiRequestModel } from '../models/AiRequest.js';
+import { CountryModel } from '../models/Country.js';
+import { generateCountrySummary } from './llm.js';
+import { BULLET_SECTIONS } from './diff.js';
+import { computeVerification } from './verification.js';
+import { COUNTRY_BRIEF_TEMPLATE } from './prompts.js';
+import { CONFIG } from '../jobs/config.js';
+import type { CountrySummary, DraftMetrics, PromptEvaluation, BulletMeta, Citation } from '../types/index.js';
+
+export const MAX_EVALUATION_COUNTRIES = 20;
+
+const SCORED_SECTIONS = BULLET_SECTIONS.filter(s => s !== 'additional_notes');
+
+// Sleep helper
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Completeness metrics for one generated summary
+ */
+export function draftMetrics(
+    summary: CountrySummary,
+    extras: { bulletMeta?: BulletMeta[]; citations?: Citation[]; repairAttempts?: number; durationMs?: number } = {}
+): DraftMetrics {
+    const contact = summary.primary_contact || { phone: '', email: '', website: '' };
+    const filled = [
+        !!summary.minimum_lead_time,
+        !!summary.icao_doc_url,
+        !!summary.state_rules_url,
+        !!(contact.phone || contact.email || contact.website),
+        ...SCORED_SECTIONS.map(section => (summary[section] || []).length > 0),
+        (summary.authorities_contacts || []).length > 0,
+        (summary.references || []).length > 0
+    ];
+
+    const verification = computeVerification(summary, extras.bulletMeta, extras.citations);
+
+    return {
+        completeness: Math.round(filled.filter(Boolean).length / filled.length * 100) / 100,
+        bullets: verification.bullets,
+        contacts: (summary.authorities_contacts || []).length,
+        references: (summary.references || []).length,
+        citations: (extras.citations || []).length,
+        verifyCount: verification.verifyCount,
+        verificationScore: verification.score,
+        leadTimeHasNumber: /\d/.test(summary.minimum_lead_time || ''),
+        repairAttempts: extras.repairAttempts || 0,
+        durationMs: extras.durationMs || 0
+    };
+}
+
+/**
+ * Create an evaluation record and run it in the background
+ */
+export async function startPromptEvaluation(params: {
+    versions: [number, number];
+    countries: string[];
+    createdBy?: string;
+}): Promise<PromptEvaluation> {
+    const evaluation = await PromptEvaluationModel.create({
+        templateName: COUNTRY_BRIEF_TEMPLATE,
+        versions: params.versions,
+        countries: params.countries.map(c => c.toUpperCase()),
+        status: 'running',
+        results: [],
+        createdBy: params.createdBy,
+        startedAt: new Date().toISOString(),
+        heartbeatAt: new Date().toISOString()
+    });
+
+    runPromptEvaluation(evaluation._id.toString()).catch(err => {
+        console.error('Prompt evaluation error:', err);
+    });
+
+    return evaluation.toObject();
+}
+
+/**
+ * Generate every country with both versions, one call at a time, DELAY_BETWEEN_LLM_CALLS_MS
+ * apart to respect rate limits
+ */
+async function runPromptEvaluation(evaluationId: string): Promise<void> {
+    const evaluation = await PromptEvaluationModel.findById(evaluationId).lean();
+    if (!evaluation) return;
+
+    console.log(`\n🧪 Prompt evaluation ${evaluationId}: v${evaluation.versions[0]} vs v${evaluation.versions[1]} on ${evaluation.countries.length} countries`);
+
+    const heartbeat = setInterval(() => {
+        PromptEvaluationModel.updateOne({ _id: evaluationId, status: 'running' }, { $set: { heartbeatAt: new Date().toISOString() } })
+            .catch(err => console.error('   ⚠️ Evaluation heartbeat failed:', err));
+    }, CONFIG.HEARTBEAT_MS);
+
+    // Every LLM call after the first waits out the delay, including extra sectioned-mode calls
+    let calls = 0;
+    const waitForLlmSlot = async (): Promise<void> => {
+        if (calls++ > 0) await sleep(CONFIG.DELAY_BETWEEN_LLM_CALLS_MS);
+    };
+
+    try {
+        for (const iso3 of evaluation.countries) {
+            const country = await CountryModel.findOne({ iso3 }).select('country').lean();
+
+            for (const version of evaluation.versions) {
+                const result: PromptEvaluation['results'][number] = { iso3, version };
+                const startTime = Date.now();
+
+                try {
+                    if (!country) throw new Error(`Country not found: ${iso3}`);
+
+                    await waitForLlmSlot();
+                    const generated = await generateCountrySummary(country.country as string, iso3, [], {
+                        templateVersion: version,
+                        evaluationId,
+                        waitForLlmSlot
+                    });
+                    const aiRequest = await AiRequestModel.findById(generated.aiRequestId).select('bulletMeta repairAttempts').lean();
+
+                    result.aiRequestId = generated.aiRequestId;
+                    result.metrics = draftMetrics(generated.output.summary as CountrySummary, {
+                        bulletMeta: (aiRequest?.bulletMeta || []) as BulletMeta[],
+                        citations: generated.citations,
+                        repairAttempts: aiRequest?.repairAttempts?.length || 0,
+                        durationMs: Date.now() - startTime
+                    });
+                } catch (error) {
+                    result.error = error instanceof Error ? error.message : 'Unknown error';
+                    console.error(`   ❌ ${iso3} v${version}: ${result.error}`);
+                }
+
+                await PromptEvaluationModel.findByIdAndUpdate(evaluationId, { $push: { results: result } });
+            }
+        }
+
+        await PromptEvaluationModel.findByIdAndUpdate(evaluationId, {
+            $set: { status: 'completed', completedAt: new Date().toISOString() }
+        });
+        console.log(`🧪 Prompt evaluation ${evaluationId} completed`);
+    } catch (error) {
+        await PromptEvaluationModel.findByIdAndUpdate(evaluationId, {
+            $set: {
+                status: 'failed',
+                completedAt: new Date().toISOString(),
+                error: error instanceof Error ? error.message : 'Unknown error'
+            }
+        });
+        throw error;
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+/**
+ * Run at startup: fail evaluations left running with no heartbeat for STALE_JOB_MS
+ * (the process running them died or was restarted)
+ */
+export async function recoverStaleEvaluations(): Promise<void> {
+    const staleBefore = new Date(Date.now() - CONFIG.STALE_JOB_MS).toISOString();
+    const running = await PromptEvaluationModel.find({ status: 'running' }).select('heartbeatAt startedAt').lean();
+
+    for (const evaluation of running) {
+        const lastSeen = evaluation.heartbeatAt || evaluation.startedAt;
+        if (lastSeen >= staleBefore) continue;
+
+        await PromptEvaluationModel.updateOne(
+            { _id: evaluation._id, status: 'running' },
+            {
+                $set: {
+                    status: 'failed',
+                    error: `Interrupted - no heartbeat since ${lastSeen} (server restarted?)`,
+                    completedAt: new Date().toISOString()
+                }
+            }
+        );
+        console.warn(`⚠️ Marked stale prompt evaluation ${evaluation._id} as failed (last seen ${lastSeen})`);
+    }
+}
+
+/**
+ * Side-by-side report: per-country metrics for both versions and per-version averages
+ */
+export function summarizeEvaluation(evaluation: Pick<PromptEvaluation, 'versions' | 'countries' | 'results'>) {
+    const metricKeys: Array<keyof DraftMetrics> = [
+        'completeness', 'bullets', 'contacts', 'references', 'citations',
+        'verifyCount', 'verificationScore', 'repairAttempts', 'durationMs'
+    ];
+
+    const totals = evaluation.versions.map(version => {
+        const runs = evaluation.results.filter(r => r.version === version);
+        const succeeded = runs.filter(r => r.metrics);
+        const averages: Record<string, number> = {};
+
+        for (const key of metricKeys) {
+            const sum = succeeded.reduce((acc, r) => acc + Number(r.metrics![key]), 0);
+            averages[key] = succeeded.length > 0 ? Math.round(sum / succeeded.length * 100) / 100 : 0;
+        }
+
+        return {
+            version,
+            runs: runs.length,
+            failed: runs.length - succeeded.length,
+            leadTimeWithNumber: succeeded.filter(r => r.metrics!.leadTimeHasNumber).length,
+            averages
+        };
+    });
+
+    const countries = evaluation.countries.map(iso3 => ({
+        iso3,
+        results: evaluation.versions.map(version => {
+            const run = evaluation.results.find(r => r.iso3 === iso3 && r.version === version);
+            return {
+                version,
+                aiRequestId: run?.aiRequestId,
+                metrics: run?.metrics,
+                error: run?.error
+            };
+        })
+    }));
+
+    return { versions: totals, countries };
+}
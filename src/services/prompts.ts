@@ -0,0 +1,102 @@
+/**
+ * Prompt Template Service - Versioned prompt templates stored in MongoDB
+ *
+ * Templates are looked up by name. A region-scoped active version wins over the global
+ * active version; with no active template the caller falls back to its built-in prompt.
+ */
+
+import { PromptTemplateModel } from '../models/PromptTemplate.js';
+import type { PromptTemplate, PromptTemplateRef } from '../types/index.js';
+
+export const COUNTRY_BRIEF_TEMPLATE = 'country_brief';
+
+/**
+ * Find the template to render: an explicit version, else the active version for the
+ * region, else the active global version. Returns null when nothing matches.
+ */
+export async function resolvePromptTemplate(
+    name: string,
+    options?: { version?: number; region?: string }
+): Promise<PromptTemplate | null> {
+    if (options?.version !== undefined) {
+        return PromptTemplateModel.findOne({ name, version: options.version }).lean<PromptTemplate>();
+    }
+
+    if (options?.region) {
+        const regional = await PromptTemplateModel.findOne({ name, region: options.region, isActive: true }).lean<PromptTemplate>();
+        if (regional) return regional;
+    }
+
+    return PromptTemplateModel.findOne({ name, region: { $exists: false }, isActive: true }).lean<PromptTemplate>();
+}
+
+/**
+ * Substitute {{country}}, {{iso3}} and {{region}} placeholders
+ */
+export function renderTemplate(body: string, vars: Record<string, string>): string {
+    return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => vars[key] ?? match);
+}
+
+export function templateRef(template: PromptTemplate): PromptTemplateRef {
+    return { name: template.name, version: template.version, region: template.region };
+}
+
+/**
+ * Store a new version of a template. Version numbers are per name and start at 1.
+ */
+export async function createPromptTemplate(params: {
+    name: string;
+    body: string;
+    region?: string;
+    description?: string;
+    createdBy?: string;
+    activate?: boolean;
+}): Promise<PromptTemplate> {
+    const latest = await PromptTemplateModel.findOne({ name: params.name }).sort({ version: -1 }).select('version').lean();
+
+    const template = await PromptTemplateModel.create({
+        name: params.name,
+        version: (latest?.version || 0) + 1,
+        region: params.region || undefined,
+        body: params.body,
+        description: params.description,
+        isActive: false,
+        createdBy: params.createdBy,
+        createdAt: new Date().toISOString()
+    });
+
+    if (params.activate) {
+        return (await activatePromptTemplate(params.name, template.version))!;
+    }
+
+    return template.toObject();
+}
+
+/**
+ * Make a version the active one for its name and region scope
+ */
+export async function activatePromptTemplate(name: string, version: number): Promise<PromptTemplate | null> {
+    const template = await PromptTemplateModel.findOne({ name, version }).lean<PromptTemplate>();
+    if (!template) return null;
+
+    await PromptTemplateModel.updateMany(
+        { name, region: template.region ?? { $exists: false }, isActive: true, version: { $ne: version } },
+        { $set: { isActive: false } }
+    );
+
+    return PromptTemplateModel.findOneAndUpdate(
+        { name, version },
+        { $set: { isActive: true } },
+        { new: true }
+    ).lean<PromptTemplate>();
+}
+
+/**
+ * List template versions, newest first (bodies excluded)
+ */
+export async function listPromptTemplates(name?: string) {
+    return PromptTemplateModel.find(name ? { name } : {})
+        .select('-body')
+        .sort({ name: 1, version: -1 })
+        .lean();
+}
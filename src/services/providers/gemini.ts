@@ -0,0 +1,161 @@
+/**
+ * Gemini provider - Google Generative AI with Google Search grounding and model fallback
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { UsageMetadata } from '@google/generative-ai';
+import { withTimeout, LlmProviderError } from './types.js';
+import type { LlmProvider, LlmGenerateOptions, LlmGenerateResult, GroundingMetadata, LlmUsage, LlmCallAttempt } from './types.js';
+
+// Field access on untyped API payloads
+function asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function asNumbers(value: unknown): number[] | undefined {
+    return Array.isArray(value) ? value.filter((n): n is number => typeof n === 'number') : undefined;
+}
+
+function asOptionalNumber(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Normalize Gemini grounding metadata (the SDK typings lag behind the API field names,
+ * e.g. segment is an object and groundingChunkIndices is no longer misspelled)
+ */
+function extractGrounding(raw: unknown): GroundingMetadata | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const metadata = asRecord(raw);
+
+    return {
+        webSearchQueries: asArray(metadata.webSearchQueries).map(String),
+        chunks: asArray(metadata.groundingChunks).map(c => {
+            const web = asRecord(asRecord(c).web);
+            const retrieved = asRecord(asRecord(c).retrievedContext);
+            return {
+                uri: String(web.uri || retrieved.uri || ''),
+                title: String(web.title || retrieved.title || '')
+            };
+        }),
+        supports: asArray(metadata.groundingSupports).map(s => {
+            const support = asRecord(s);
+            const segment = asRecord(support.segment);
+            return {
+                text: String(segment.text || ''),
+                startIndex: asOptionalNumber(segment.startIndex),
+                endIndex: asOptionalNumber(segment.endIndex),
+                chunkIndices: asNumbers(support.groundingChunkIndices ?? support.groundingChunckIndices) || [],
+                confidenceScores: asNumbers(support.confidenceScores)
+            };
+        })
+    };
+}
+
+function extractUsage(raw: UsageMetadata | undefined): LlmUsage | undefined {
+    if (!raw) return undefined;
+
+    return {
+        promptTokens: raw.promptTokenCount || 0,
+        candidatesTokens: raw.candidatesTokenCount || 0,
+        totalTokens: raw.totalTokenCount || 0
+    };
+}
+
+export function createGeminiProvider(): LlmProvider {
+    // Fallback models in priority order
+    const primaryModel = process.env.LLM_MODEL || 'gemini-2.5-flash-lite';
+    const fallbackModels = [
+        primaryModel,
+        'gemini-2.5-flash-lite',
+        'gemini-2.5-flash',
+        'gemini-2.5-flash-preview-09-2025',
+    ].filter((m, i, arr) => arr.indexOf(m) === i); // Remove duplicates if primary is in list
+
+    async function generate(prompt: string, options?: LlmGenerateOptions): Promise<LlmGenerateResult> {
+        const apiKey = process.env.LLM_API_KEY;
+
+        if (!apiKey) {
+            throw new Error('LLM_API_KEY environment variable not set. Get your key from https://aistudio.google.com/app/apikey');
+        }
+
+        const timeoutMs = options?.timeoutMs ?? 120000; // Extended timeout - 2 minutes
+        let lastError: Error | null = null;
+        const attempts: LlmCallAttempt[] = [];
+
+        // Try each model until one succeeds
+        for (const modelName of fallbackModels) {
+            const attemptStart = Date.now();
+            try {
+                console.log(`   🤖 Calling Gemini API with Google Search Grounding...`);
+                console.log(`   📍 Model: ${modelName}${modelName !== primaryModel ? ' (fallback)' : ''}`);
+                console.log(`   ⏱️ Starting API call at ${new Date().toISOString()}`);
+
+                const genAI = new GoogleGenerativeAI(apiKey);
+
+                // Generation config with 8k token limit to avoid truncation issues
+                const model = genAI.getGenerativeModel({
+                    model: modelName,
+                    generationConfig: {
+                        temperature: options?.temperature ?? 0.2, // Lower for more consistent, factual output
+                        topP: 0.8,
+                        topK: 30,
+                        maxOutputTokens: options?.maxOutputTokens ?? 8192, // 8k tokens to avoid truncation
+                    },
+                    // Enable Google Search grounding with dynamic retrieval
+                    tools: [{
+                        googleSearch: {}
+                    }] as any
+                });
+
+                console.log(`   📡 Sending request to Gemini...`);
+                const result = await withTimeout(
+                    model.generateContent(prompt),
+                    timeoutMs,
+                    `Gemini API call timed out after ${timeoutMs / 1000} seconds (model: ${modelName})`
+                );
+
+                console.log(`   📨 Got response from Gemini`);
+                const response = result.response;
+                const text = response.text();
+
+                if (!text) {
+                    throw new Error('Empty response from Gemini API');
+                }
+
+                attempts.push({ model: modelName, durationMs: Date.now() - attemptStart });
+
+                return {
+                    text,
+                    model: modelName,
+                    grounding: extractGrounding(response.candidates?.[0]?.groundingMetadata),
+                    usage: extractUsage(response.usageMetadata),
+                    attempts
+                };
+            } catch (error) {
+                const errMsg = error instanceof Error ? error.message : String(error);
+                console.error(`   ❌ Error with model ${modelName}: ${errMsg}`);
+                lastError = error instanceof Error ? error : new Error(errMsg);
+                attempts.push({ model: modelName, durationMs: Date.now() - attemptStart, error: errMsg });
+
+                // Continue to next fallback model
+                if (fallbackModels.indexOf(modelName) < fallbackModels.length - 1) {
+                    console.log(`   🔄 Trying next fallback model...`);
+                }
+            }
+        }
+
+        // All models failed
+        throw new LlmProviderError(`All LLM models failed. Last error: ${lastError?.message || 'Unknown error'}`, attempts);
+    }
+
+    return {
+        name: 'gemini',
+        model: primaryModel,
+        generate
+    };
+}
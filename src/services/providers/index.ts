@@ -0,0 +1,46 @@
+/**
+ * Provider registry - LLM_PROVIDER selects the backend:
+ *   gemini (default) | openai | ollama | fixture
+ */
+
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAiProvider } from './openai.js';
+import { createOllamaProvider } from './ollama.js';
+import { createFixtureProvider } from './fixture.js';
+import type { LlmProvider } from './types.js';
+
+export type { LlmProvider, LlmGenerateOptions, LlmGenerateResult, GroundingMetadata, GroundingChunk, GroundingSupport, LlmUsage } from './types.js';
+export { LlmProviderError } from './types.js';
+
+const PROVIDER_FACTORIES: Record<string, () => LlmProvider> = {
+    gemini: createGeminiProvider,
+    openai: createOpenAiProvider,
+    ollama: createOllamaProvider,
+    fixture: createFixtureProvider
+};
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Get the configured provider (created on first use)
+ */
+export function getLlmProvider(): LlmProvider {
+    if (!activeProvider) {
+        const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+        const factory = PROVIDER_FACTORIES[name];
+
+        if (!factory) {
+            throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+        }
+
+        activeProvider = factory();
+    }
+    return activeProvider;
+}
+
+/**
+ * Override the provider (tests, demos, scripts). Pass null to fall back to LLM_PROVIDER.
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+    activeProvider = provider;
+}
@@ -0,0 +1,50 @@
+/**
+ * Ollama provider - local model server (POST /api/generate)
+ */
+
+import axios from 'axios';
+import type { LlmProvider, LlmGenerateOptions, LlmGenerateResult } from './types.js';
+
+export function createOllamaProvider(): LlmProvider {
+    const baseUrl = (process.env.OLLAMA_URL || 'http://localhost:11434').replace(/\/+$/, '');
+    const model = process.env.LLM_MODEL || 'llama3.1';
+
+    async function generate(prompt: string, options?: LlmGenerateOptions): Promise<LlmGenerateResult> {
+        console.log(`   🤖 Calling Ollama at ${baseUrl}`);
+        console.log(`   📍 Model: ${model}`);
+
+        const response = await axios.post(`${baseUrl}/api/generate`, {
+            model,
+            prompt,
+            stream: false,
+            format: 'json',
+            options: {
+                temperature: options?.temperature ?? 0.2,
+                num_predict: options?.maxOutputTokens ?? 8192
+            }
+        }, {
+            // Local models on CPU are slow - allow longer than hosted APIs
+            timeout: options?.timeoutMs ?? 600000
+        });
+
+        const text = response.data?.response;
+        if (!text) {
+            throw new Error('Empty response from Ollama');
+        }
+
+        const promptTokens = Number(response.data?.prompt_eval_count) || 0;
+        const candidatesTokens = Number(response.data?.eval_count) || 0;
+
+        return {
+            text: String(text),
+            model: String(response.data?.model || model),
+            usage: { promptTokens, candidatesTokens, totalTokens: promptTokens + candidatesTokens }
+        };
+    }
+
+    return {
+        name: 'ollama',
+        model,
+        generate
+    };
+}
@@ -0,0 +1,52 @@
+/**
+ * OpenAI-compatible provider - any server exposing POST /chat/completions
+ * (OpenAI, Azure OpenAI proxies, vLLM, LM Studio, llama.cpp server, ...)
+ */
+
+import axios from 'axios';
+import type { LlmProvider, LlmGenerateOptions, LlmGenerateResult } from './types.js';
+
+export function createOpenAiProvider(): LlmProvider {
+    const baseUrl = (process.env.LLM_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const model = process.env.LLM_MODEL || 'gpt-4o-mini';
+
+    async function generate(prompt: string, options?: LlmGenerateOptions): Promise<LlmGenerateResult> {
+        const apiKey = process.env.LLM_API_KEY;
+
+        console.log(`   🤖 Calling OpenAI-compatible endpoint ${baseUrl}`);
+        console.log(`   📍 Model: ${model}`);
+
+        const response = await axios.post(`${baseUrl}/chat/completions`, {
+            model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: options?.temperature ?? 0.2,
+            max_tokens: options?.maxOutputTokens ?? 8192
+        }, {
+            timeout: options?.timeoutMs ?? 120000,
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+        });
+
+        const text = response.data?.choices?.[0]?.message?.content;
+        if (!text) {
+            throw new Error('Empty response from OpenAI-compatible endpoint');
+        }
+
+        const usage = response.data?.usage;
+
+        return {
+            text: String(text),
+            model: String(response.data?.model || model),
+            usage: usage ? {
+                promptTokens: Number(usage.prompt_tokens) || 0,
+                candidatesTokens: Number(usage.completion_tokens) || 0,
+                totalTokens: Number(usage.total_tokens) || 0
+            } : undefined
+        };
+    }
+
+    return {
+        name: 'openai',
+        model,
+        generate
+    };
+}
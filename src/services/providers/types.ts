@@ -0,0 +1,49 @@
+/**
+ * LLM provider contract - every backend (Gemini, OpenAI-compatible, Ollama, fixtures)
+ * turns a prompt into raw text plus whatever grounding metadata it can offer
+ */
+
+import type { GroundingMetadata, LlmUsage, LlmCallAttempt } from '../../types/index.js';
+
+export type { GroundingMetadata, GroundingChunk, GroundingSupport, LlmUsage, LlmCallAttempt } from '../../types/index.js';
+
+export interface LlmGenerateOptions {
+    temperature?: number;
+    maxOutputTokens?: number;
+    timeoutMs?: number;
+}
+
+export interface LlmGenerateResult {
+    text: string;
+    model: string;              // Model that actually produced the text
+    grounding?: GroundingMetadata;
+    usage?: LlmUsage;
+    attempts?: LlmCallAttempt[];    // Per-model tries, including failed fallbacks
+}
+
+/**
+ * Raised when a provider gives up - carries the attempts so they can still be accounted for
+ */
+export class LlmProviderError extends Error {
+    constructor(message: string, public attempts: LlmCallAttempt[]) {
+        super(message);
+        this.name = 'LlmProviderError';
+    }
+}
+
+export interface LlmProvider {
+    name: string;
+    model: string;              // Primary/configured model
+    generate(prompt: string, options?: LlmGenerateOptions): Promise<LlmGenerateResult>;
+}
+
+/**
+ * Reject if a call takes longer than the timeout
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
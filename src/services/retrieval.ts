@@ -0,0 +1,217 @@
+/**
+ * Retrieval Service - Pick the most relevant passages from a country's curated sources
+ * for each summary section, so the prompt is grounded in our own AIP/ANO documents
+ */
+
+export interface SourceDocument {
+    id: string;
+    title: string;
+    type?: string;
+    url?: string;
+    hash?: string;      // Source.hash of the extracted text
+    text: string;
+}
+
+export interface TextChunk {
+    sourceId: string;
+    offset: number; // Character offset into Source.extractedText
+    text: string;
+}
+
+export interface RetrievedPassage extends TextChunk {
+    label: string;       // Short citation label used in the prompt, e.g. S3
+    title: string;
+    type?: string;
+    sections: string[];  // Summary sections this passage was retrieved for
+    score: number;
+}
+
+const RETRIEVAL_CONFIG = {
+    CHUNK_SIZE: 1200,           // Characters per chunk
+    CHUNK_OVERLAP: 200,         // Characters shared between neighbouring chunks
+    PASSAGES_PER_SECTION: 3,
+    MAX_PROMPT_CHARS: 24000,    // Budget for all excerpts in one prompt
+    BM25_K1: 1.2,
+    BM25_B: 0.75
+};
+
+// Search terms for each summary section
+export const SECTION_QUERIES: Record<string, string> = {
+    status: 'munitions of war weapons ammunition explosives prior authorization permission required prohibited',
+    permit_and_conditions: 'permit application conditions insurance dangerous goods certificate end-user certificate exemption',
+    overflight_permits: 'overflight permit diplomatic clearance airspace FIR transit route prohibited restricted area fees',
+    landing_permits: 'landing permit airport aerodrome ground handling security customs parking explosives cargo',
+    israel_limitation: 'Israel Israeli registered aircraft origin destination restriction',
+    key_extracts: 'article regulation section order act law shall prohibited GEN',
+    ops_notes: 'documents customs declaration handling notification procedure submit originals',
+    minimum_lead_time: 'working days hours in advance before prior notice lead time application submitted',
+    authorities_contacts: 'contact telephone phone email fax address department authority office AFTN'
+};
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+    'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'will', 'with', 'this'
+]);
+
+/**
+ * Lowercase word tokens with stopwords removed
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Split text into overlapping chunks, preferring to break at paragraph or sentence ends
+ */
+export function chunkText(
+    sourceId: string,
+    text: string,
+    size = RETRIEVAL_CONFIG.CHUNK_SIZE,
+    overlap = RETRIEVAL_CONFIG.CHUNK_OVERLAP
+): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    if (!text) return chunks;
+
+    let start = 0;
+    while (start < text.length) {
+        let end = Math.min(start + size, text.length);
+
+        if (end < text.length) {
+            // Look back for a natural break in the last third of the chunk
+            const window = text.slice(start + Math.floor(size * 2 / 3), end);
+            const breakAt = Math.max(window.lastIndexOf('\n'), window.lastIndexOf('. '));
+            if (breakAt !== -1) {
+                end = start + Math.floor(size * 2 / 3) + breakAt + 1;
+            }
+        }
+
+        const raw = text.slice(start, end);
+        const chunk = raw.trim();
+        if (chunk.length > 0) {
+            chunks.push({ sourceId, offset: start + raw.length - raw.trimStart().length, text: chunk });
+        }
+
+        if (end >= text.length) break;
+        start = Math.max(end - overlap, start + 1);
+    }
+
+    return chunks;
+}
+
+/**
+ * Okapi BM25 scores of each tokenized document against a query
+ */
+export function bm25Scores(queryTokens: string[], docs: string[][]): number[] {
+    const N = docs.length;
+    if (N === 0) return [];
+
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / N || 1;
+    const uniqueQuery = [...new Set(queryTokens)];
+
+    // Document frequency per query term
+    const df = new Map<string, number>();
+    const termCounts = docs.map(doc => {
+        const counts = new Map<string, number>();
+        for (const t of doc) counts.set(t, (counts.get(t) || 0) + 1);
+        return counts;
+    });
+    for (const term of uniqueQuery) {
+        df.set(term, termCounts.filter(c => c.has(term)).length);
+    }
+
+    return termCounts.map((counts, i) => {
+        let score = 0;
+        for (const term of uniqueQuery) {
+            score += bm25TermScore(counts.get(term) || 0, df.get(term) || 0, N, docs[i].length, avgLength);
+        }
+        return score;
+    });
+}
+
+/**
+ * BM25 contribution of one query term to one document
+ * @param tf - Term frequency in the document
+ * @param df - Number of documents containing the term
+ * @param N - Number of documents in the corpus
+ */
+export function bm25TermScore(tf: number, df: number, N: number, docLength: number, avgLength: number): number {
+    if (tf === 0) return 0;
+    const { BM25_K1: k1, BM25_B: b } = RETRIEVAL_CONFIG;
+    const idf = Math.log(1 + (N - df + 0.5) / (df + 0.5));
+    return idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * docLength / (avgLength || 1)));
+}
+
+/**
+ * Choose the top passages per summary section from a country's sources.
+ * Passages relevant to several sections are included once, within the prompt budget.
+ */
+export function selectPassages(
+    documents: SourceDocument[],
+    sectionQueries: Record<string, string> = SECTION_QUERIES
+): RetrievedPassage[] {
+    const chunks = documents.flatMap(doc => chunkText(doc.id, doc.text));
+    if (chunks.length === 0) return [];
+
+    const docsById = new Map(documents.map(d => [d.id, d]));
+    const tokenized = chunks.map(c => tokenize(c.text));
+    const selected = new Map<number, { sections: string[]; score: number }>();
+
+    for (const [section, query] of Object.entries(sectionQueries)) {
+        const scores = bm25Scores(tokenize(query), tokenized);
+        const ranked = scores
+            .map((score, idx) => ({ score, idx }))
+            .filter(r => r.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, RETRIEVAL_CONFIG.PASSAGES_PER_SECTION);
+
+        for (const { score, idx } of ranked) {
+            const entry = selected.get(idx) || { sections: [], score: 0 };
+            entry.sections.push(section);
+            entry.score = Math.max(entry.score, score);
+            selected.set(idx, entry);
+        }
+    }
+
+    // Highest scoring first, then trim to the prompt budget
+    const ordered = [...selected.entries()].sort((a, b) => b[1].score - a[1].score);
+    const passages: RetrievedPassage[] = [];
+    let budget = RETRIEVAL_CONFIG.MAX_PROMPT_CHARS;
+
+    for (const [idx, { sections, score }] of ordered) {
+        const chunk = chunks[idx];
+        if (chunk.text.length > budget) continue;
+        budget -= chunk.text.length;
+
+        const doc = docsById.get(chunk.sourceId);
+        passages.push({
+            ...chunk,
+            label: `S${passages.length + 1}`,
+            title: doc?.title || '',
+            type: doc?.type,
+            sections,
+            score: Math.round(score * 100) / 100
+        });
+    }
+
+    return passages;
+}
+
+/**
+ * Render passages as a prompt block with citation labels
+ */
+export function formatPassagesForPrompt(passages: RetrievedPassage[]): string {
+    if (passages.length === 0) return '';
+
+    const blocks = passages.map(p =>
+        `[${p.label}] source=${p.sourceId} "${p.title}"${p.type ? ` (${p.type})` : ''} offset=${p.offset} | relevant to: ${p.sections.join(', ')}\n${p.text}`
+    );
+
+    return `CURATED SOURCE EXCERPTS:
+These passages come from our verified document library (AIP, ANO, national regulations). Prefer them over web results where they apply.
+When a bullet is based on an excerpt, end it with the excerpt label in square brackets, e.g. "[S2]".
+
+${blocks.join('\n\n')}`;
+}
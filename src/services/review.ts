@@ -0,0 +1,116 @@
+/**
+ * Review Service - Promote or discard LLM drafts stored on AiRequest documents
+ */
+
+import { AiRequestModel } from '../models/AiRequest.js';
+import { CountryModel } from '../models/Country.js';
+import { saveCountrySummary } from './versions.js';
+import { applyCountryLocks } from './locks.js';
+import type { CountrySummary, Citation, BulletMeta } from '../types/index.js';
+
+/**
+ * Check whether a country already has a draft waiting for review
+ */
+export async function hasPendingDraft(iso3: string): Promise<boolean> {
+    const existing = await AiRequestModel.exists({ countryIso3: iso3.toUpperCase(), status: 'draft' });
+    return existing !== null;
+}
+
+/**
+ * Build the summary that approving a draft would publish.
+ * additional_notes are curated by hand and never come from the LLM, so they are kept.
+ * Locks are re-applied in case fields were locked after the draft was generated.
+ */
+export async function buildApprovedSummary(iso3: string, draft: CountrySummary): Promise<CountrySummary> {
+    const existingCountry = await CountryModel.findOne({ iso3: iso3.toUpperCase() }).lean();
+    const existingNotes = (existingCountry?.summary?.additional_notes || []) as string[];
+
+    const { summary } = await applyCountryLocks(iso3, draft);
+
+    return {
+        ...summary,
+        additional_notes: existingNotes
+    };
+}
+
+/**
+ * Approve a draft: publish it as a new country version and stamp the reviewer.
+ * Pass `merged` to publish a reviewer-merged summary instead of the draft as generated.
+ * Returns null if the request is not (or no longer) a draft.
+ */
+export async function approveAiRequest(
+    aiRequestId: string,
+    reviewerId: string | undefined,
+    note?: string,
+    merged?: CountrySummary
+): Promise<{ iso3: string; version: number; lastUpdated: string } | null> {
+    const reviewedAt = new Date().toISOString();
+
+    // Claim the draft atomically so two reviewers cannot publish it twice
+    const aiRequest = await AiRequestModel.findOneAndUpdate(
+        { _id: aiRequestId, status: 'draft', draft: { $exists: true } },
+        {
+            $set: {
+                status: 'verified',
+                reviewedBy: reviewerId,
+                reviewedAt,
+                reviewNote: note
+            }
+        },
+        { new: true }
+    ).lean();
+
+    if (!aiRequest || !aiRequest.draft) {
+        return null;
+    }
+
+    try {
+        const summary = merged
+            || await buildApprovedSummary(aiRequest.countryIso3, aiRequest.draft as CountrySummary);
+
+        const saved = await saveCountrySummary(aiRequest.countryIso3, summary, {
+            changeType: 'llm',
+            changedBy: reviewerId,
+            aiRequestId,
+            jobId: aiRequest.jobId,
+            citations: (aiRequest.citations || []) as Citation[],
+            bulletMeta: (aiRequest.bulletMeta || []) as BulletMeta[]
+        });
+
+        await AiRequestModel.findByIdAndUpdate(aiRequestId, {
+            $set: { appliedVersion: saved.version }
+        });
+
+        return { iso3: aiRequest.countryIso3, ...saved };
+    } catch (error) {
+        // Put the draft back in the queue if publishing failed
+        await AiRequestModel.findByIdAndUpdate(aiRequestId, {
+            $set: { status: 'draft' },
+            $unset: { reviewedBy: 1, reviewedAt: 1, reviewNote: 1 }
+        });
+        throw error;
+    }
+}
+
+/**
+ * Reject a draft and stamp the reviewer. Returns false if the request is not a draft.
+ */
+export async function rejectAiRequest(
+    aiRequestId: string,
+    reviewerId: string | undefined,
+    note?: string
+): Promise<boolean> {
+    const aiRequest = await AiRequestModel.findOneAndUpdate(
+        { _id: aiRequestId, status: 'draft' },
+        {
+            $set: {
+                status: 'rejected',
+                reviewedBy: reviewerId,
+                reviewedAt: new Date().toISOString(),
+                reviewNote: note
+            }
+        }
+    );
+
+    return aiRequest !== null;
+}
@@ -0,0 +1,239 @@
+/**
+ * Search Index Service - Chunk and index Source.extractedText in MongoDB for passage search
+ *
+ * Scoring is BM25 over the stored chunk tokens, with corpus statistics computed in Mongo
+ * for the filtered scope (country/type). Every chunk matching a query term is scored (only
+ * its tokens are read) and the best CANDIDATE_LIMIT are loaded. When an embedding function
+ * is configured those candidates are re-ranked with cosine similarity as well.
+ */
+
+import { SourceChunkModel } from '../models/SourceChunk.js';
+import { SourceModel } from '../models/Source.js';
+import { chunkText, tokenize, bm25TermScore } from './retrieval.js';
+import type { Source } from '../types/index.js';
+
+export type EmbeddingFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface SearchResult {
+    sourceId: string;
+    title: string;
+    type: string;
+    url: string;
+    countries: string[];
+    offset: number;
+    text: string;
+    score: number;
+}
+
+const SEARCH_CONFIG = {
+    CANDIDATE_LIMIT: 1000,      // Best BM25 chunks loaded for re-ranking
+    EMBEDDING_WEIGHT: 0.3,      // Share of cosine similarity in the hybrid score
+    HASHING_DIMENSIONS: 256
+};
+
+let embeddingFunction: EmbeddingFunction | null | undefined;
+
+/**
+ * Built-in offline embedding: hashed bag-of-words, L2-normalized.
+ * Good enough to reward vocabulary overlap without any external model.
+ */
+export function hashingEmbedding(dimensions = SEARCH_CONFIG.HASHING_DIMENSIONS): EmbeddingFunction {
+    return async (texts: string[]) => texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const token of tokenize(text)) {
+            let h = 2166136261;
+            for (let i = 0; i < token.length; i++) {
+                h = Math.imul(h ^ token.charCodeAt(i), 16777619);
+            }
+            vector[(h >>> 0) % dimensions] += 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map(v => v / norm);
+    });
+}
+
+/**
+ * Plug in an embedding function (e.g. a local model server). Pass null to disable embeddings.
+ */
+export function setEmbeddingFunction(fn: EmbeddingFunction | null): void {
+    embeddingFunction = fn;
+}
+
+/**
+ * Embedding function in use - set explicitly, or chosen by SEARCH_EMBEDDING=hashing
+ */
+function getEmbeddingFunction(): EmbeddingFunction | null {
+    if (embeddingFunction === undefined) {
+        embeddingFunction = process.env.SEARCH_EMBEDDING === 'hashing' ? hashingEmbedding() : null;
+    }
+    return embeddingFunction;
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * (Re)build the chunks for one source. Skipped when the indexed hash matches unless forced.
+ */
+export async function indexSource(
+    source: Pick<Source, 'title' | 'type' | 'countries' | 'hash' | 'extractedText'> & { _id: unknown },
+    options?: { force?: boolean }
+): Promise<{ chunks: number; skipped: boolean }> {
+    const sourceId = String(source._id);
+
+    if (!options?.force && source.hash) {
+        const existing = await SourceChunkModel.findOne({ sourceId }).select('sourceHash').lean();
+        if (existing?.sourceHash === source.hash) {
+            return { chunks: 0, skipped: true };
+        }
+    }
+
+    await SourceChunkModel.deleteMany({ sourceId });
+
+    const chunks = chunkText(sourceId, source.extractedText || '');
+    if (chunks.length === 0) {
+        return { chunks: 0, skipped: false };
+    }
+
+    const embed = getEmbeddingFunction();
+    const embeddings = embed ? await embed(chunks.map(c => c.text)) : [];
+
+    await SourceChunkModel.insertMany(chunks.map((chunk, i) => {
+        const tokens = tokenize(chunk.text);
+        return {
+            sourceId,
+            sourceHash: source.hash || '',
+            title: source.title,
+            type: source.type,
+            countries: source.countries || [],
+            offset: chunk.offset,
+            text: chunk.text,
+            tokens,
+            length: tokens.length,
+            embedding: embeddings[i]
+        };
+    }));
+
+    return { chunks: chunks.length, skipped: false };
+}
+
+/**
+ * Rebuild the index for every source that has extracted text
+ */
+export async function reindexAllSources(): Promise<{ sources: number; chunks: number; errors: number }> {
+    const sources = await SourceModel.find({ extractedText: { $exists: true, $ne: '' } }).lean();
+
+    let chunks = 0;
+    let errors = 0;
+
+    for (const source of sources) {
+        try {
+            const result = await indexSource(source, { force: true });
+            chunks += result.chunks;
+        } catch (err) {
+            errors++;
+            console.error(`   ⚠️ Failed to index ${source.title}:`, err);
+        }
+    }
+
+    return { sources: sources.length, chunks, errors };
+}
+
+/**
+ * Ranked passage search over indexed sources
+ */
+export async function searchPassages(params: {
+    q: string;
+    country?: string;
+    type?: string;
+    limit?: number;
+}): Promise<SearchResult[]> {
+    const queryTokens = [...new Set(tokenize(params.q))];
+    if (queryTokens.length === 0) return [];
+
+    const scope: Record<string, unknown> = {};
+    if (params.country) scope.countries = params.country.toUpperCase();
+    if (params.type) scope.type = params.type;
+
+    // Corpus statistics for the scope
+    const [N, lengthStats, ...dfs] = await Promise.all([
+        SourceChunkModel.countDocuments(scope),
+        SourceChunkModel.aggregate([{ $match: scope }, { $group: { _id: null, avg: { $avg: '$length' } } }]),
+        ...queryTokens.map(term => SourceChunkModel.countDocuments({ ...scope, tokens: term }))
+    ]);
+    if (N === 0) return [];
+
+    const avgLength = lengthStats[0]?.avg || 1;
+    const embed = getEmbeddingFunction();
+
+    // BM25 over every matching chunk, keeping the best CANDIDATE_LIMIT (trimmed as we go)
+    let best: Array<{ id: unknown; score: number }> = [];
+    const trim = () => {
+        best = best.sort((a, b) => b.score - a.score).slice(0, SEARCH_CONFIG.CANDIDATE_LIMIT);
+    };
+
+    const matches = SourceChunkModel.find({ ...scope, tokens: { $in: queryTokens } })
+        .select('tokens length')
+        .lean()
+        .cursor();
+
+    for await (const chunk of matches) {
+        const counts = new Map<string, number>();
+        for (const t of chunk.tokens) counts.set(t, (counts.get(t) || 0) + 1);
+
+        let score = 0;
+        queryTokens.forEach((term, i) => {
+            score += bm25TermScore(counts.get(term) || 0, dfs[i], N, chunk.length, avgLength);
+        });
+
+        best.push({ id: chunk._id, score });
+        if (best.length >= SEARCH_CONFIG.CANDIDATE_LIMIT * 2) trim();
+    }
+    trim();
+
+    const bm25 = new Map(best.map(b => [String(b.id), b.score]));
+    const candidates = await SourceChunkModel.find({ _id: { $in: best.map(b => b.id) } })
+        .select(embed ? '-tokens' : '-tokens -embedding')
+        .lean();
+
+    let scored = candidates.map(chunk => ({ chunk, score: bm25.get(String(chunk._id)) || 0 }));
+
+    // Hybrid re-rank with embeddings when available
+    if (embed && scored.length > 0) {
+        const [queryVector] = await embed([params.q]);
+        const maxScore = Math.max(...scored.map(s => s.score)) || 1;
+        scored = scored.map(({ chunk, score }) => ({
+            chunk,
+            score: (1 - SEARCH_CONFIG.EMBEDDING_WEIGHT) * (score / maxScore)
+                + SEARCH_CONFIG.EMBEDDING_WEIGHT * (chunk.embedding ? cosine(queryVector, chunk.embedding) : 0)
+        }));
+    }
+
+    const top = scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, params.limit ?? 20);
+
+    const sourceIds = [...new Set(top.map(t => String(t.chunk.sourceId)))];
+    const sources = await SourceModel.find({ _id: { $in: sourceIds } }).select('url').lean();
+    const urls = new Map(sources.map(s => [String(s._id), s.url]));
+
+    return top.map(({ chunk, score }) => ({
+        sourceId: String(chunk.sourceId),
+        title: chunk.title,
+        type: chunk.type,
+        url: urls.get(String(chunk.sourceId)) || '',
+        countries: chunk.countries,
+        offset: chunk.offset,
+        text: chunk.text,
+        score: Math.round(score * 1000) / 1000
+    }));
+}
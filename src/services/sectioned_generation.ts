@@ -0,0 +1,249 @@
+/**
+ * Sectioned Generation - Ask for each summary section in its own small LLM call instead
+ * of one large brief, so responses stay well under the output token limit
+ *
+ * Section prompts are derived from the whole-brief prompt: its instructions and rules are
+ * kept and the OUTPUT FORMAT example is cut down to the section's fields. Sections that
+ * fail to parse or validate, or whose call fails, are re-requested on their own; the
+ * assembled summary then goes through the normal parse / schema validation / repair path.
+ */
+
+import { formatPassagesForPrompt } from './retrieval.js';
+import type { RetrievedPassage } from './retrieval.js';
+import { validateSummaryFields } from './llm_schema.js';
+import type { SummaryField } from './llm_schema.js';
+import type { LlmGenerateResult } from './providers/index.js';
+import type { GroundingMetadata, SchemaError, SectionAttempt } from '../types/index.js';
+
+interface SectionGroup {
+    name: string;
+    fields: SummaryField[];
+    passageSections: string[];  // Retrieval sections (SECTION_QUERIES keys) whose passages are included
+}
+
+export const SECTION_GROUPS: SectionGroup[] = [
+    {
+        name: 'core',
+        fields: ['minimum_lead_time', 'icao_doc_url', 'state_rules_url', 'primary_contact'],
+        passageSections: ['minimum_lead_time', 'authorities_contacts']
+    },
+    { name: 'status', fields: ['status'], passageSections: ['status'] },
+    { name: 'permit_and_conditions', fields: ['permit_and_conditions'], passageSections: ['permit_and_conditions'] },
+    { name: 'overflight_permits', fields: ['overflight_permits'], passageSections: ['overflight_permits'] },
+    { name: 'landing_permits', fields: ['landing_permits'], passageSections: ['landing_permits'] },
+    { name: 'israel_limitation', fields: ['israel_limitation'], passageSections: ['israel_limitation'] },
+    { name: 'key_extracts', fields: ['key_extracts'], passageSections: ['key_extracts'] },
+    { name: 'ops', fields: ['ops_notes', 'ops_checklist'], passageSections: ['ops_notes'] },
+    { name: 'authorities_contacts', fields: ['authorities_contacts'], passageSections: ['authorities_contacts'] },
+    { name: 'references', fields: ['references'], passageSections: [] }
+];
+
+export interface SectionPrompt {
+    group: string;
+    fields: SummaryField[];
+    prompt: string;
+}
+
+/**
+ * Split a whole-brief prompt into instructions, the OUTPUT FORMAT example and the rules.
+ * Returns null if the prompt does not follow that layout.
+ */
+export function splitBriefPrompt(instructions: string): {
+    header: string;
+    example: Record<string, unknown>;
+    rules: string;
+} | null {
+    const formatIdx = instructions.indexOf('OUTPUT FORMAT');
+    const rulesIdx = instructions.indexOf('CRITICAL VALIDATION RULES');
+    if (formatIdx === -1 || rulesIdx === -1 || rulesIdx < formatIdx) return null;
+
+    const formatBlock = instructions.slice(formatIdx, rulesIdx);
+    const jsonStart = formatBlock.indexOf('{');
+    const jsonEnd = formatBlock.lastIndexOf('}');
+    if (jsonStart === -1 || jsonEnd <= jsonStart) return null;
+
+    try {
+        const parsed = JSON.parse(formatBlock.slice(jsonStart, jsonEnd + 1));
+        if (!parsed?.summary || typeof parsed.summary !== 'object') return null;
+
+        return {
+            header: instructions.slice(0, formatIdx).trim(),
+            example: parsed.summary,
+            rules: instructions.slice(rulesIdx).trim()
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Build one prompt per section group
+ * @param fallbackInstructions - Used for the layout when `instructions` cannot be split
+ */
+export function buildSectionPrompts(
+    instructions: string,
+    fallbackInstructions: string,
+    country: string,
+    iso3: string,
+    passages: RetrievedPassage[] = []
+): SectionPrompt[] {
+    const parts = splitBriefPrompt(instructions) || splitBriefPrompt(fallbackInstructions);
+    if (!parts) {
+        throw new Error('Prompt has no OUTPUT FORMAT / CRITICAL VALIDATION RULES layout to derive sections from');
+    }
+
+    return SECTION_GROUPS.map(group => {
+        const example = Object.fromEntries(group.fields.map(f => [f, parts.example[f] ?? '']));
+        const groupPassages = passages.filter(p => p.sections.some(s => group.passageSections.includes(s)));
+        const excerpts = formatPassagesForPrompt(groupPassages);
+
+        const prompt = `${parts.header}
+
+OUTPUT FORMAT (Return ONLY valid JSON with no markdown, containing exactly these fields):
+${JSON.stringify(example, null, 2)}
+
+${parts.rules}
+Country: ${country}
+ISO3 Code: ${iso3}`;
+
+        return {
+            group: group.name,
+            fields: group.fields,
+            prompt: excerpts ? `${prompt}\n\n${excerpts}` : prompt
+        };
+    });
+}
+
+/**
+ * Pull the JSON object out of a section response
+ */
+function parseSectionResponse(text: string): { data?: unknown; errors: SchemaError[] } {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const body = fenced ? fenced[1] : text;
+    const start = body.indexOf('{');
+    const end = body.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+        return { errors: [{ path: '/', message: 'no JSON object in response' }] };
+    }
+
+    try {
+        const cleaned = body.slice(start, end + 1).replace(/,\s*]/g, ']').replace(/,\s*}/g, '}');
+        const data = JSON.parse(cleaned);
+        // Models (and whole-brief fixtures) sometimes wrap the fields in a full brief
+        return { data: data?.summary && typeof data.summary === 'object' ? data.summary : data, errors: [] };
+    } catch (error) {
+        return { errors: [{ path: '/', message: error instanceof Error ? error.message : 'is not valid JSON' }] };
+    }
+}
+
+/**
+ * Merge grounding from several calls. Offsets refer to each call's own response, so they
+ * are dropped - citations fall back to matching support text.
+ */
+function mergeGrounding(results: Array<GroundingMetadata | undefined>): GroundingMetadata | undefined {
+    const present = results.filter((g): g is GroundingMetadata => !!g);
+    if (present.length === 0) return undefined;
+
+    const merged: GroundingMetadata = { webSearchQueries: [], chunks: [], supports: [] };
+    for (const grounding of present) {
+        const offset = merged.chunks.length;
+        merged.webSearchQueries.push(...grounding.webSearchQueries);
+        merged.chunks.push(...grounding.chunks);
+        merged.supports.push(...grounding.supports.map(s => ({
+            text: s.text,
+            chunkIndices: s.chunkIndices.map(i => i + offset),
+            confidenceScores: s.confidenceScores
+        })));
+    }
+    return merged;
+}
+
+/**
+ * Run every section prompt, re-requesting only failed sections for up to `maxAttempts`
+ * attempts each, and assemble the results into a whole-brief JSON response.
+ * `waitForSlot` is awaited before every call after the first, to keep them within the
+ * caller's rate limit. Throws if any section is still invalid after its last attempt.
+ */
+export async function generateSections(
+    country: string,
+    iso3: string,
+    sectionPrompts: SectionPrompt[],
+    generate: (prompt: string, group: string) => Promise<LlmGenerateResult>,
+    maxAttempts: number,
+    waitForSlot?: () => Promise<void>
+): Promise<{ text: string; grounding?: GroundingMetadata; attempts: SectionAttempt[] }> {
+    const summary: Record<string, unknown> = {};
+    const groundings: Array<GroundingMetadata | undefined> = [];
+    const attempts: SectionAttempt[] = sectionPrompts.map(s => ({ group: s.group, attempts: 0 }));
+
+    let pending = sectionPrompts.map((_, idx) => idx);
+    let calls = 0;
+
+    for (let round = 1; round <= maxAttempts && pending.length > 0; round++) {
+        const failed: number[] = [];
+
+        for (const idx of pending) {
+            const section = sectionPrompts[idx];
+            const previous = attempts[idx].schemaErrors;
+            const prompt = previous
+                ? `${section.prompt}\n\nYOUR PREVIOUS ANSWER WAS INVALID:\n${previous.map(e => `- ${e.path}: ${e.message}`).join('\n')}`
+                : section.prompt;
+
+            if (calls++ > 0) await waitForSlot?.();
+            console.log(`   🧩 Section ${section.group}${round > 1 ? ` [retry ${round - 1}]` : ''}...`);
+            attempts[idx].attempts = round;
+
+            // A failed call only costs this section an attempt - sections already done are kept
+            let result: LlmGenerateResult;
+            try {
+                result = await generate(prompt, section.group);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.warn(`   ⚠️ Section ${section.group} call failed: ${message}`);
+                attempts[idx].error = message;
+                delete attempts[idx].schemaErrors;
+                failed.push(idx);
+                continue;
+            }
+
+            const parsed = parseSectionResponse(result.text);
+            const validation = parsed.data !== undefined
+                ? validateSummaryFields(section.fields, parsed.data)
+                : { valid: false, errors: parsed.errors };
+
+            if (!validation.valid) {
+                console.warn(`   ⚠️ Section ${section.group} invalid: ${validation.errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+                attempts[idx].schemaErrors = validation.errors;
+                delete attempts[idx].error;
+                failed.push(idx);
+                continue;
+            }
+
+            const data = parsed.data as Record<string, unknown>;
+            for (const field of section.fields) summary[field] = data[field];
+            groundings.push(result.grounding);
+            delete attempts[idx].schemaErrors;
+            delete attempts[idx].error;
+        }
+
+        pending = failed;
+    }
+
+    if (pending.length > 0) {
+        throw new Error(`Sectioned generation failed for: ${pending.map(idx => sectionPrompts[idx].group).join(', ')}`);
+    }
+
+    const output = {
+        country,
+        iso3,
+        lastUpdated: new Date().toISOString(),
+        summary
+    };
+
+    return {
+        text: JSON.stringify(output, null, 2),
+        grounding: mergeGrounding(groundings),
+        attempts
+    };
+}
@@ -0,0 +1,200 @@
+/**
+ * Snapshots Service - Archive of every distinct fetch of a source, with text diffs between them
+ *
+ * A snapshot keeps the extracted text, hash, content type and HTTP headers of a fetch; the raw
+ * bytes go to the 'source_raw' GridFS bucket. A refetch whose hash matches the latest snapshot
+ * only moves its lastSeenAt forward, so the archive grows with amendments, not with fetches.
+ */
+
+import mongoose from 'mongoose';
+import { getDB } from '../config/db.js';
+import { SourceSnapshotModel } from '../models/SourceSnapshot.js';
+import type { ISourceSnapshot } from '../models/SourceSnapshot.js';
+import { diffSourceTexts } from './diff.js';
+import type { TextDiff, TextDiffGranularity } from './diff.js';
+
+export const RAW_BUCKET = 'source_raw';
+
+export interface FetchedContent {
+    buffer: Buffer;
+    contentType: string;
+    httpHeaders: Record<string, string>;
+    text: string;
+    hash: string;
+}
+
+function rawBucket() {
+    const db = getDB();
+    if (!db) throw new Error('Database not connected');
+    return new mongoose.mongo.GridFSBucket(db, { bucketName: RAW_BUCKET });
+}
+
+async function storeRaw(sourceId: string, content: FetchedContent): Promise<mongoose.Types.ObjectId> {
+    const upload = rawBucket().openUploadStream(`${sourceId}-${content.hash.slice(0, 12)}`, {
+        metadata: { sourceId, hash: content.hash, contentType: content.contentType }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        upload.once('finish', () => resolve());
+        upload.once('error', reject);
+        upload.end(content.buffer);
+    });
+
+    return upload.id as mongoose.Types.ObjectId;
+}
+
+/**
+ * Flatten response headers to strings (multi-value headers are joined with ', ')
+ */
+export function toHeaderRecord(headers: Record<string, unknown>): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        if (value === undefined || value === null) continue;
+        record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+    return record;
+}
+
+/**
+ * Record a fetch. Creates a snapshot unless the latest one already has this hash.
+ */
+export async function saveSnapshot(
+    source: { _id: unknown; url: string },
+    content: FetchedContent
+): Promise<{ snapshotId: string; created: boolean }> {
+    const sourceId = String(source._id);
+    const now = new Date();
+
+    const latest = await SourceSnapshotModel.findOne({ sourceId })
+        .sort({ fetchedAt: -1 })
+        .select('hash')
+        .lean();
+
+    if (latest && latest.hash === content.hash) {
+        await SourceSnapshotModel.updateOne(
+            { _id: latest._id },
+            { $set: { lastSeenAt: now, httpHeaders: content.httpHeaders } }
+        );
+        return { snapshotId: String(latest._id), created: false };
+    }
+
+    const rawFileId = await storeRaw(sourceId, content);
+    const snapshot = await SourceSnapshotModel.create({
+        sourceId,
+        url: source.url,
+        hash: content.hash,
+        contentType: content.contentType,
+        httpHeaders: content.httpHeaders,
+        extractedText: content.text,
+        textLength: content.text.length,
+        rawFileId,
+        rawSize: content.buffer.length,
+        fetchedAt: now,
+        lastSeenAt: now
+    });
+
+    return { snapshotId: String(snapshot._id), created: true };
+}
+
+/**
+ * Mark the latest snapshot as seen again (conditional fetch answered 304 Not Modified)
+ */
+export async function touchLatestSnapshot(sourceId: unknown): Promise<void> {
+    const latest = await SourceSnapshotModel.findOne({ sourceId }).sort({ fetchedAt: -1 }).select('_id').lean();
+    if (latest) {
+        await SourceSnapshotModel.updateOne({ _id: latest._id }, { $set: { lastSeenAt: new Date() } });
+    }
+}
+
+/**
+ * Snapshots of a source, newest first, without their text
+ */
+export async function listSnapshots(
+    sourceId: string,
+    options: { limit: number; skip: number }
+): Promise<{ snapshots: Omit<ISourceSnapshot, 'extractedText'>[]; total: number }> {
+    const [snapshots, total] = await Promise.all([
+        SourceSnapshotModel.find({ sourceId })
+            .sort({ fetchedAt: -1 })
+            .skip(options.skip)
+            .limit(options.limit)
+            .select('-extractedText')
+            .lean<Omit<ISourceSnapshot, 'extractedText'>[]>(),
+        SourceSnapshotModel.countDocuments({ sourceId })
+    ]);
+
+    return { snapshots, total };
+}
+
+export async function getSnapshot(sourceId: string, snapshotId: string): Promise<(ISourceSnapshot & { _id: unknown }) | null> {
+    if (!mongoose.isValidObjectId(snapshotId)) return null;
+    return SourceSnapshotModel.findOne({ _id: snapshotId, sourceId }).lean<ISourceSnapshot & { _id: unknown }>();
+}
+
+/**
+ * Stream the raw bytes of a snapshot as downloaded
+ */
+export function openSnapshotRaw(snapshot: ISourceSnapshot) {
+    if (!snapshot.rawFileId) return null;
+    return rawBucket().openDownloadStream(snapshot.rawFileId);
+}
+
+/**
+ * Diff two snapshots of a source. `to` defaults to the latest snapshot, `from` to the one
+ * before `to`. Returns an error message when a snapshot is missing.
+ */
+export async function diffSnapshots(
+    sourceId: string,
+    options: { from?: string; to?: string; granularity?: TextDiffGranularity; context?: number }
+): Promise<{ error: string } | {
+    from: { id: string; hash: string; fetchedAt: Date };
+    to: { id: string; hash: string; fetchedAt: Date };
+    diff: TextDiff;
+}> {
+    const target = options.to
+        ? await getSnapshot(sourceId, options.to)
+        : await SourceSnapshotModel.findOne({ sourceId }).sort({ fetchedAt: -1 }).lean<ISourceSnapshot & { _id: unknown }>();
+    if (!target) {
+        return { error: options.to ? `Snapshot ${options.to} not found` : 'Source has no snapshots' };
+    }
+
+    const base = options.from
+        ? await getSnapshot(sourceId, options.from)
+        : await SourceSnapshotModel.findOne({ sourceId, fetchedAt: { $lt: target.fetchedAt } })
+            .sort({ fetchedAt: -1 })
+            .lean<ISourceSnapshot & { _id: unknown }>();
+    if (!base) {
+        return { error: options.from ? `Snapshot ${options.from} not found` : 'No earlier snapshot to compare with' };
+    }
+
+    const ref = (s: ISourceSnapshot & { _id: unknown }) => ({ id: String(s._id), hash: s.hash, fetchedAt: s.fetchedAt });
+
+    return {
+        from: ref(base),
+        to: ref(target),
+        diff: diffSourceTexts(base.extractedText, target.extractedText, {
+            granularity: options.granularity,
+            context: options.context
+        })
+    };
+}
+
+/**
+ * Delete every snapshot of a source along with its raw files
+ */
+export async function deleteSnapshots(sourceId: string): Promise<number> {
+    const snapshots = await SourceSnapshotModel.find({ sourceId }).select('rawFileId').lean();
+    const bucket = rawBucket();
+
+    for (const snapshot of snapshots) {
+        if (!snapshot.rawFileId) continue;
+        try {
+            await bucket.delete(snapshot.rawFileId);
+        } catch (err) {
+            console.error(`   ⚠️ Failed to delete raw file ${snapshot.rawFileId}:`, err);
+        }
+    }
+
+    const result = await SourceSnapshotModel.deleteMany({ sourceId });
+    return result.deletedCount;
+}
@@ -0,0 +1,41 @@
+/**
+ * Pending Source Changes - Countries whose sources changed after their last generated draft
+ *
+ * Once a fetch stores a source's new hash, later fetches no longer see the change, so the
+ * affected countries are flagged with Country.sourcesChangedAt until a draft is generated
+ * from the new text. 'changed' mode jobs regenerate every flagged country - including ones
+ * skipped earlier because their previous draft was still awaiting review.
+ */
+
+import { CountryModel } from '../models/Country.js';
+
+/**
+ * Flag countries as needing regeneration after a source change
+ */
+export async function markSourceChanges(countries: string[], at: Date = new Date()): Promise<void> {
+    if (countries.length === 0) return;
+
+    await CountryModel.updateMany(
+        { iso3: { $in: countries.map(iso3 => iso3.toUpperCase()) } },
+        { $set: { sourcesChangedAt: at.toISOString() } }
+    );
+}
+
+/**
+ * ISO3 codes of every country with a source change not yet regenerated
+ */
+export async function countriesWithSourceChanges(): Promise<string[]> {
+    const countries = await CountryModel.find({ sourcesChangedAt: { $exists: true } }).select('iso3').lean();
+    return countries.map(c => String(c.iso3)).sort();
+}
+
+/**
+ * Clear a country's flag after a draft was generated from sources read at `sourcesReadAt`.
+ * A change flagged after that point stays pending.
+ */
+export async function clearSourceChanges(iso3: string, sourcesReadAt: Date): Promise<void> {
+    await CountryModel.updateOne(
+        { iso3: iso3.toUpperCase(), sourcesChangedAt: { $lte: sourcesReadAt.toISOString() } },
+        { $unset: { sourcesChangedAt: 1 } }
+    );
+}
@@ -0,0 +1,272 @@
+/**
+ * Source Health Service - Failure history, retry backoff and health reporting for sources
+ *
+ * Every failed fetch is classified (HTTP status, timeout, DNS, robots.txt, ...) and stored in
+ * source_failures. A failing source is not refetched until Source.health.nextCheckAt, which
+ * backs off exponentially from SOURCE_RETRY_BASE_HOURS (default 6) up to
+ * SOURCE_RETRY_MAX_HOURS (default 168). The next successful fetch resets the count and puts
+ * an errored source back to 'active'.
+ */
+
+import axios from 'axios';
+import { SourceModel } from '../models/Source.js';
+import { SourceFailureModel } from '../models/SourceFailure.js';
+import type { ISourceFailure } from '../models/SourceFailure.js';
+import { RobotsDisallowedError } from './politeness.js';
+import type { Source, SourceErrorClass, SourceFetchError, SourceRedirect, SourceType } from '../types/index.js';
+
+export type SourceHealthState = 'healthy' | 'failing' | 'error' | 'moved' | 'pending';
+
+export const SOURCE_HEALTH_STATES: SourceHealthState[] = ['healthy', 'failing', 'error', 'moved', 'pending'];
+
+type StateCounts = Record<SourceHealthState, number> & { total: number };
+
+export interface SourceHealthReport {
+    generatedAt: string;
+    days: number;
+    totals: StateCounts;
+    byCountry: Array<StateCounts & { iso3: string }>;
+    byType: Array<StateCounts & { type: SourceType }>;
+    failuresByClass: Partial<Record<SourceErrorClass, number>>;   // Failures in the last `days`
+    problems: Array<{
+        _id: unknown;
+        title: string;
+        type: SourceType;
+        url: string;
+        countries: string[];
+        status: Source['status'];
+        state: SourceHealthState;
+        consecutiveFailures: number;
+        lastError?: SourceFetchError;
+        lastSuccessAt?: string;
+        nextCheckAt?: string;
+        redirect?: SourceRedirect;
+    }>;
+}
+
+function hoursEnv(name: string, fallback: number): number {
+    const hours = Number(process.env[name] ?? fallback);
+    return Number.isFinite(hours) && hours > 0 ? hours : fallback;
+}
+
+/**
+ * Wait before re-checking a source after `failures` consecutive failures
+ */
+export function retryDelayMs(failures: number): number {
+    const base = hoursEnv('SOURCE_RETRY_BASE_HOURS', 6);
+    const max = hoursEnv('SOURCE_RETRY_MAX_HOURS', 168);
+    return Math.min(base * 2 ** Math.max(0, failures - 1), max) * 60 * 60 * 1000;
+}
+
+/**
+ * Sources due for a fetch: never failed, or past their backoff
+ */
+export function dueSourcesQuery(now: Date = new Date()): Record<string, unknown> {
+    return {
+        $or: [
+            { 'health.nextCheckAt': { $exists: false } },
+            { 'health.nextCheckAt': null },
+            { 'health.nextCheckAt': { $lte: now.toISOString() } }
+        ]
+    };
+}
+
+/**
+ * Classify a fetch error for the failure history
+ */
+export function classifyFetchError(error: unknown): { errorClass: SourceErrorClass; httpStatus?: number; message: string } {
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, 500);
+
+    if (error instanceof RobotsDisallowedError) return { errorClass: 'robots', message };
+
+    if (axios.isAxiosError(error)) {
+        const httpStatus = error.response?.status;
+        if (httpStatus) {
+            const errorClass: SourceErrorClass =
+                httpStatus === 404 || httpStatus === 410 ? 'not_found'
+                : httpStatus === 401 || httpStatus === 403 ? 'forbidden'
+                : httpStatus === 429 ? 'rate_limited'
+                : httpStatus >= 500 ? 'http_5xx'
+                : 'http_4xx';
+            return { errorClass, httpStatus, message };
+        }
+
+        const code = error.code || '';
+        if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') return { errorClass: 'timeout', message };
+        if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return { errorClass: 'dns', message };
+        if (code === 'ERR_FR_TOO_MANY_REDIRECTS') return { errorClass: 'too_many_redirects', message };
+        if (code.startsWith('ERR_TLS') || code.includes('CERT') || code === 'EPROTO') return { errorClass: 'tls', message };
+        if (code.startsWith('ECONN') || code === 'EHOSTUNREACH' || code === 'ENETUNREACH') return { errorClass: 'connection', message };
+    }
+
+    if (/extract text/i.test(message)) return { errorClass: 'extraction', message };
+
+    return { errorClass: 'unknown', message };
+}
+
+/**
+ * Store a failed fetch and push the source's next check back. Returns the failure count.
+ */
+export async function recordFetchFailure(source: Source & { _id: unknown }, error: unknown): Promise<number> {
+    const { errorClass, httpStatus, message } = classifyFetchError(error);
+    const now = new Date();
+
+    const updated = await SourceModel.findByIdAndUpdate(
+        source._id,
+        {
+            $inc: { 'health.consecutiveFailures': 1 },
+            $set: { 'health.lastError': { errorClass, httpStatus, message, at: now.toISOString() } }
+        },
+        { new: true }
+    ).select('health').lean();
+
+    const failures = updated?.health?.consecutiveFailures ?? 1;
+    const nextCheckAt = new Date(now.getTime() + retryDelayMs(failures)).toISOString();
+    await SourceModel.updateOne({ _id: source._id }, { $set: { 'health.nextCheckAt': nextCheckAt } });
+
+    await SourceFailureModel.create({
+        sourceId: source._id,
+        url: source.url,
+        errorClass,
+        httpStatus,
+        message,
+        consecutive: failures,
+        at: now
+    });
+
+    console.log(`      🩺 ${errorClass}${httpStatus ? ` (${httpStatus})` : ''} - failure ${failures} in a row, next check ${nextCheckAt}`);
+    return failures;
+}
+
+/**
+ * Reset failure tracking after a successful fetch and record any redirect that was followed
+ */
+export async function recordFetchSuccess(source: Source & { _id: unknown }, redirect?: SourceRedirect): Promise<void> {
+    const failures = source.health?.consecutiveFailures ?? 0;
+
+    await SourceModel.updateOne(
+        { _id: source._id },
+        {
+            $set: {
+                'health.consecutiveFailures': 0,
+                'health.lastSuccessAt': new Date().toISOString(),
+                ...(redirect && { 'health.redirect': redirect })
+            },
+            $unset: {
+                'health.nextCheckAt': 1,
+                'health.lastError': 1,
+                ...(!redirect && { 'health.redirect': 1 })
+            }
+        }
+    );
+
+    if (failures > 0 || source.status === 'error') {
+        console.log(`   💚 ${source.title}: Recovered after ${failures} failed fetch${failures === 1 ? '' : 'es'}`);
+    }
+    if (redirect?.permanent && source.health?.redirect?.url !== redirect.url) {
+        console.log(`   ↪️ ${source.title}: Moved permanently to ${redirect.url}`);
+    }
+}
+
+export function sourceHealthState(source: Pick<Source, 'status' | 'health'>): SourceHealthState {
+    if (source.status === 'error') return 'error';
+    if ((source.health?.consecutiveFailures ?? 0) > 0) return 'failing';
+    if (source.health?.redirect?.permanent) return 'moved';
+    if (source.status === 'pending') return 'pending';
+    return 'healthy';
+}
+
+function emptyCounts(): StateCounts {
+    return { total: 0, healthy: 0, failing: 0, error: 0, moved: 0, pending: 0 };
+}
+
+/**
+ * Health of every source, grouped by country and by type, with the unhealthy ones listed
+ * (most consecutive failures first)
+ */
+export async function getSourceHealthReport(options: {
+    country?: string;
+    type?: SourceType;
+    days: number;
+}): Promise<SourceHealthReport> {
+    const query: Record<string, unknown> = {};
+    if (options.country) query.countries = options.country.toUpperCase();
+    if (options.type) query.type = options.type;
+
+    const sources = await SourceModel.find(query).select('-extractedText').lean();
+
+    const totals = emptyCounts();
+    const byCountry = new Map<string, StateCounts>();
+    const byType = new Map<SourceType, StateCounts>();
+    const problems: SourceHealthReport['problems'] = [];
+
+    for (const source of sources) {
+        const state = sourceHealthState(source);
+        const countries = options.country ? [options.country.toUpperCase()] : source.countries;
+
+        totals.total++;
+        totals[state]++;
+
+        for (const iso3 of countries) {
+            const counts = byCountry.get(iso3) || emptyCounts();
+            counts.total++;
+            counts[state]++;
+            byCountry.set(iso3, counts);
+        }
+
+        const typeCounts = byType.get(source.type) || emptyCounts();
+        typeCounts.total++;
+        typeCounts[state]++;
+        byType.set(source.type, typeCounts);
+
+        if (state !== 'healthy') {
+            problems.push({
+                _id: source._id,
+                title: source.title,
+                type: source.type,
+                url: source.url,
+                countries: source.countries,
+                status: source.status,
+                state,
+                consecutiveFailures: source.health?.consecutiveFailures ?? 0,
+                lastError: source.health?.lastError,
+                lastSuccessAt: source.health?.lastSuccessAt,
+                nextCheckAt: source.health?.nextCheckAt,
+                redirect: source.health?.redirect
+            });
+        }
+    }
+
+    const since = new Date(Date.now() - options.days * 24 * 60 * 60 * 1000);
+    const failureCounts = await SourceFailureModel.aggregate<{ _id: SourceErrorClass; count: number }>([
+        { $match: { at: { $gte: since }, sourceId: { $in: sources.map(s => s._id) } } },
+        { $group: { _id: '$errorClass', count: { $sum: 1 } } }
+    ]);
+
+    // Groups with the most unhealthy sources first
+    const unhealthy = (c: StateCounts) => c.total - c.healthy;
+
+    return {
+        generatedAt: new Date().toISOString(),
+        days: options.days,
+        totals,
+        byCountry: [...byCountry.entries()]
+            .map(([iso3, counts]) => ({ iso3, ...counts }))
+            .sort((a, b) => unhealthy(b) - unhealthy(a) || a.iso3.localeCompare(b.iso3)),
+        byType: [...byType.entries()]
+            .map(([type, counts]) => ({ type, ...counts }))
+            .sort((a, b) => unhealthy(b) - unhealthy(a) || a.type.localeCompare(b.type)),
+        failuresByClass: Object.fromEntries(failureCounts.map(f => [f._id, f.count])),
+        problems: problems.sort((a, b) => b.consecutiveFailures - a.consecutiveFailures || a.title.localeCompare(b.title))
+    };
+}
+
+/**
+ * Failure history of a source, newest first
+ */
+export async function getSourceFailures(sourceId: string, limit: number): Promise<ISourceFailure[]> {
+    return SourceFailureModel.find({ sourceId })
+        .sort({ at: -1 })
+        .limit(limit)
+        .lean<ISourceFailure[]>();
+}
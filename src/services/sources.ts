@@ -0,0 +1,278 @@
+/**
+ * Sources Service - Validation, CRUD and bulk import for the sources registry
+ *
+ * Countries are checked against CountryModel and types against SOURCE_TYPES. Bulk imports
+ * take CSV (title,type,url,countries - countries separated by ';', '|' or spaces) or a JSON
+ * array of the same fields, and report the outcome of every row. Rows whose URL is already
+ * registered are skipped unless the import is told to update them.
+ */
+
+import { SourceModel, SOURCE_TYPES } from '../models/Source.js';
+import { SourceChunkModel } from '../models/SourceChunk.js';
+import { CountryModel } from '../models/Country.js';
+import { SourceFailureModel } from '../models/SourceFailure.js';
+import { deleteSnapshots } from './snapshots.js';
+import type { Source, SourceType } from '../types/index.js';
+
+export interface SourceInput {
+    title: string;
+    type: SourceType;
+    url: string;
+    countries: string[];
+}
+
+export interface ImportRowResult {
+    row: number;                // 1-based data row (CSV header excluded)
+    status: 'created' | 'updated' | 'skipped' | 'invalid';
+    title?: string;
+    url?: string;
+    sourceId?: string;
+    errors: string[];
+}
+
+export const SOURCE_STATUSES: Source['status'][] = ['active', 'error', 'pending'];
+
+// Largest import accepted in one request
+export const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * ISO3 codes of every country in the database
+ */
+export async function loadKnownIso3(): Promise<Set<string>> {
+    const countries = await CountryModel.find().select('iso3').lean();
+    return new Set(countries.map(c => String(c.iso3).toUpperCase()));
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+function toCountryList(value: unknown): string[] | null {
+    if (Array.isArray(value)) return value.map(v => String(v).trim().toUpperCase()).filter(Boolean);
+    if (typeof value === 'string') return value.split(/[;|,\s]+/).map(v => v.trim().toUpperCase()).filter(Boolean);
+    return null;
+}
+
+/**
+ * Validate a source. With `partial` only the fields present are checked (for updates).
+ */
+export function validateSourceInput(
+    input: Record<string, unknown>,
+    knownIso3: Set<string>,
+    options?: { partial?: boolean }
+): { value: Partial<SourceInput>; errors: string[] } {
+    const errors: string[] = [];
+    const value: Partial<SourceInput> = {};
+    const required = !options?.partial;
+
+    if (input.title !== undefined || required) {
+        const title = typeof input.title === 'string' ? input.title.trim() : '';
+        if (!title) errors.push('title is required');
+        else value.title = title;
+    }
+
+    if (input.type !== undefined || required) {
+        const type = typeof input.type === 'string' ? input.type.trim().toUpperCase() : '';
+        if (!SOURCE_TYPES.includes(type as SourceType)) {
+            errors.push(`type must be one of: ${SOURCE_TYPES.join(', ')}`);
+        } else {
+            value.type = type as SourceType;
+        }
+    }
+
+    if (input.url !== undefined || required) {
+        const url = typeof input.url === 'string' ? input.url.trim() : '';
+        if (!isHttpUrl(url)) errors.push('url must be an http(s) URL');
+        else value.url = url;
+    }
+
+    if (input.countries !== undefined || required) {
+        const countries = toCountryList(input.countries);
+        if (!countries || countries.length === 0) {
+            errors.push('countries must list at least one ISO3 code');
+        } else {
+            const unknown = countries.filter(c => !knownIso3.has(c));
+            if (unknown.length > 0) errors.push(`unknown country codes: ${unknown.join(', ')}`);
+            else value.countries = [...new Set(countries)];
+        }
+    }
+
+    return { value, errors };
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, CRLF or LF line ends)
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+/**
+ * Turn CSV text (with a header row) into records keyed by lower-cased column name
+ */
+export function parseSourceCsv(text: string): { records: Record<string, unknown>[]; error?: string } {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header) return { records: [], error: 'CSV is empty' };
+
+    const columns = header.map(h => h.trim().toLowerCase());
+    const missing = ['title', 'type', 'url', 'countries'].filter(c => !columns.includes(c));
+    if (missing.length > 0) {
+        return { records: [], error: `CSV header is missing: ${missing.join(', ')}` };
+    }
+
+    return {
+        records: rows.map(fields => Object.fromEntries(columns.map((c, i) => [c, fields[i] ?? ''])))
+    };
+}
+
+/**
+ * Create a source. It starts as 'pending' until fetched.
+ */
+export async function createSource(input: SourceInput) {
+    const source = await SourceModel.create({ ...input, hash: '', status: 'pending' });
+    return source.toObject();
+}
+
+/**
+ * Update a source. A new URL clears the fetched text so the next fetch starts clean;
+ * new countries or title are copied onto the search index chunks.
+ */
+export async function updateSource(id: string, changes: Partial<SourceInput> & { status?: Source['status'] }) {
+    const existing = await SourceModel.findById(id).lean();
+    if (!existing) return null;
+
+    const urlChanged = changes.url !== undefined && changes.url !== existing.url;
+    const update: Record<string, unknown> = { $set: { ...changes } };
+    if (urlChanged) {
+        update.$set = { ...changes, hash: '', status: 'pending' };
+        update.$unset = { extractedText: 1, lastFetched: 1, etag: 1, lastModified: 1, health: 1 };
+    }
+
+    const source = await SourceModel.findByIdAndUpdate(id, update, { new: true }).select('-extractedText').lean();
+
+    if (urlChanged) {
+        await SourceChunkModel.deleteMany({ sourceId: id });
+    } else if (changes.countries || changes.title || changes.type) {
+        await SourceChunkModel.updateMany(
+            { sourceId: id },
+            {
+                $set: {
+                    ...(changes.countries && { countries: changes.countries }),
+                    ...(changes.title && { title: changes.title }),
+                    ...(changes.type && { type: changes.type })
+                }
+            }
+        );
+    }
+
+    return source;
+}
+
+/**
+ * Delete a source, its search index chunks, snapshot archive and failure history
+ */
+export async function deleteSource(id: string): Promise<boolean> {
+    const deleted = await SourceModel.findByIdAndDelete(id).lean();
+    if (!deleted) return false;
+
+    await SourceChunkModel.deleteMany({ sourceId: id });
+    await deleteSnapshots(id);
+    await SourceFailureModel.deleteMany({ sourceId: id });
+    return true;
+}
+
+/**
+ * Validate and (unless dryRun) store a batch of sources, reporting every row
+ */
+export async function importSources(
+    records: Record<string, unknown>[],
+    options: { dryRun: boolean; updateExisting: boolean }
+): Promise<{ dryRun: boolean; summary: Record<ImportRowResult['status'], number>; rows: ImportRowResult[] }> {
+    const knownIso3 = await loadKnownIso3();
+    const existing = await SourceModel.find().select('url').lean();
+    const byUrl = new Map(existing.map(s => [s.url, String(s._id)]));
+    const seenUrls = new Set<string>();
+    const rows: ImportRowResult[] = [];
+
+    for (const [idx, record] of records.entries()) {
+        const { value, errors } = validateSourceInput(record, knownIso3);
+        const result: ImportRowResult = { row: idx + 1, status: 'invalid', title: value.title, url: value.url, errors };
+
+        if (value.url && seenUrls.has(value.url)) {
+            errors.push('duplicate url within this import');
+        }
+        if (errors.length > 0) {
+            rows.push(result);
+            continue;
+        }
+
+        const input = value as SourceInput;
+        seenUrls.add(input.url);
+        const existingId = byUrl.get(input.url);
+
+        if (existingId && !options.updateExisting) {
+            rows.push({ ...result, status: 'skipped', sourceId: existingId, errors: ['url already registered'] });
+            continue;
+        }
+
+        try {
+            if (existingId) {
+                if (!options.dryRun) await updateSource(existingId, input);
+                rows.push({ ...result, status: 'updated', sourceId: existingId });
+            } else {
+                const created = options.dryRun ? null : await createSource(input);
+                rows.push({ ...result, status: 'created', sourceId: created ? String(created._id) : undefined });
+            }
+        } catch (error) {
+            rows.push({ ...result, errors: [error instanceof Error ? error.message : 'Failed to save'] });
+        }
+    }
+
+    const summary = { created: 0, updated: 0, skipped: 0, invalid: 0 };
+    rows.forEach(r => summary[r.status]++);
+
+    return { dryRun: options.dryRun, summary, rows };
+}
@@ -0,0 +1,184 @@
+/**
+ * Usage Service - Token and cost accounting over the LLM calls recorded on AiRequests
+ *
+ * Prices are USD per million tokens. Defaults cover the models we run; override or extend
+ * them with LLM_PRICES, a JSON object such as
+ *   {"gemini-2.5-flash": {"input": 0.3, "output": 2.5, "perCall": 0}}
+ */
+
+import { AiRequestModel } from '../models/AiRequest.js';
+
+export interface ModelPrice {
+    input: number;      // USD per 1M prompt tokens
+    output: number;     // USD per 1M candidate tokens
+    perCall?: number;   // Flat USD per call (e.g. paid search grounding)
+}
+
+export type UsageGroupBy = 'model' | 'country' | 'job';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['model', 'country', 'job'];
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-preview-09-2025': { input: 0.30, output: 2.50 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4o': { input: 2.50, output: 10.00 }
+};
+
+/**
+ * Default price table merged with LLM_PRICES
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+    const raw = process.env.LLM_PRICES;
+    if (!raw) return DEFAULT_PRICES;
+
+    try {
+        return { ...DEFAULT_PRICES, ...JSON.parse(raw) };
+    } catch {
+        console.warn('⚠️ LLM_PRICES is not valid JSON - using default prices');
+        return DEFAULT_PRICES;
+    }
+}
+
+/**
+ * Price for a model - exact match, else the longest configured prefix
+ * (so gemini-2.5-flash-001 is priced as gemini-2.5-flash)
+ */
+function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+    if (prices[model]) return prices[model];
+
+    const prefix = Object.keys(prices)
+        .filter(key => model.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : null;
+}
+
+export function estimateCost(
+    model: string,
+    promptTokens: number,
+    candidatesTokens: number,
+    calls: number,
+    prices = getPriceTable()
+): number | null {
+    const price = priceFor(model, prices);
+    if (!price) return null;
+
+    return (promptTokens * price.input + candidatesTokens * price.output) / 1_000_000
+        + calls * (price.perCall || 0);
+}
+
+/**
+ * Aggregate recorded LLM calls between two ISO timestamps, grouped by model, country or job.
+ * Cost is estimated per model, so fallback calls are priced at the model that answered.
+ */
+export async function getLlmUsage(params: { from?: string; to?: string; groupBy: UsageGroupBy }) {
+    const match: Record<string, unknown> = {};
+    if (params.from || params.to) {
+        match.createdAt = {
+            ...(params.from && { $gte: params.from }),
+            ...(params.to && { $lte: params.to })
+        };
+    }
+
+    const keyField = { model: '$llmCalls.model', country: '$countryIso3', job: '$jobId' }[params.groupBy];
+
+    const rows: Array<{
+        _id: { key: unknown; model: string };
+        calls: number;
+        failedCalls: number;
+        promptTokens: number;
+        candidatesTokens: number;
+        totalTokens: number;
+        durationMs: number;
+        requests: unknown[];
+    }> = await AiRequestModel.aggregate([
+        { $match: match },
+        { $unwind: '$llmCalls' },
+        {
+            $group: {
+                _id: { key: keyField, model: '$llmCalls.model' },
+                calls: { $sum: 1 },
+                failedCalls: { $sum: { $cond: [{ $ifNull: ['$llmCalls.error', false] }, 1, 0] } },
+                promptTokens: { $sum: { $ifNull: ['$llmCalls.usage.promptTokens', 0] } },
+                candidatesTokens: { $sum: { $ifNull: ['$llmCalls.usage.candidatesTokens', 0] } },
+                totalTokens: { $sum: { $ifNull: ['$llmCalls.usage.totalTokens', 0] } },
+                durationMs: { $sum: { $ifNull: ['$llmCalls.durationMs', 0] } },
+                requests: { $addToSet: '$_id' }
+            }
+        }
+    ]);
+
+    const prices = getPriceTable();
+    const allRequests = new Set<string>();
+    const groups = new Map<string, {
+        key: string | null;
+        requests: Set<string>;
+        calls: number;
+        failedCalls: number;
+        promptTokens: number;
+        candidatesTokens: number;
+        totalTokens: number;
+        durationMs: number;
+        estimatedCostUsd: number;
+        unpricedModels: string[];
+    }>();
+
+    for (const row of rows) {
+        const key = row._id.key === null || row._id.key === undefined ? null : String(row._id.key);
+        const group = groups.get(String(key)) || {
+            key,
+            requests: new Set<string>(),
+            calls: 0,
+            failedCalls: 0,
+            promptTokens: 0,
+            candidatesTokens: 0,
+            totalTokens: 0,
+            durationMs: 0,
+            estimatedCostUsd: 0,
+            unpricedModels: []
+        };
+
+        row.requests.forEach(id => {
+            group.requests.add(String(id));
+            allRequests.add(String(id));
+        });
+        group.calls += row.calls;
+        group.failedCalls += row.failedCalls;
+        group.promptTokens += row.promptTokens;
+        group.candidatesTokens += row.candidatesTokens;
+        group.totalTokens += row.totalTokens;
+        group.durationMs += row.durationMs;
+
+        const cost = estimateCost(row._id.model || '', row.promptTokens, row.candidatesTokens, row.calls, prices);
+        if (cost === null) {
+            if (row._id.model && !group.unpricedModels.includes(row._id.model)) group.unpricedModels.push(row._id.model);
+        } else {
+            group.estimatedCostUsd += cost;
+        }
+
+        groups.set(String(key), group);
+    }
+
+    const data = [...groups.values()]
+        .map(({ requests, ...group }) => ({
+            ...group,
+            aiRequests: requests.size,
+            estimatedCostUsd: Math.round(group.estimatedCostUsd * 10000) / 10000
+        }))
+        .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd || b.totalTokens - a.totalTokens);
+
+    // A request can span several groups (e.g. fallback models), so count it once here
+    const totals = data.reduce((acc, g) => ({
+        ...acc,
+        calls: acc.calls + g.calls,
+        failedCalls: acc.failedCalls + g.failedCalls,
+        promptTokens: acc.promptTokens + g.promptTokens,
+        candidatesTokens: acc.candidatesTokens + g.candidatesTokens,
+        totalTokens: acc.totalTokens + g.totalTokens,
+        estimatedCostUsd: Math.round((acc.estimatedCostUsd + g.estimatedCostUsd) * 10000) / 10000
+    }), { aiRequests: allRequests.size, calls: 0, failedCalls: 0, promptTokens: 0, candidatesTokens: 0, totalTokens: 0, estimatedCostUsd: 0 });
+
+    return { groups: data, totals };
+}
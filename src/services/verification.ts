@@ -0,0 +1,149 @@
+/**
+ * Verification Service - Turn the LLM's inline [verify] / [S#] tags into per-bullet
+ * metadata and score how well each country's brief is supported
+ */
+
+import { BULLET_SECTIONS } from './diff.js';
+import type {
+    CountrySummary, BulletMeta, Citation, ConfidenceLevel, FieldLock, VerificationSummary
+} from '../types/index.js';
+
+// Hand-curated notes never come from the LLM and are not scored
+const SCORED_SECTIONS = BULLET_SECTIONS.filter(s => s !== 'additional_notes');
+
+const CONFIDENCE_WEIGHT: Record<ConfidenceLevel, number> = { high: 1, medium: 0.6, low: 0.2 };
+
+// Citations below this grounding score only raise a bullet to medium
+const HIGH_GROUNDING_CONFIDENCE = 0.7;
+
+const VERIFY_TAG = /\s*\[\s*verify\s*\]/gi;
+const HAS_VERIFY_TAG = /\[\s*verify\s*\]/i;
+const SOURCE_TAG = /\s*\[\s*(S\d+(?:\s*,\s*S\d+)*)\s*\]/g;
+
+/**
+ * Strip inline tags from one bullet
+ */
+export function parseBulletTags(text: string): { text: string; verify: boolean; labels: string[] } {
+    const verify = HAS_VERIFY_TAG.test(text);
+
+    const labels: string[] = [];
+    for (const match of text.matchAll(SOURCE_TAG)) {
+        labels.push(...match[1].split(',').map(l => l.trim().toUpperCase()));
+    }
+
+    const stripped = text.replace(VERIFY_TAG, '').replace(SOURCE_TAG, '').replace(/\s{2,}/g, ' ').trim();
+    return { text: stripped, verify, labels: [...new Set(labels)] };
+}
+
+/**
+ * Remove tags from every bullet of an LLM summary and record them as metadata.
+ * Confidence here is provisional - see applyCitationConfidence.
+ *
+ * @param passages - Curated passages that were in the prompt, to resolve [S#] labels
+ */
+export function extractBulletMeta<T extends Partial<CountrySummary>>(
+    summary: T,
+    passages: Array<{ label: string; sourceId: string }> = []
+): { summary: T; bulletMeta: BulletMeta[] } {
+    const sourceByLabel = new Map(passages.map(p => [p.label.toUpperCase(), String(p.sourceId)]));
+    const cleaned: T = { ...summary };
+    const bulletMeta: BulletMeta[] = [];
+
+    for (const section of SCORED_SECTIONS) {
+        const bullets = summary[section];
+        if (!Array.isArray(bullets)) continue;
+
+        cleaned[section] = bullets.map(bullet => {
+            const tags = parseBulletTags(bullet);
+            const sourceIds = [...new Set(tags.labels.map(l => sourceByLabel.get(l)).filter((id): id is string => !!id))];
+
+            bulletMeta.push({
+                section,
+                text: tags.text,
+                confidence: tags.verify ? 'low' : sourceIds.length > 0 ? 'high' : 'medium',
+                verify: tags.verify,
+                sourceIds
+            });
+            return tags.text;
+        }).filter(Boolean);
+    }
+
+    return { summary: cleaned, bulletMeta };
+}
+
+/**
+ * Raise unflagged bullets that search grounding backs: high for confident grounding,
+ * otherwise at least medium. [verify] bullets stay low.
+ */
+export function applyCitationConfidence(bulletMeta: BulletMeta[], citations: Citation[]): BulletMeta[] {
+    const cited = new Map(citations.map(c => [`${c.section}\u0000${c.text}`, c]));
+
+    return bulletMeta.map(meta => {
+        const citation = cited.get(`${meta.section}\u0000${meta.text}`);
+        if (!citation || meta.verify || meta.confidence === 'high') return meta;
+
+        const strong = citation.confidence === undefined || citation.confidence >= HIGH_GROUNDING_CONFIDENCE;
+        return { ...meta, confidence: strong ? 'high' : 'medium' };
+    });
+}
+
+/**
+ * Keep only metadata whose bullet is still present in the summary
+ */
+export function filterBulletMeta(bulletMeta: BulletMeta[], summary: Partial<CountrySummary>): BulletMeta[] {
+    const present = new Set(SCORED_SECTIONS.flatMap(section =>
+        (summary[section] || []).map(text => `${section}\u0000${text}`)
+    ));
+    return bulletMeta.filter(m => present.has(`${m.section}\u0000${m.text}`));
+}
+
+/**
+ * Score a country's brief from its bullet metadata.
+ * Bullets without metadata (manual edits, legacy data) fall back to their inline tags;
+ * bullets in a locked section count as verified.
+ */
+export function computeVerification(
+    summary: Partial<CountrySummary> | undefined,
+    bulletMeta: BulletMeta[] = [],
+    citations: Citation[] = [],
+    locks: Pick<FieldLock, 'field'>[] = []
+): VerificationSummary {
+    const metaByKey = new Map(bulletMeta.map(m => [`${m.section}\u0000${m.text}`, m]));
+    const cited = new Set(citations.map(c => `${c.section}\u0000${c.text}`));
+    const locked = new Set(locks.map(l => l.field));
+
+    let bullets = 0;
+    let weight = 0;
+    let verifyCount = 0;
+    let lowConfidence = 0;
+    let unsourced = 0;
+
+    for (const section of SCORED_SECTIONS) {
+        for (const text of summary?.[section] || []) {
+            const key = `${section}\u0000${text}`;
+            const isLocked = locked.has(section);
+            const meta = metaByKey.get(key);
+
+            const verify = !isLocked && (meta ?? parseBulletTags(text)).verify;
+            const confidence: ConfidenceLevel = isLocked ? 'high'
+                : meta ? meta.confidence
+                    : verify ? 'low' : cited.has(key) ? 'high' : 'medium';
+            const sourced = isLocked || cited.has(key) || (meta?.sourceIds.length ?? 0) > 0;
+
+            bullets++;
+            weight += verify ? 0 : CONFIDENCE_WEIGHT[confidence];
+            if (verify) verifyCount++;
+            if (confidence === 'low') lowConfidence++;
+            if (!sourced) unsourced++;
+        }
+    }
+
+    return {
+        score: bullets > 0 ? Math.round(weight / bullets * 100) : 0,
+        bullets,
+        verifyCount,
+        lowConfidence,
+        unsourced,
+        needsVerification: bullets === 0 || verifyCount > 0 || lowConfidence > 0
+    };
+}
@@ -0,0 +1,146 @@
+/**
+ * Version Service - Every write to a country summary goes through here so the
+ * previous brief is never lost
+ */
+
+import { CountryModel } from '../models/Country.js';
+import { CountryVersionModel } from '../models/CountryVersion.js';
+import { filterCitations } from './citations.js';
+import { filterBulletMeta } from './verification.js';
+import type { CountrySummary, CountryVersionChangeType, Citation, BulletMeta } from '../types/index.js';
+
+export interface SummaryChange {
+    changeType: Exclude<CountryVersionChangeType, 'baseline'>;
+    changedBy?: string;
+    aiRequestId?: string;
+    jobId?: unknown;
+    restoredFrom?: number;
+    citations?: Citation[];     // Replaces the country's citations; omitted = keep those still matching
+    bulletMeta?: BulletMeta[];  // Same rule as citations
+}
+
+/**
+ * Snapshot the current summary as a baseline version if the country has no history yet.
+ * Countries seeded before version tracking existed would otherwise lose their first brief.
+ */
+async function ensureBaselineVersion(iso3: string): Promise<void> {
+    const hasHistory = await CountryVersionModel.exists({ iso3 });
+    if (hasHistory) return;
+
+    const country = await CountryModel.findOne({ iso3 }).lean();
+    if (!country?.summary) return;
+
+    try {
+        await CountryVersionModel.create({
+            iso3,
+            version: Number(country.version) || 1,
+            summary: country.summary,
+            citations: country.citations,
+            bulletMeta: country.bulletMeta,
+            changeType: 'baseline',
+            createdAt: country.lastUpdated || new Date().toISOString()
+        });
+    } catch (err) {
+        // Duplicate key means a concurrent write already created the baseline
+        if ((err as { code?: number }).code !== 11000) throw err;
+    }
+}
+
+/**
+ * Replace a country's summary, bump its version and record a snapshot of the new version
+ */
+export async function saveCountrySummary(
+    iso3: string,
+    summary: CountrySummary,
+    change: SummaryChange
+): Promise<{ version: number; lastUpdated: string }> {
+    const code = iso3.toUpperCase();
+
+    await ensureBaselineVersion(code);
+
+    const existing = await CountryModel.findOne({ iso3: code }).select('citations bulletMeta').lean();
+    const citations = filterCitations(change.citations ?? ((existing?.citations || []) as Citation[]), summary);
+    const bulletMeta = filterBulletMeta(change.bulletMeta ?? ((existing?.bulletMeta || []) as BulletMeta[]), summary);
+
+    const lastUpdated = new Date().toISOString();
+    const updated = await CountryModel.findOneAndUpdate(
+        { iso3: code },
+        {
+            $set: { summary, citations, bulletMeta, lastUpdated },
+            $inc: { version: 1 }
+        },
+        { new: true }
+    ).lean();
+
+    if (!updated) {
+        throw new Error(`Country not found: ${code}`);
+    }
+
+    const version = Number(updated.version);
+
+    await CountryVersionModel.create({
+        iso3: code,
+        version,
+        summary: updated.summary,
+        citations,
+        bulletMeta,
+        changeType: change.changeType,
+        changedBy: change.changedBy,
+        aiRequestId: change.aiRequestId,
+        jobId: change.jobId,
+        restoredFrom: change.restoredFrom,
+        createdAt: lastUpdated
+    });
+
+    return { version, lastUpdated };
+}
+
+/**
+ * List version history for a country (newest first, summaries excluded)
+ */
+export async function listCountryVersions(iso3: string, limit = 50, skip = 0) {
+    const code = iso3.toUpperCase();
+
+    const [versions, total] = await Promise.all([
+        CountryVersionModel.find({ iso3: code })
+            .select('-summary')
+            .sort({ version: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+        CountryVersionModel.countDocuments({ iso3: code })
+    ]);
+
+    return { versions, total };
+}
+
+/**
+ * Get a single version snapshot including the full summary
+ */
+export async function getCountryVersion(iso3: string, version: number) {
+    return CountryVersionModel.findOne({ iso3: iso3.toUpperCase(), version }).lean();
+}
+
+/**
+ * Resolve the summary for a version number, falling back to the live country document
+ * when the requested version is the current one and has not been snapshotted yet
+ */
+export async function getSummaryAtVersion(iso3: string, version?: number): Promise<{
+    version: number;
+    summary: CountrySummary;
+} | null> {
+    const code = iso3.toUpperCase();
+
+    if (version !== undefined) {
+        const snapshot = await getCountryVersion(code, version);
+        if (snapshot) return { version, summary: snapshot.summary };
+    }
+
+    const country = await CountryModel.findOne({ iso3: code }).lean();
+    if (!country) return null;
+
+    const current = Number(country.version) || 1;
+    if (version !== undefined && version !== current) return null;
+
+    return { version: current, summary: country.summary as unknown as CountrySummary };
+}
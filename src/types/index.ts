@@ -38,6 +38,28 @@ export interface CountrySummary {
     references: Reference[];
 }
 
+// Field lock - pins a manually verified field/section so regeneration leaves it intact.
+// `key` narrows an authorities_contacts lock to a single contact (matched by name).
+export interface FieldLock {
+    _id?: string;
+    field: string;
+    key?: string;
+    verifiedBy?: string;
+    verifiedAt: string;
+    note?: string;
+}
+
+// Raised when the LLM proposes a different value for a locked field
+export interface LockConflict {
+    field: string;
+    key?: string;
+    lockedValue: unknown;
+    proposedValue: unknown;
+}
+
+// How a summary is generated: one whole-brief call, or one call per section
+export type GenerationMode = 'whole' | 'sectioned';
+
 export interface Country {
     _id?: string;
     country: string;
@@ -49,6 +71,29 @@ export interface Country {
     lastUpdated: string;
     version: number;
     summary: CountrySummary;
+    citations?: Citation[];
+    bulletMeta?: BulletMeta[];
+    locks?: FieldLock[];
+    generationMode?: GenerationMode;    // Overrides the default mode for this country
+    sourcesChangedAt?: string;          // A source changed after the last generated draft - regenerate in 'changed' mode
+}
+
+// Country version snapshot schema
+export type CountryVersionChangeType = 'baseline' | 'manual' | 'llm' | 'restore';
+
+export interface CountryVersion {
+    _id?: string;
+    iso3: string;
+    version: number;
+    summary: CountrySummary;
+    citations?: Citation[];
+    bulletMeta?: BulletMeta[];
+    changeType: CountryVersionChangeType;
+    changedBy?: string;     // User ID for manual edits, restores and approvals
+    aiRequestId?: string;   // AiRequest that produced the summary
+    jobId?: string;         // UpdateJob that produced the summary
+    restoredFrom?: number;  // Version number restored from
+    createdAt: string;
 }
 
 // Source document schema
@@ -61,7 +106,50 @@ export interface Source {
     lastFetched: string;
     hash: string;
     extractedText?: string;
+    etag?: string;          // Validators from the last full fetch, sent back as
+    lastModified?: string;  // If-None-Match / If-Modified-Since
     status: 'active' | 'error' | 'pending';
+    health?: SourceHealth;
+}
+
+// Why a fetch failed, coarse enough to group on in the health report
+export type SourceErrorClass =
+    | 'not_found'           // 404 / 410
+    | 'forbidden'           // 401 / 403
+    | 'rate_limited'        // 429
+    | 'http_4xx'
+    | 'http_5xx'
+    | 'timeout'
+    | 'dns'
+    | 'connection'
+    | 'tls'
+    | 'too_many_redirects'
+    | 'robots'              // Disallowed by robots.txt
+    | 'extraction'          // Downloaded but no text could be extracted
+    | 'unknown';
+
+export interface SourceFetchError {
+    errorClass: SourceErrorClass;
+    httpStatus?: number;
+    message: string;
+    at: string;
+}
+
+// Redirect followed by the last successful fetch
+export interface SourceRedirect {
+    url: string;            // Final URL
+    statusCode: number;     // Status of the first hop
+    permanent: boolean;     // Every hop was 301/308 - the source has moved
+    hops: number;
+    detectedAt: string;
+}
+
+export interface SourceHealth {
+    consecutiveFailures: number;
+    lastSuccessAt?: string;
+    lastError?: SourceFetchError;
+    nextCheckAt?: string;   // Failing sources are not refetched before this (exponential backoff)
+    redirect?: SourceRedirect;
 }
 
 export type SourceType =
@@ -78,7 +166,167 @@ export type SourceType =
     | 'OPERATOR_MANUAL'
     | 'AIRPORT_MANUAL';
 
+// Search grounding returned by the LLM provider (Gemini Google Search grounding)
+export interface GroundingChunk {
+    uri: string;
+    title: string;
+}
+
+export interface GroundingSupport {
+    text: string;             // Output text span backed by the chunks
+    startIndex?: number;      // Offsets into the raw response
+    endIndex?: number;
+    chunkIndices: number[];   // Indices into GroundingMetadata.chunks
+    confidenceScores?: number[];
+}
+
+export interface GroundingMetadata {
+    webSearchQueries: string[];
+    chunks: GroundingChunk[];
+    supports: GroundingSupport[];
+}
+
+// Token counts reported by the provider for one call
+export interface LlmUsage {
+    promptTokens: number;
+    candidatesTokens: number;
+    totalTokens: number;
+}
+
+// One try against one model inside a provider call (Gemini falls back across models)
+export interface LlmCallAttempt {
+    model: string;
+    durationMs: number;
+    error?: string;
+}
+
+// One provider call made while generating an AiRequest
+export interface LlmCallRecord {
+    purpose: string;            // generate | repair | section:<group>
+    provider: string;
+    model: string;              // Model that answered, or the last one tried when the call failed
+    usage?: LlmUsage;
+    durationMs: number;
+    attempts: LlmCallAttempt[];
+    error?: string;
+    startedAt: string;
+}
+
+// Citation linking one summary bullet/field to the pages that back it
+export interface Citation {
+    section: string;          // Summary field, e.g. overflight_permits or primary_contact.email
+    text: string;             // Bullet/field text the citation belongs to
+    sources: GroundingChunk[];
+    confidence?: number;      // Highest grounding confidence score, 0-1
+}
+
+// Structured metadata for one summary bullet, parsed from the LLM's inline tags
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface BulletMeta {
+    section: string;          // Bullet section, e.g. overflight_permits
+    text: string;             // Bullet text with tags stripped
+    confidence: ConfidenceLevel;
+    verify: boolean;          // LLM marked the fact as unverified with [verify]
+    sourceIds: string[];      // Curated sources cited through [S#] labels
+}
+
+// Per-country verification score derived from bullet metadata
+export interface VerificationSummary {
+    score: number;            // 0-100, higher = better supported
+    bullets: number;
+    verifyCount: number;
+    lowConfidence: number;
+    unsourced: number;        // Bullets with no curated source, grounding citation or lock
+    needsVerification: boolean;
+}
+
+// LLM calls spent on one section group in sectioned generation
+export interface SectionAttempt {
+    group: string;
+    attempts: number;
+    schemaErrors?: SchemaError[];   // Errors from the last failed attempt
+    error?: string;                 // The last attempt's call failed (provider error, timeout)
+}
+
+// Cached raw LLM response, reused while prompt template, sources and model are unchanged
+export interface LlmCacheEntry {
+    _id?: string;
+    key: string;                // sha256 of the parts below plus the rendered prompt
+    iso3: string;
+    template: PromptTemplateRef;
+    model: string;              // provider/model the response was requested from
+    generationMode: GenerationMode;
+    sourceHashes: string[];     // sourceId:hash pairs, sorted
+    response: string;
+    grounding?: GroundingMetadata;
+    aiRequestId?: string;       // AiRequest that made the original call
+    hits: number;
+    createdAt: string;
+    expiresAt: Date;
+}
+
+// Prompt template document schema
+// Versions of one template share a name; at most one version per name+region is active
+export interface PromptTemplate {
+    _id?: string;
+    name: string;             // e.g. country_brief
+    version: number;
+    region?: string;          // Only used for countries in this region; unset = global
+    body: string;             // Instructions; {{country}}, {{iso3}} and {{region}} are substituted
+    description?: string;
+    isActive: boolean;
+    createdBy?: string;
+    createdAt: string;
+}
+
+// Template a prompt was rendered from - version 0 is the built-in GROUNDING_PROMPT
+export interface PromptTemplateRef {
+    name: string;
+    version: number;
+    region?: string;
+}
+
+// Completeness metrics for one generated draft
+export interface DraftMetrics {
+    completeness: number;         // Share of summary fields that are filled, 0-1
+    bullets: number;
+    contacts: number;
+    references: number;
+    citations: number;
+    verifyCount: number;
+    verificationScore: number;
+    leadTimeHasNumber: boolean;
+    repairAttempts: number;
+    durationMs: number;
+}
+
+// Prompt A/B evaluation document schema
+export interface PromptEvaluation {
+    _id?: string;
+    templateName: string;
+    versions: [number, number];   // Template versions compared (A, B)
+    countries: string[];
+    status: 'running' | 'completed' | 'failed';
+    results: Array<{
+        iso3: string;
+        version: number;
+        aiRequestId?: string;
+        metrics?: DraftMetrics;
+        error?: string;
+    }>;
+    createdBy?: string;
+    startedAt: string;
+    completedAt?: string;
+    heartbeatAt?: string;         // Refreshed while running - a stale one was interrupted by a restart
+    error?: string;
+}
+
 // AI Request document schema
+// pending → draft (awaiting review) → verified | rejected; failed when generation errored.
+// Prompt evaluations generate 'evaluation' drafts that never enter the review queue.
+export type AiRequestStatus = 'pending' | 'draft' | 'verified' | 'rejected' | 'failed' | 'evaluation';
+
 export interface AiRequest {
     _id?: string;
     countryIso3: string;
@@ -86,23 +334,91 @@ export interface AiRequest {
     model: string;
     response: string;
     sourceIds: string[];
-    status: 'draft' | 'verified' | 'rejected';
+    retrievedPassages?: Array<{
+        label: string;          // Citation label used in the prompt, e.g. S3
+        sourceId: string;
+        title: string;
+        offset: number;         // Character offset into Source.extractedText
+        length: number;
+        sections: string[];
+        score: number;
+    }>;
+    status: AiRequestStatus;
+    draft?: CountrySummary;     // Parsed LLM summary awaiting review
+    grounding?: GroundingMetadata;
+    citations?: Citation[];     // Grounding mapped onto draft bullets
+    bulletMeta?: BulletMeta[];
+    lockConflicts?: LockConflict[];
+    validationErrors?: SchemaError[];   // Schema errors left after the last repair attempt
+    repairAttempts?: Array<{
+        schemaErrors: SchemaError[];   // Errors sent back to the model
+        response: string;               // Model's repaired output
+    }>;
+    promptTemplate?: PromptTemplateRef;
+    cache?: {
+        key: string;
+        hit: boolean;
+        cachedAt?: string;      // When the replayed response was first generated
+        sourceAiRequestId?: string; // AiRequest that made the original call
+    };
+    usage?: LlmUsage;           // Sum over llmCalls
+    llmCalls?: LlmCallRecord[];
+    durationMs?: number;        // Wall time of the whole generation
+    generationMode?: GenerationMode;
+    sectionAttempts?: SectionAttempt[]; // Sectioned mode only
+    evaluationId?: string;      // PromptEvaluation that requested the draft
+    jobId?: string;             // UpdateJob that requested the draft
     reviewedBy?: string;
     reviewedAt?: string;
+    reviewNote?: string;
+    appliedVersion?: number;    // Country version created when the draft was approved
     createdAt: string;
 }
 
+// JSON Schema violation in LLM output
+export interface SchemaError {
+    path: string;       // JSON pointer into the output, e.g. /summary/references/2/url
+    message: string;
+}
+
+// 'all' regenerates every country not updated recently; 'changed' refetches sources first
+// and regenerates only the countries whose sources changed
+export type UpdateJobMode = 'all' | 'changed';
+
+// 'paused' jobs keep their queue but no new country is started until resumed
+export type UpdateJobStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// 'scheduled' and 'manual' jobs regenerate country summaries; 'source_check' jobs only
+// refetch sources (on their own, more frequent schedule) and never call the LLM
+export type UpdateJobType = 'scheduled' | 'manual' | 'source_check';
+
 // Update Job document schema
 export interface UpdateJob {
     _id?: string;
-    type: 'scheduled' | 'manual';
+    type: UpdateJobType;
     triggeredBy?: string;
     startedAt: string;
     completedAt?: string;
-    status: 'running' | 'completed' | 'failed';
+    status: UpdateJobStatus;
+    mode?: UpdateJobMode;
+    airacCycle?: string;                // AIRAC cycle identifier, e.g. '2601'
     sourcesChecked: number;
     sourcesChanged: number;
+    sourceErrors?: number;
+    changedCountries?: string[];        // ISO3 codes with at least one changed source ('changed' mode, source checks)
     draftsCreated: number;
+    generationMode?: GenerationMode;    // Forces a mode for every country in the job
+    tasksTotal?: number;                // Countries queued as JobTasks
+    tasksLeased?: number;               // Leases handed out so far - drives batch pauses
+    nextLeaseAt?: string;               // Rate limit: no task is leased before this time
+    retryRound?: number;                // Retry rounds started (tasks requeued after ERROR_THRESHOLD failures)
+    heartbeatAt?: string;               // Last sign of life from whoever is running the job
+    pausedAt?: string;
+    pausedBy?: string;
+    cancelledAt?: string;
+    cancelledBy?: string;
+    tasksCancelled?: number;            // Queued countries dropped by a cancel
+    eventSeq?: number;                  // Last JobEvent sequence number
     error?: string;
 }
 
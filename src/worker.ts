@@ -0,0 +1,32 @@
+import dotenv from 'dotenv';
+import { connectDB } from './config/db.js';
+import { recoverStaleJobs } from './jobs/queue.js';
+import { startWorker, stopWorker } from './jobs/worker.js';
+
+dotenv.config();
+
+// Standalone job worker - run as many as needed next to the API server (JOB_WORKER=false there
+// to keep it out of the work). Leases and the per-job rate limit are shared through MongoDB.
+async function start() {
+    try {
+        await connectDB();
+        console.log('✅ MongoDB connected');
+
+        await recoverStaleJobs();
+        startWorker();
+    } catch (error) {
+        console.error('❌ Failed to start worker:', error);
+        process.exit(1);
+    }
+}
+
+// Finish the current country before exiting; an unfinished lease would otherwise sit until it expires
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+        console.log(`\n${signal} received`);
+        await stopWorker();
+        process.exit(0);
+    });
+}
+
+start();
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    getAiracCycle, getNextAiracCycle, getNextAiracRun, getAiracCycleForRun, getAiracCycleById, listAiracCycles, MAX_AIRAC_CYCLES
+} from '../../src/services/airac.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('AIRAC calendar', () => {
+    it('matches published effective dates', () => {
+        expect(getAiracCycle(new Date('1998-01-29T00:00:00Z'))).toMatchObject({ id: '9802', effectiveDate: '1998-01-29' });
+        expect(getAiracCycle(new Date('2024-01-25T00:00:00Z'))).toMatchObject({ id: '2401', effectiveDate: '2024-01-25', endDate: '2024-02-21' });
+        expect(getAiracCycle(new Date('2026-01-22T12:00:00Z'))).toMatchObject({ id: '2601', effectiveDate: '2026-01-22' });
+    });
+
+    it('switches cycles at 00:00 UTC on the effective date', () => {
+        expect(getAiracCycle(new Date('2024-01-24T23:59:59Z')).id).toBe('2313');
+        expect(getAiracCycle(new Date('2024-01-25T00:00:00Z')).id).toBe('2401');
+        expect(getNextAiracCycle(new Date('2024-01-24T23:59:59Z')).id).toBe('2401');
+    });
+
+    it('numbers a 14th cycle in years that have one', () => {
+        expect(getAiracCycleById('2014')).toMatchObject({ year: 2020, number: 14, effectiveDate: '2020-12-31' });
+        expect(getAiracCycleById('2101')?.effectiveDate).toBe('2021-01-28');
+    });
+
+    it('looks up cycles by identifier and rejects ones that do not exist', () => {
+        expect(getAiracCycleById('2601')?.effectiveDate).toBe('2026-01-22');
+        expect(getAiracCycleById('2513')?.effectiveDate).toBe('2025-12-25');
+        expect(getAiracCycleById('2514')).toBeNull();
+        expect(getAiracCycleById('2600')).toBeNull();
+        expect(getAiracCycleById('26-1')).toBeNull();
+    });
+
+    it('lists the cycle in effect at the start and those starting in the range', () => {
+        const cycles = listAiracCycles(new Date('2026-01-01T00:00:00Z'), new Date('2026-03-31T00:00:00Z'));
+        expect(cycles.map(c => c.id)).toEqual(['2513', '2601', '2602', '2603']);
+        expect(listAiracCycles(new Date('2000-01-01'), new Date('2030-01-01'))).toHaveLength(MAX_AIRAC_CYCLES);
+    });
+});
+
+describe('AIRAC update runs', () => {
+    it('run at AIRAC_RUN_HOUR_UTC on the effective date by default', () => {
+        expect(getNextAiracRun(new Date('2026-01-20T00:00:00Z'))).toMatchObject({ id: '2601', runAt: '2026-01-22T02:00:00.000Z' });
+        expect(getAiracCycleForRun(new Date('2026-01-22T01:59:59Z')).id).toBe('2513');
+        expect(getAiracCycleForRun(new Date('2026-01-22T02:00:00Z')).id).toBe('2601');
+    });
+
+    it('start AIRAC_LEAD_DAYS before the effective date', () => {
+        vi.stubEnv('AIRAC_LEAD_DAYS', '7');
+        vi.stubEnv('AIRAC_RUN_HOUR_UTC', '6');
+
+        expect(getNextAiracRun(new Date('2026-01-10T00:00:00Z'))).toMatchObject({ id: '2601', runAt: '2026-01-15T06:00:00.000Z' });
+        // Between the run and the effective date the run belongs to the upcoming cycle
+        expect(getAiracCycleForRun(new Date('2026-01-16T00:00:00Z')).id).toBe('2601');
+        expect(getAiracCycle(new Date('2026-01-16T00:00:00Z')).id).toBe('2513');
+    });
+
+    it('ignore an out of range AIRAC_RUN_HOUR_UTC', () => {
+        vi.stubEnv('AIRAC_RUN_HOUR_UTC', '25');
+        expect(getNextAiracRun(new Date('2026-01-20T00:00:00Z')).runAt).toBe('2026-01-22T02:00:00.000Z');
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { diffSummaries, diffBullets, textSimilarity, diffSourceTexts, splitTextUnits } from '../../src/services/diff.js';
+import type { CountrySummary } from '../../src/types/index.js';
+
+const base: Partial<CountrySummary> = {
+    minimum_lead_time: '3 working days',
+    primary_contact: { phone: '+1 555 0100', email: 'ops@caa.example', website: 'https://caa.example' },
+    status: ['Permits required for all state aircraft'],
+    ops_notes: ['Submit requests via the online portal', 'Night landings need prior approval'],
+    authorities_contacts: [{ name: 'Civil Aviation Authority', role: 'Permits', phone: '', email: 'permits@caa.example', url: '' }],
+    references: [{ id: 'ref-1', title: 'AIP', url: 'https://caa.example/aip', fetchedAt: '2024-01-01T00:00:00.000Z' }]
+};
+
+describe('textSimilarity', () => {
+    it('is 1 for the same words and 0 for nothing in common', () => {
+        expect(textSimilarity('Permit required', 'permit  REQUIRED')).toBe(1);
+        expect(textSimilarity('Permit required', 'night landings')).toBe(0);
+    });
+});
+
+describe('diffBullets', () => {
+    it('ignores whitespace-only changes', () => {
+        expect(diffBullets(['A  bullet '], ['A bullet'])).toEqual({ added: [], removed: [], modified: [], unchanged: 1 });
+    });
+
+    it('pairs similar bullets as modified and leaves the rest added or removed', () => {
+        const d = diffBullets(
+            ['Submit requests via the online portal', 'Crew visas required'],
+            ['Submit requests via the new online portal', 'Fuel available at all airports']
+        );
+        expect(d.modified).toHaveLength(1);
+        expect(d.modified[0]).toMatchObject({ from: 'Submit requests via the online portal', to: 'Submit requests via the new online portal' });
+        expect(d.removed).toEqual(['Crew visas required']);
+        expect(d.added).toEqual(['Fuel available at all airports']);
+    });
+});
+
+describe('diffSummaries', () => {
+    it('reports no changes for identical summaries', () => {
+        const d = diffSummaries(base, structuredClone(base));
+        expect(d.changed).toBe(false);
+        expect(d.fields).toEqual([]);
+        expect(d.sections).toEqual({});
+    });
+
+    it('treats a missing summary as empty', () => {
+        const d = diffSummaries(null, base);
+        expect(d.changed).toBe(true);
+        expect(d.sections.status?.added).toEqual(base.status);
+        expect(d.references.added).toHaveLength(1);
+    });
+
+    it('reports scalar and primary contact field changes', () => {
+        const d = diffSummaries(base, {
+            ...base,
+            minimum_lead_time: '5 working days',
+            primary_contact: { ...base.primary_contact!, email: 'permits@caa.example' }
+        });
+        expect(d.fields).toEqual([
+            { field: 'minimum_lead_time', from: '3 working days', to: '5 working days' },
+            { field: 'primary_contact.email', from: 'ops@caa.example', to: 'permits@caa.example' }
+        ]);
+    });
+
+    it('only reports bullet sections that changed', () => {
+        const d = diffSummaries(base, { ...base, ops_notes: [...base.ops_notes!, 'Fuel available at all airports'] });
+        expect(Object.keys(d.sections)).toEqual(['ops_notes']);
+        expect(d.sections.ops_notes).toMatchObject({ added: ['Fuel available at all airports'], unchanged: 2 });
+    });
+
+    it('matches contacts by name and references by URL', () => {
+        const d = diffSummaries(base, {
+            ...base,
+            authorities_contacts: [{ ...base.authorities_contacts![0], name: 'civil aviation authority ', phone: '+1 555 0199' }],
+            references: [{ ...base.references![0], url: 'https://caa.example/aip/', title: 'AIP (renamed)' }]
+        });
+        expect(d.authorities_contacts.modified).toEqual([
+            { name: 'civil aviation authority', changes: [{ field: 'phone', from: '', to: '+1 555 0199' }] }
+        ]);
+        expect(d.authorities_contacts.added).toEqual([]);
+        expect(d.references).toEqual({ added: [], removed: [] });
+    });
+});
+
+describe('splitTextUnits', () => {
+    it('splits lines, paragraphs and sentences with whitespace collapsed', () => {
+        const text = 'Permits  are required.\r\nApply early.\n\n  Night landings: prior approval.';
+
+        expect(splitTextUnits(text, 'line')).toEqual(['Permits are required.', 'Apply early.', 'Night landings: prior approval.']);
+        expect(splitTextUnits(text, 'paragraph')).toEqual(['Permits are required. Apply early.', 'Night landings: prior approval.']);
+        expect(splitTextUnits(text, 'sentence')).toEqual(['Permits are required.', 'Apply early.', 'Night landings: prior approval.']);
+    });
+});
+
+describe('diffSourceTexts', () => {
+    const lines = (n: number, prefix = 'Line') => Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}`);
+
+    it('reports no hunks for identical texts', () => {
+        const text = lines(5).join('\n');
+        expect(diffSourceTexts(text, text)).toMatchObject({
+            granularity: 'line', changed: false, stats: { added: 0, removed: 0, unchanged: 5 }, hunks: [], approximate: false
+        });
+    });
+
+    it('groups a change with its context and 1-based start positions', () => {
+        const oldLines = lines(10);
+        const newLines = [...oldLines];
+        newLines[4] = 'Line 5 amended';
+
+        const diff = diffSourceTexts(oldLines.join('\n'), newLines.join('\n'), { context: 1 });
+
+        expect(diff.stats).toEqual({ added: 1, removed: 1, unchanged: 9 });
+        expect(diff.hunks).toEqual([{
+            oldStart: 4,
+            newStart: 4,
+            lines: [
+                { op: 'equal', text: 'Line 4' },
+                { op: 'removed', text: 'Line 5' },
+                { op: 'added', text: 'Line 5 amended' },
+                { op: 'equal', text: 'Line 6' }
+            ]
+        }]);
+    });
+
+    it('merges nearby changes and keeps distant ones apart', () => {
+        const oldLines = lines(20);
+        const near = oldLines.filter((_, i) => i !== 3 && i !== 5);
+        const far = oldLines.filter((_, i) => i !== 1 && i !== 17);
+
+        expect(diffSourceTexts(oldLines.join('\n'), near.join('\n'), { context: 2 }).hunks).toHaveLength(1);
+        expect(diffSourceTexts(oldLines.join('\n'), far.join('\n'), { context: 2 }).hunks.map(h => h.oldStart)).toEqual([1, 16]);
+    });
+
+    it('compares sentences when neither text has line breaks', () => {
+        const diff = diffSourceTexts('Permits are required. Apply early.', 'Permits are required. Apply 3 days ahead.');
+
+        expect(diff.granularity).toBe('sentence');
+        expect(diff.stats).toEqual({ added: 1, removed: 1, unchanged: 1 });
+    });
+
+    it('falls back to replacing the changed region when there are too many edits', () => {
+        const diff = diffSourceTexts(
+            ['Header', ...lines(1500, 'Old'), 'Footer'].join('\n'),
+            ['Header', ...lines(1500, 'New'), 'Footer'].join('\n'),
+            { context: 0 }
+        );
+
+        expect(diff.approximate).toBe(true);
+        expect(diff.stats).toEqual({ added: 1500, removed: 1500, unchanged: 2 });
+        expect(diff.hunks).toHaveLength(1);
+        expect(diff.hunks[0]).toMatchObject({ oldStart: 2, newStart: 2 });
+    });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/models/AiRequest.js', () => ({
+    AiRequestModel: { findByIdAndUpdate: vi.fn().mockResolvedValue(null) }
+}));
+
+import { validateLlmOutput, validateSummaryFields, buildRepairPrompt, LlmOutputError } from '../../src/services/llm_schema.js';
+import { parseWithRepair } from '../../src/services/llm.js';
+import { setLlmProvider } from '../../src/services/providers/index.js';
+import type { LlmProvider } from '../../src/services/providers/index.js';
+import { AiRequestModel } from '../../src/models/AiRequest.js';
+
+function validOutput() {
+    return {
+        country: 'Testland',
+        iso3: 'TST',
+        lastUpdated: '2026-01-01T00:00:00.000Z',
+        summary: {
+            minimum_lead_time: '5 working days',
+            icao_doc_url: '',
+            state_rules_url: 'https://caa.tst.example/aip',
+            primary_contact: { phone: '+00 100', email: 'permits@caa.tst.example', website: 'https://caa.tst.example' },
+            status: ['-> Prior authorization required'],
+            permit_and_conditions: [],
+            overflight_permits: ['-> Overflight permit required'],
+            landing_permits: [],
+            israel_limitation: [],
+            key_extracts: [],
+            ops_notes: [],
+            ops_checklist: [],
+            authorities_contacts: [{ name: 'Testland CAA', role: 'Permits', phone: '', email: '', url: '' }],
+            references: [{ id: 'ref-1', title: 'AIP GEN 1.2', url: 'https://caa.tst.example/aip', fetchedAt: '2026-01-01T00:00:00.000Z' }]
+        }
+    };
+}
+
+describe('validateLlmOutput', () => {
+    it('accepts a complete brief', () => {
+        expect(validateLlmOutput(validOutput())).toEqual({ valid: true, errors: [] });
+    });
+
+    it('reports every violation as a JSON pointer', () => {
+        const { ops_notes: _omitted, ...summary } = validOutput().summary;
+        const output = {
+            ...validOutput(),
+            iso3: 'TESTLAND',
+            summary: {
+                ...summary,
+                icao_doc_url: 'not a url',
+                references: [{ ...summary.references[0], url: 'ftp://caa.tst.example' }]
+            }
+        };
+
+        const { valid, errors } = validateLlmOutput(output);
+        expect(valid).toBe(false);
+        expect(errors.map(e => e.path).sort()).toEqual([
+            '/iso3',
+            '/summary/icao_doc_url',
+            '/summary/ops_notes',
+            '/summary/references/0/url'
+        ]);
+    });
+
+    it('limits references to 10, each with a non-blank title', () => {
+        const output = validOutput();
+        const ref = output.summary.references[0];
+        output.summary.references = Array.from({ length: 11 }, (_, i) => ({ ...ref, id: `ref-${i + 1}` }));
+        output.summary.references[3] = { ...ref, title: '   ' };
+
+        expect(validateLlmOutput(output).errors.map(e => e.path)).toEqual(['/summary/references', '/summary/references/3/title']);
+    });
+
+    it('rejects output that is not an object', () => {
+        expect(validateLlmOutput('{"country":"x"}')).toMatchObject({ valid: false, errors: [{ path: '/' }] });
+    });
+});
+
+describe('validateSummaryFields', () => {
+    it('checks only the requested fields', () => {
+        expect(validateSummaryFields(['status', 'ops_notes'], { status: [], ops_notes: ['-> Note'] }).valid).toBe(true);
+        expect(validateSummaryFields(['status', 'ops_notes'], { status: [] }).errors).toEqual([
+            { path: '/ops_notes', message: "must have required property 'ops_notes'" }
+        ]);
+    });
+});
+
+describe('buildRepairPrompt', () => {
+    it('lists the errors and includes the invalid JSON', () => {
+        const prompt = buildRepairPrompt('{"iso3":"TESTLAND"}', [{ path: '/iso3', message: 'must match pattern' }]);
+        expect(prompt).toContain('- /iso3: must match pattern');
+        expect(prompt).toContain('{"iso3":"TESTLAND"}');
+    });
+});
+
+describe('parseWithRepair', () => {
+    const invalid = JSON.stringify({ ...validOutput(), iso3: 'TESTLAND' });
+    let responses: string[];
+    const generate = vi.fn<LlmProvider['generate']>(async () => ({ text: responses.shift() ?? invalid, model: 'test' }));
+    const provider: LlmProvider = { name: 'test', model: 'test', generate };
+
+    beforeEach(() => {
+        responses = [];
+        generate.mockClear();
+        vi.mocked(AiRequestModel.findByIdAndUpdate).mockClear();
+        setLlmProvider(provider);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        setLlmProvider(null);
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('returns valid output without a repair call', async () => {
+        const parsed = await parseWithRepair('req-1', JSON.stringify(validOutput()));
+        expect(parsed.iso3).toBe('TST');
+        expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('keeps every reference that passed the schema', async () => {
+        const output = validOutput();
+        output.summary.references = Array.from({ length: 10 }, (_, i) => ({
+            id: `ref-${i + 1}`, title: `Ref ${i + 1}`, url: `http://a.io/${i}`, fetchedAt: '2026-01-01T00:00:00.000Z'
+        }));
+
+        const parsed = await parseWithRepair('req-1', JSON.stringify(output));
+        expect(parsed.summary.references).toEqual(output.summary.references);
+    });
+
+    it('sends schema errors back to the model and records the repair', async () => {
+        const repaired = JSON.stringify(validOutput());
+        responses = [repaired];
+
+        const parsed = await parseWithRepair('req-1', invalid);
+
+        expect(parsed.iso3).toBe('TST');
+        expect(generate).toHaveBeenCalledTimes(1);
+        expect(generate.mock.calls[0][0]).toContain('/iso3');
+        expect(AiRequestModel.findByIdAndUpdate).toHaveBeenCalledWith('req-1', {
+            $push: { repairAttempts: { schemaErrors: [expect.objectContaining({ path: '/iso3' })], response: repaired } }
+        });
+    });
+
+    it('gives up with the last schema error after LLM_REPAIR_ATTEMPTS repairs', async () => {
+        vi.stubEnv('LLM_REPAIR_ATTEMPTS', '1');
+        await expect(parseWithRepair('req-1', invalid)).rejects.toBeInstanceOf(LlmOutputError);
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to the default for a non-numeric LLM_REPAIR_ATTEMPTS', async () => {
+        vi.stubEnv('LLM_REPAIR_ATTEMPTS', 'abc');
+        await expect(parseWithRepair('req-1', invalid)).rejects.toBeInstanceOf(LlmOutputError);
+        expect(generate).toHaveBeenCalledTimes(2);
+    });
+});
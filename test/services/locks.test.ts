@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { validateLock, applyLocks } from '../../src/services/locks.js';
+import type { CountrySummary, FieldLock } from '../../src/types/index.js';
+
+const verifiedAt = '2024-01-01T00:00:00.000Z';
+
+const live: Partial<CountrySummary> = {
+    minimum_lead_time: '3 working days',
+    primary_contact: { phone: '+1 555 0100', email: 'ops@caa.example', website: 'https://caa.example' },
+    ops_notes: ['Submit requests via the online portal'],
+    authorities_contacts: [
+        { name: 'Civil Aviation Authority', role: 'Permits', phone: '+1 555 0101', email: 'permits@caa.example', url: '' }
+    ]
+};
+
+function lock(field: string, key?: string): FieldLock {
+    return { field, key, verifiedAt };
+}
+
+describe('validateLock', () => {
+    it('accepts lockable fields', () => {
+        expect(validateLock('ops_notes', undefined, live)).toBeNull();
+        expect(validateLock('primary_contact.email', '', live)).toBeNull();
+    });
+
+    it('rejects unknown fields', () => {
+        expect(validateLock('nope', undefined, live)).toMatch(/^field must be one of/);
+        expect(validateLock(42, undefined, live)).toMatch(/^field must be one of/);
+    });
+
+    it('only takes a key for existing authority contacts', () => {
+        expect(validateLock('ops_notes', 'x', live)).toBe('key is only supported for authorities_contacts locks');
+        expect(validateLock('authorities_contacts', 7, live)).toBe('key must be the name of an authority contact');
+        expect(validateLock('authorities_contacts', 'Customs', live)).toBe('No authority contact named "Customs"');
+        expect(validateLock('authorities_contacts', ' civil aviation authority', live)).toBeNull();
+    });
+});
+
+describe('applyLocks', () => {
+    it('keeps locked values and reports what the LLM proposed instead', () => {
+        const generated = { ...live, minimum_lead_time: '5 working days', ops_notes: ['Something else'] };
+        const { summary, conflicts } = applyLocks(live, generated, [lock('minimum_lead_time'), lock('ops_notes')]);
+
+        expect(summary.minimum_lead_time).toBe('3 working days');
+        expect(summary.ops_notes).toEqual(live.ops_notes);
+        expect(conflicts).toEqual([
+            { field: 'minimum_lead_time', lockedValue: '3 working days', proposedValue: '5 working days' },
+            { field: 'ops_notes', lockedValue: live.ops_notes, proposedValue: ['Something else'] }
+        ]);
+    });
+
+    it('reports no conflict when the LLM agrees up to whitespace and key order', () => {
+        const generated = { ...live, ops_notes: [' Submit requests via the online portal '] };
+        expect(applyLocks(live, generated, [lock('ops_notes')]).conflicts).toEqual([]);
+    });
+
+    it('locks a single primary contact field', () => {
+        const generated = { ...live, primary_contact: { phone: '+1 555 9999', email: 'new@caa.example', website: '' } };
+        const { summary, conflicts } = applyLocks(live, generated, [lock('primary_contact.email')]);
+
+        expect(summary.primary_contact).toEqual({ phone: '+1 555 9999', email: 'ops@caa.example', website: '' });
+        expect(conflicts).toEqual([{ field: 'primary_contact.email', lockedValue: 'ops@caa.example', proposedValue: 'new@caa.example' }]);
+    });
+
+    it('puts back a locked authority contact the LLM dropped', () => {
+        const generated = { ...live, authorities_contacts: [] };
+        const { summary, conflicts } = applyLocks(live, generated, [lock('authorities_contacts', 'civil aviation authority')]);
+
+        expect(summary.authorities_contacts).toEqual(live.authorities_contacts);
+        expect(conflicts).toEqual([{
+            field: 'authorities_contacts',
+            key: 'civil aviation authority',
+            lockedValue: live.authorities_contacts![0],
+            proposedValue: null
+        }]);
+    });
+
+    it('ignores locks on contacts or fields the live summary no longer has', () => {
+        const generated = { ...live, icao_doc_url: 'https://icao.example' };
+        const { summary, conflicts } = applyLocks(live, generated, [lock('authorities_contacts', 'Customs'), lock('icao_doc_url')]);
+
+        expect(summary).toEqual(generated);
+        expect(conflicts).toEqual([]);
+    });
+});
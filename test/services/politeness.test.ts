@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { parseRobotsTxt, isPathAllowed, fetchUserAgent } from '../../src/services/politeness.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+const ROBOTS = [
+    '# Example robots.txt',
+    'User-agent: *',
+    'Disallow: /private/',
+    'Crawl-delay: 5',
+    '',
+    'User-agent: Googlebot',
+    'User-agent: AOW-SourceMonitor',
+    'Disallow: /drafts/   # not published yet',
+    'Allow: /drafts/public',
+    'Crawl-delay: 600',
+    '',
+    'User-agent: aow-sourcemonitor',
+    'Disallow: /*.pdf$',
+    'Sitemap: https://caa.example/sitemap.xml'
+].join('\r\n');
+
+describe('parseRobotsTxt', () => {
+    it('merges every group naming our product token and caps Crawl-delay', () => {
+        const rules = parseRobotsTxt(ROBOTS, 'aow-sourcemonitor');
+
+        expect(rules.rules).toEqual([
+            { allow: false, pattern: '/drafts/' },
+            { allow: true, pattern: '/drafts/public' },
+            { allow: false, pattern: '/*.pdf$' }
+        ]);
+        expect(rules.crawlDelayMs).toBe(60 * 1000);
+    });
+
+    it("falls back to the '*' group for other agents", () => {
+        expect(parseRobotsTxt(ROBOTS, 'otherbot')).toEqual({
+            rules: [{ allow: false, pattern: '/private/' }],
+            crawlDelayMs: 5000
+        });
+    });
+
+    it('ignores rules outside a group and empty Disallow lines', () => {
+        expect(parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow:\n', 'otherbot')).toEqual({ rules: [], crawlDelayMs: 0 });
+    });
+
+    it('matches against the token from FETCH_USER_AGENT by default', () => {
+        vi.stubEnv('FETCH_USER_AGENT', 'Googlebot/2.1 (+http://www.google.com/bot.html)');
+
+        expect(fetchUserAgent()).toBe('Googlebot/2.1 (+http://www.google.com/bot.html)');
+        expect(parseRobotsTxt(ROBOTS).rules.map(r => r.pattern)).toEqual(['/drafts/', '/drafts/public']);
+    });
+});
+
+describe('isPathAllowed', () => {
+    const rules = parseRobotsTxt(ROBOTS, 'aow-sourcemonitor');
+
+    it('allows paths no rule matches', () => {
+        expect(isPathAllowed(rules, '/')).toBe(true);
+        expect(isPathAllowed(rules, '/private/x')).toBe(true);
+    });
+
+    it('lets the longest matching rule win', () => {
+        expect(isPathAllowed(rules, '/drafts/2025')).toBe(false);
+        expect(isPathAllowed(rules, '/drafts/public/annex')).toBe(true);
+    });
+
+    it('supports * wildcards and the $ end anchor', () => {
+        expect(isPathAllowed(rules, '/docs/aip.pdf')).toBe(false);
+        expect(isPathAllowed(rules, '/docs/aip.pdf?download=1')).toBe(true);
+    });
+
+    it('prefers Allow when rules of equal length match', () => {
+        const tie = { rules: [{ allow: false, pattern: '/page' }, { allow: true, pattern: '/page' }], crawlDelayMs: 0 };
+        expect(isPathAllowed(tie, '/page')).toBe(true);
+    });
+});
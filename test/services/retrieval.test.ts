@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, chunkText, bm25Scores, bm25TermScore, selectPassages } from '../../src/services/retrieval.js';
+
+describe('tokenize', () => {
+    it('lowercases, splits on punctuation and drops stopwords and single characters', () => {
+        expect(tokenize('The Overflight PERMIT is required, 3 days in advance (AIP GEN 1.2).'))
+            .toEqual(['overflight', 'permit', 'required', 'days', 'advance', 'aip', 'gen']);
+    });
+});
+
+describe('chunkText', () => {
+    it('returns one chunk for short text, with the offset of its first non-space character', () => {
+        expect(chunkText('s1', '   Short text.  ')).toEqual([{ sourceId: 's1', offset: 3, text: 'Short text.' }]);
+        expect(chunkText('s1', '')).toEqual([]);
+    });
+
+    it('covers long text with overlapping chunks whose offsets point back into it', () => {
+        const text = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} about permits.`).join(' ');
+        const chunks = chunkText('s1', text, 200, 50);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.text.length).toBeLessThanOrEqual(200);
+            expect(text.slice(chunk.offset, chunk.offset + chunk.text.length)).toBe(chunk.text);
+        }
+        expect(chunks[0].offset).toBe(0);
+        expect(text.endsWith(chunks[chunks.length - 1].text)).toBe(true);
+    });
+
+    it('prefers to break after a sentence', () => {
+        const text = `${'a'.repeat(150)}. ${'b'.repeat(100)}`;
+        expect(chunkText('s1', text, 200, 20)[0].text).toBe(`${'a'.repeat(150)}.`);
+    });
+});
+
+describe('bm25', () => {
+    it('scores zero for a term the document does not contain', () => {
+        expect(bm25TermScore(0, 1, 10, 100, 100)).toBe(0);
+    });
+
+    it('rewards rarer terms and more occurrences', () => {
+        expect(bm25TermScore(1, 1, 10, 100, 100)).toBeGreaterThan(bm25TermScore(1, 5, 10, 100, 100));
+        expect(bm25TermScore(3, 1, 10, 100, 100)).toBeGreaterThan(bm25TermScore(1, 1, 10, 100, 100));
+    });
+
+    it('ranks the documents matching the query first', () => {
+        const docs = [
+            tokenize('Landing permits are issued by the civil aviation authority.'),
+            tokenize('Overflight permits need diplomatic clearance for every overflight.'),
+            tokenize('Fuel is available at the main airport.')
+        ];
+        const scores = bm25Scores(tokenize('overflight diplomatic clearance'), docs);
+
+        expect(scores[1]).toBeGreaterThan(0);
+        expect(scores[0]).toBe(0);
+        expect(scores[2]).toBe(0);
+        expect(bm25Scores(['anything'], [])).toEqual([]);
+    });
+});
+
+describe('selectPassages', () => {
+    const documents = [
+        { id: 'aip', title: 'AIP GEN 1.2', type: 'aip', text: 'Overflight permits require diplomatic clearance through the FIR.' },
+        { id: 'ano', title: 'Air Navigation Order', text: 'Landing permits are needed at every aerodrome for explosives cargo.' }
+    ];
+
+    it('labels passages in score order and lists the sections each was retrieved for', () => {
+        const passages = selectPassages(documents, {
+            overflight_permits: 'overflight diplomatic clearance',
+            landing_permits: 'landing aerodrome explosives'
+        });
+
+        expect(passages.map(p => p.label)).toEqual(['S1', 'S2']);
+        expect(passages.find(p => p.sourceId === 'aip')).toMatchObject({ title: 'AIP GEN 1.2', type: 'aip', sections: ['overflight_permits'] });
+        expect(passages.find(p => p.sourceId === 'ano')).toMatchObject({ sections: ['landing_permits'] });
+        expect(passages[0].score).toBeGreaterThanOrEqual(passages[1].score);
+    });
+
+    it('skips passages that match no section', () => {
+        expect(selectPassages(documents, { israel_limitation: 'israel registered aircraft' })).toEqual([]);
+    });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { splitBriefPrompt, buildSectionPrompts, generateSections, SECTION_GROUPS } from '../../src/services/sectioned_generation.js';
+import type { SectionPrompt } from '../../src/services/sectioned_generation.js';
+import type { RetrievedPassage } from '../../src/services/retrieval.js';
+
+const example = {
+    country: 'Country Name',
+    iso3: 'XXX',
+    summary: {
+        minimum_lead_time: 'X working days',
+        icao_doc_url: '',
+        state_rules_url: '',
+        primary_contact: { phone: '', email: '', website: '' },
+        status: ['-> Status bullet'],
+        ops_notes: ['-> Ops note'],
+        ops_checklist: ['[_] Checklist item']
+    }
+};
+
+const brief = `You are an aviation regulatory analyst.
+
+OUTPUT FORMAT (Return ONLY valid JSON):
+${JSON.stringify(example, null, 2)}
+
+CRITICAL VALIDATION RULES:
+1. Never invent phone numbers.`;
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('splitBriefPrompt', () => {
+    it('splits a brief into instructions, the example summary and the rules', () => {
+        expect(splitBriefPrompt(brief)).toEqual({
+            header: 'You are an aviation regulatory analyst.',
+            example: example.summary,
+            rules: 'CRITICAL VALIDATION RULES:\n1. Never invent phone numbers.'
+        });
+    });
+
+    it('returns null for prompts without that layout', () => {
+        expect(splitBriefPrompt('Summarize the regulations.')).toBeNull();
+        expect(splitBriefPrompt('CRITICAL VALIDATION RULES first\nOUTPUT FORMAT {"summary":{}}')).toBeNull();
+        expect(splitBriefPrompt('OUTPUT FORMAT {not json} CRITICAL VALIDATION RULES')).toBeNull();
+    });
+});
+
+describe('buildSectionPrompts', () => {
+    it('builds one prompt per section group with only that group\'s fields', () => {
+        const prompts = buildSectionPrompts(brief, '', 'Testland', 'TST');
+        expect(prompts.map(p => p.group)).toEqual(SECTION_GROUPS.map(g => g.name));
+
+        const ops = prompts.find(p => p.group === 'ops')!;
+        expect(ops.fields).toEqual(['ops_notes', 'ops_checklist']);
+        expect(ops.prompt).toContain('"ops_notes"');
+        expect(ops.prompt).not.toContain('"status"');
+        expect(ops.prompt).toContain('Country: Testland\nISO3 Code: TST');
+    });
+
+    it('falls back to the default layout and only includes passages for the group', () => {
+        const passage: RetrievedPassage = {
+            sourceId: 's1', offset: 0, text: 'Overflight needs clearance.', label: 'S1', title: 'AIP', sections: ['overflight_permits'], score: 1
+        };
+        const prompts = buildSectionPrompts('Custom prompt without a layout', brief, 'Testland', 'TST', [passage]);
+
+        expect(prompts.find(p => p.group === 'overflight_permits')!.prompt).toContain('[S1]');
+        expect(prompts.find(p => p.group === 'status')!.prompt).not.toContain('[S1]');
+    });
+
+    it('throws when neither prompt can be split', () => {
+        expect(() => buildSectionPrompts('a', 'b', 'Testland', 'TST')).toThrow(/OUTPUT FORMAT/);
+    });
+});
+
+describe('generateSections', () => {
+    const sections: SectionPrompt[] = [
+        { group: 'status', fields: ['status'], prompt: 'status prompt' },
+        { group: 'ops', fields: ['ops_notes', 'ops_checklist'], prompt: 'ops prompt' }
+    ];
+
+    it('assembles valid sections into a whole brief', async () => {
+        const generate = vi.fn(async (_prompt: string, group: string) => ({
+            model: 'test',
+            text: group === 'status'
+                ? '```json\n{"status": ["-> Permit required",]}\n```'
+                : '{"summary": {"ops_notes": [], "ops_checklist": ["[_] File permit"]}}'
+        }));
+
+        const result = await generateSections('Testland', 'TST', sections, generate, 2);
+
+        expect(JSON.parse(result.text)).toMatchObject({
+            country: 'Testland',
+            iso3: 'TST',
+            summary: { status: ['-> Permit required'], ops_notes: [], ops_checklist: ['[_] File permit'] }
+        });
+        expect(result.attempts).toEqual([{ group: 'status', attempts: 1 }, { group: 'ops', attempts: 1 }]);
+    });
+
+    it('re-requests only the invalid section, with its errors', async () => {
+        const answers: Record<string, string[]> = {
+            status: ['{"status": ["-> Permit required"]}'],
+            ops: ['{"ops_notes": []}', '{"ops_notes": [], "ops_checklist": []}']
+        };
+        const generate = vi.fn(async (_prompt: string, group: string) => ({ model: 'test', text: answers[group].shift()! }));
+
+        const result = await generateSections('Testland', 'TST', sections, generate, 2);
+
+        expect(generate).toHaveBeenCalledTimes(3);
+        expect(generate.mock.calls[2][0]).toContain('YOUR PREVIOUS ANSWER WAS INVALID:\n- /ops_checklist');
+        expect(result.attempts).toEqual([{ group: 'status', attempts: 1 }, { group: 'ops', attempts: 2 }]);
+    });
+
+    it('counts a failed call as an attempt and keeps the sections already done', async () => {
+        let opsCalls = 0;
+        const generate = vi.fn(async (_prompt: string, group: string) => {
+            if (group === 'ops' && opsCalls++ === 0) throw new Error('Provider timed out');
+            return { model: 'test', text: group === 'status' ? '{"status": []}' : '{"ops_notes": [], "ops_checklist": []}' };
+        });
+
+        const result = await generateSections('Testland', 'TST', sections, generate, 2);
+
+        expect(generate.mock.calls.map(c => c[1])).toEqual(['status', 'ops', 'ops']);
+        expect(generate.mock.calls[2][0]).toBe('ops prompt');
+        expect(result.attempts).toEqual([{ group: 'status', attempts: 1 }, { group: 'ops', attempts: 2 }]);
+    });
+
+    it('reports the call error of a section that never succeeds', async () => {
+        const generate = vi.fn(async (_prompt: string, group: string) => {
+            if (group === 'ops') throw new Error('Provider timed out');
+            return { model: 'test', text: '{"status": []}' };
+        });
+
+        await expect(generateSections('Testland', 'TST', sections, generate, 2)).rejects.toThrow('Sectioned generation failed for: ops');
+        expect(generate).toHaveBeenCalledTimes(3);
+    });
+
+    it('waits for a rate-limit slot before every call after the first', async () => {
+        const order: string[] = [];
+        const waitForSlot = vi.fn(async () => {
+            order.push('wait');
+        });
+        const answers: Record<string, string[]> = {
+            status: ['{"status": []}'],
+            ops: ['{"ops_notes": []}', '{"ops_notes": [], "ops_checklist": []}']
+        };
+        const generate = vi.fn(async (_prompt: string, group: string) => {
+            order.push(group);
+            return { model: 'test', text: answers[group].shift()! };
+        });
+
+        await generateSections('Testland', 'TST', sections, generate, 2, waitForSlot);
+
+        expect(order).toEqual(['status', 'wait', 'ops', 'wait', 'ops']);
+    });
+
+    it('throws naming the sections still invalid after the last attempt', async () => {
+        const generate = vi.fn(async () => ({ model: 'test', text: 'no json here' }));
+        await expect(generateSections('Testland', 'TST', sections, generate, 1)).rejects.toThrow('Sectioned generation failed for: status, ops');
+    });
+
+    it('merges grounding from the sections, re-indexing chunks', async () => {
+        const generate = vi.fn(async (_prompt: string, group: string) => ({
+            model: 'test',
+            text: group === 'status' ? '{"status": []}' : '{"ops_notes": [], "ops_checklist": []}',
+            grounding: {
+                webSearchQueries: [group],
+                chunks: [{ uri: `https://${group}.example`, title: group }],
+                supports: [{ text: group, startIndex: 0, endIndex: 5, chunkIndices: [0] }]
+            }
+        }));
+
+        const { grounding } = await generateSections('Testland', 'TST', sections, generate, 1);
+
+        expect(grounding?.webSearchQueries).toEqual(['status', 'ops']);
+        expect(grounding?.supports.map(s => s.chunkIndices)).toEqual([[0], [1]]);
+        expect(grounding?.supports[1].startIndex).toBeUndefined();
+    });
+});
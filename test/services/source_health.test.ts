@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosResponse } from 'axios';
+import { retryDelayMs, classifyFetchError, sourceHealthState } from '../../src/services/source_health.js';
+import { RobotsDisallowedError } from '../../src/services/politeness.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+function httpError(status: number): AxiosError {
+    const response = { status, statusText: '', headers: {}, config: { headers: new AxiosHeaders() }, data: '' } as AxiosResponse;
+    return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, undefined, response);
+}
+
+describe('retryDelayMs', () => {
+    it('doubles from 6 hours and stops at a week', () => {
+        expect([1, 2, 3, 4, 5, 6, 10].map(f => retryDelayMs(f) / HOUR_MS)).toEqual([6, 12, 24, 48, 96, 168, 168]);
+    });
+
+    it('treats zero failures like the first', () => {
+        expect(retryDelayMs(0)).toBe(6 * HOUR_MS);
+    });
+
+    it('reads the base and cap from the environment', () => {
+        vi.stubEnv('SOURCE_RETRY_BASE_HOURS', '1');
+        vi.stubEnv('SOURCE_RETRY_MAX_HOURS', '4');
+
+        expect([1, 2, 3, 4].map(f => retryDelayMs(f) / HOUR_MS)).toEqual([1, 2, 4, 4]);
+    });
+
+    it('ignores values that are not positive numbers', () => {
+        vi.stubEnv('SOURCE_RETRY_BASE_HOURS', 'soon');
+        vi.stubEnv('SOURCE_RETRY_MAX_HOURS', '-1');
+
+        expect(retryDelayMs(2)).toBe(12 * HOUR_MS);
+        expect(retryDelayMs(20)).toBe(168 * HOUR_MS);
+    });
+});
+
+describe('classifyFetchError', () => {
+    it('classifies HTTP statuses', () => {
+        expect(classifyFetchError(httpError(404))).toMatchObject({ errorClass: 'not_found', httpStatus: 404 });
+        expect(classifyFetchError(httpError(410)).errorClass).toBe('not_found');
+        expect(classifyFetchError(httpError(403)).errorClass).toBe('forbidden');
+        expect(classifyFetchError(httpError(429)).errorClass).toBe('rate_limited');
+        expect(classifyFetchError(httpError(503)).errorClass).toBe('http_5xx');
+        expect(classifyFetchError(httpError(400)).errorClass).toBe('http_4xx');
+    });
+
+    it('classifies network errors by code', () => {
+        const classOf = (code: string) => classifyFetchError(new AxiosError('failed', code)).errorClass;
+
+        expect(classOf('ECONNABORTED')).toBe('timeout');
+        expect(classOf('ENOTFOUND')).toBe('dns');
+        expect(classOf('ERR_FR_TOO_MANY_REDIRECTS')).toBe('too_many_redirects');
+        expect(classOf('CERT_HAS_EXPIRED')).toBe('tls');
+        expect(classOf('ECONNREFUSED')).toBe('connection');
+    });
+
+    it('recognises robots.txt refusals and extraction failures', () => {
+        expect(classifyFetchError(new RobotsDisallowedError('https://caa.example/aip')).errorClass).toBe('robots');
+        expect(classifyFetchError(new Error('Could not extract text from PDF')).errorClass).toBe('extraction');
+        expect(classifyFetchError('boom')).toEqual({ errorClass: 'unknown', message: 'boom' });
+    });
+});
+
+describe('sourceHealthState', () => {
+    it('ranks error over failing over moved over pending', () => {
+        const redirect = { url: 'https://new.example', statusCode: 301, permanent: true, hops: 1, detectedAt: '2025-01-01T00:00:00.000Z' };
+
+        expect(sourceHealthState({ status: 'error', health: { consecutiveFailures: 3 } })).toBe('error');
+        expect(sourceHealthState({ status: 'active', health: { consecutiveFailures: 1, redirect } })).toBe('failing');
+        expect(sourceHealthState({ status: 'pending', health: { consecutiveFailures: 0, redirect } })).toBe('moved');
+        expect(sourceHealthState({ status: 'pending' })).toBe('pending');
+        expect(sourceHealthState({ status: 'active' })).toBe('healthy');
+    });
+});
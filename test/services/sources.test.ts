@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { parseSourceCsv, validateSourceInput } from '../../src/services/sources.js';
+
+const known = new Set(['FRA', 'DEU', 'GBR']);
+
+describe('parseSourceCsv', () => {
+    it('keys records by lower-cased header and keeps quoted commas, quotes and line breaks', () => {
+        const csv = '\uFEFFTitle,Type,URL,Countries\r\n'
+            + '"Annex 18, 2025",ICAO_ANNEX_18,https://example.org/a,FRA;DEU\r\n'
+            + '"The ""DGR""","IATA_DGR",https://example.org/b,"GBR\nFRA"\n';
+
+        const { records, error } = parseSourceCsv(csv);
+
+        expect(error).toBeUndefined();
+        expect(records).toEqual([
+            { title: 'Annex 18, 2025', type: 'ICAO_ANNEX_18', url: 'https://example.org/a', countries: 'FRA;DEU' },
+            { title: 'The "DGR"', type: 'IATA_DGR', url: 'https://example.org/b', countries: 'GBR\nFRA' }
+        ]);
+    });
+
+    it('skips blank lines and fills missing trailing fields with empty strings', () => {
+        const { records } = parseSourceCsv('title,type,url,countries\n\nOnly a title\n  ,  \n');
+        expect(records).toEqual([{ title: 'Only a title', type: '', url: '', countries: '' }]);
+    });
+
+    it('reports an empty file or missing columns', () => {
+        expect(parseSourceCsv('')).toEqual({ records: [], error: 'CSV is empty' });
+        expect(parseSourceCsv('title,url\nA,https://example.org').error).toBe('CSV header is missing: type, countries');
+    });
+});
+
+describe('validateSourceInput', () => {
+    it('normalises a complete source', () => {
+        const { value, errors } = validateSourceInput(
+            { title: ' Annex 18 ', type: 'icao_annex_18', url: 'https://example.org/a', countries: 'fra; deu|FRA' },
+            known
+        );
+
+        expect(errors).toEqual([]);
+        expect(value).toEqual({ title: 'Annex 18', type: 'ICAO_ANNEX_18', url: 'https://example.org/a', countries: ['FRA', 'DEU'] });
+    });
+
+    it('reports every invalid field', () => {
+        const { errors } = validateSourceInput({ title: '', type: 'BLOG', url: 'ftp://example.org', countries: ['FRA', 'XXX'] }, known);
+
+        expect(errors).toHaveLength(4);
+        expect(errors[0]).toBe('title is required');
+        expect(errors[1]).toMatch(/^type must be one of: /);
+        expect(errors[2]).toBe('url must be an http(s) URL');
+        expect(errors[3]).toBe('unknown country codes: XXX');
+    });
+
+    it('only checks the fields present on a partial update', () => {
+        expect(validateSourceInput({ url: 'https://example.org/new' }, known, { partial: true }))
+            .toEqual({ value: { url: 'https://example.org/new' }, errors: [] });
+        expect(validateSourceInput({ countries: [] }, known, { partial: true }).errors)
+            .toEqual(['countries must list at least one ISO3 code']);
+    });
+});